@@ -5,7 +5,11 @@ import type {
   ServerConfig,
   IShutdownHandler,
   ICapabilityStore,
+  ISessionStateStore,
   IServerInfoPreloader,
+  IScriptLibrary,
+  ILuaServerFactory,
+  IExecutionHistory,
 } from "../types/interfaces.js";
 import type { MCPGatewayServer } from "../mcp/gateway-server.js";
 import type {
@@ -25,6 +29,7 @@ export interface ContainerBindingMap {
   ServerConfig: ServerConfig;
   Logger: ILogger;
   LuaRuntime: ILuaRuntime;
+  JavaScriptRuntime: ILuaRuntime;
   MCPClientManager: IMCPClientManager;
   MCPFormatterService: MCPFormatterService;
   ToolDiscoveryService: ToolDiscoveryService;
@@ -35,5 +40,11 @@ export interface ContainerBindingMap {
   Tool: ITool; // Multi-bound - use getAll() to retrieve all registered tools
   ToolRegistry: IToolRegistry;
   CapabilityStore: ICapabilityStore;
+  SessionStateStore: ISessionStateStore;
   ServerInfoPreloader: IServerInfoPreloader;
+  ScriptLibrary: IScriptLibrary;
+  ExecuteTool: ITool;
+  LuaServerFactory: ILuaServerFactory;
+  ExecutionHistory: IExecutionHistory;
+  InspectTool: ITool;
 }
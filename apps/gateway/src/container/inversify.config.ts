@@ -10,10 +10,14 @@ import type {
   ServerConfig,
   IShutdownHandler,
   ICapabilityStore,
+  ISessionStateStore,
   IServerInfoPreloader,
+  IScriptLibrary,
+  ILuaServerFactory,
+  IExecutionHistory,
 } from "../types/interfaces.js";
 // Import from workspace packages
-import { WasmoonRuntime } from "@my-cool-proxy/lua-runtime";
+import { QuickJSRuntime, WasmoonRuntime } from "@my-cool-proxy/lua-runtime";
 import { MCPClientManager } from "@my-cool-proxy/mcp-client";
 import {
   MCPFormatterService,
@@ -26,7 +30,11 @@ import { ConsoleLogger } from "../utils/logger.js";
 import { MCPGatewayServer } from "../mcp/gateway-server.js";
 import { ShutdownHandler } from "../handlers/shutdown-handler.js";
 import { CapabilityStore } from "../services/capability-store.js";
+import { SessionStateStore } from "../services/session-state-store.js";
 import { ServerInfoPreloader } from "../services/server-info-preloader.js";
+import { ScriptLibrary } from "../services/script-library.js";
+import { LuaServerFactory } from "../services/lua-server-factory.js";
+import { ExecutionHistory } from "../services/execution-history.js";
 import type { ITool } from "../tools/base-tool.js";
 import { ExecuteLuaTool } from "../tools/execute-lua-tool.js";
 import { ListServersTool } from "../tools/list-servers-tool.js";
@@ -34,6 +42,11 @@ import { ListServerToolsTool } from "../tools/list-server-tools-tool.js";
 import { ToolDetailsTool } from "../tools/tool-details-tool.js";
 import { InspectToolResponseTool } from "../tools/inspect-tool-response-tool.js";
 import { SummaryStatsTool } from "../tools/summary-stats-tool.js";
+import { SaveScriptTool } from "../tools/save-script-tool.js";
+import { ListScriptsTool } from "../tools/list-scripts-tool.js";
+import { RunScriptTool } from "../tools/run-script-tool.js";
+import { SavedScriptTool } from "../tools/saved-script-tool.js";
+import { ExecutionHistoryTool } from "../tools/execution-history-tool.js";
 import type { IToolRegistry } from "../tools/tool-registry.js";
 import { ToolRegistry } from "../tools/tool-registry.js";
 
@@ -53,7 +66,21 @@ export function createContainer(
     .bind<ILuaRuntime>(TYPES.LuaRuntime)
     .toDynamicValue(() => {
       const logger = container.get<ILogger>(TYPES.Logger);
-      return new WasmoonRuntime(logger);
+      return new WasmoonRuntime(logger, config.scriptLimits, {
+        outputValidation: config.outputValidation,
+        enginePoolSize: config.enginePoolSize,
+      });
+    })
+    .inSingletonScope();
+
+  // Bind JavaScript runtime (from package - use factory binding)
+  container
+    .bind<ILuaRuntime>(TYPES.JavaScriptRuntime)
+    .toDynamicValue(() => {
+      const logger = container.get<ILogger>(TYPES.Logger);
+      return new QuickJSRuntime(logger, config.scriptLimits, {
+        outputValidation: config.outputValidation,
+      });
     })
     .inSingletonScope();
 
@@ -114,13 +141,27 @@ export function createContainer(
     })
     .inSingletonScope();
 
-  // Bind all tools
-  container.bind<ITool>(TYPES.Tool).to(ExecuteLuaTool);
+  // Bind all tools. The execute and inspect-tool-response tools are also
+  // bound on their own, since the tools that run saved scripts and re-run
+  // history entries run them through these.
+  container
+    .bind<ITool>(TYPES.ExecuteTool)
+    .to(ExecuteLuaTool)
+    .inSingletonScope();
+  container
+    .bind<ITool>(TYPES.InspectTool)
+    .to(InspectToolResponseTool)
+    .inSingletonScope();
+  container.bind<ITool>(TYPES.Tool).toService(TYPES.ExecuteTool);
   container.bind<ITool>(TYPES.Tool).to(ListServersTool);
   container.bind<ITool>(TYPES.Tool).to(ListServerToolsTool);
   container.bind<ITool>(TYPES.Tool).to(ToolDetailsTool);
-  container.bind<ITool>(TYPES.Tool).to(InspectToolResponseTool);
+  container.bind<ITool>(TYPES.Tool).toService(TYPES.InspectTool);
   container.bind<ITool>(TYPES.Tool).to(SummaryStatsTool);
+  container.bind<ITool>(TYPES.Tool).to(SaveScriptTool);
+  container.bind<ITool>(TYPES.Tool).to(ListScriptsTool);
+  container.bind<ITool>(TYPES.Tool).to(RunScriptTool);
+  container.bind<ITool>(TYPES.Tool).to(ExecutionHistoryTool);
 
   // Bind tool registry and populate it with all registered tools
   container
@@ -133,6 +174,24 @@ export function createContainer(
         registry.register(tool);
       }
 
+      // Expose the saved scripts named in the config as top-level tools
+      const scriptLibrary = container.get<IScriptLibrary>(TYPES.ScriptLibrary);
+      const executeTool = container.get<ITool>(TYPES.ExecuteTool);
+      for (const name of config.scripts?.tools ?? []) {
+        const script = scriptLibrary.get(name);
+        if (!script) {
+          throw new Error(
+            `Script '${name}' in 'scripts.tools' is not in the script library`,
+          );
+        }
+        if (registry.get(name)) {
+          throw new Error(
+            `Script '${name}' in 'scripts.tools' has the same name as a gateway tool`,
+          );
+        }
+        registry.register(new SavedScriptTool(script, executeTool));
+      }
+
       return registry;
     })
     .inSingletonScope();
@@ -155,6 +214,30 @@ export function createContainer(
     .to(CapabilityStore)
     .inSingletonScope();
 
+  // Bind session state store backing the Lua state global
+  container
+    .bind<ISessionStateStore>(TYPES.SessionStateStore)
+    .to(SessionStateStore)
+    .inSingletonScope();
+
+  // Bind the per-session history of execute and inspect-tool-response calls
+  container
+    .bind<IExecutionHistory>(TYPES.ExecutionHistory)
+    .to(ExecutionHistory)
+    .inSingletonScope();
+
+  // Bind the on-disk library of saved scripts
+  container
+    .bind<IScriptLibrary>(TYPES.ScriptLibrary)
+    .to(ScriptLibrary)
+    .inSingletonScope();
+
+  // Bind factory of the virtual servers defined by `lua` mcpClients entries
+  container
+    .bind<ILuaServerFactory>(TYPES.LuaServerFactory)
+    .to(LuaServerFactory)
+    .inSingletonScope();
+
   // Bind server info preloader for gathering upstream server info at startup
   container
     .bind<IServerInfoPreloader>(TYPES.ServerInfoPreloader)
@@ -8,8 +8,11 @@ import type {
   DownstreamCapabilities,
   ICapabilityStore,
   ILogger,
+  ILuaServerFactory,
   IMCPClientManager,
   IServerInfoPreloader,
+  ISessionStateStore,
+  IExecutionHistory,
   IShutdownHandler,
   ServerConfig,
 } from "./types/interfaces.js";
@@ -118,12 +121,14 @@ function registerProxyHandlers(
  * @param sessionId - The session ID to initialize clients for
  * @param config - Server configuration with MCP client definitions
  * @param clientManager - The client manager to create clients with
+ * @param luaServerFactory - Creates the virtual servers of `lua` clients
  * @param clientCapabilities - Optional downstream client capabilities to forward to upstream servers
  */
 async function initializeClientsForSession(
   sessionId: string,
   config: ServerConfig,
   clientManager: IMCPClientManager,
+  luaServerFactory: ILuaServerFactory,
   clientCapabilities?: DownstreamCapabilities,
 ): Promise<InitializationResult> {
   const connectionPromises = Object.entries(config.mcpClients).map(
@@ -147,6 +152,13 @@ async function initializeClientsForSession(
           clientConfig.allowedTools,
           clientCapabilities,
         );
+      } else if (clientConfig.type === "lua") {
+        return clientManager.addInMemoryClient(
+          name,
+          luaServerFactory.create(name, clientConfig, sessionId),
+          sessionId,
+          clientCapabilities,
+        );
       } else {
         // Exhaustiveness check - TypeScript will error if a new type is added
         // but not handled above
@@ -220,9 +232,18 @@ async function startHttpMode(
   const capabilityStore = container.get<ICapabilityStore>(
     TYPES.CapabilityStore,
   );
+  const sessionStateStore = container.get<ISessionStateStore>(
+    TYPES.SessionStateStore,
+  );
+  const executionHistory = container.get<IExecutionHistory>(
+    TYPES.ExecutionHistory,
+  );
   const serverInfoPreloader = container.get<IServerInfoPreloader>(
     TYPES.ServerInfoPreloader,
   );
+  const luaServerFactory = container.get<ILuaServerFactory>(
+    TYPES.LuaServerFactory,
+  );
 
   // Preload upstream server info at startup to populate gateway instructions
   logger.info("Preloading upstream server info...");
@@ -267,6 +288,7 @@ async function startHttpMode(
           sessionId,
           config,
           clientManager,
+          luaServerFactory,
           capabilities,
         );
 
@@ -312,6 +334,9 @@ async function startHttpMode(
           try {
             await clientManager.closeSession(sessionId);
             capabilityStore.deleteCapabilities(sessionId);
+            sessionStateStore.deleteSession(sessionId);
+            executionHistory.deleteSession(sessionId);
+            resourceAggregation.deleteGatewayResources(sessionId);
           } catch (error) {
             // Log but don't re-throw - ensure callback doesn't fail the cleanup
             logger.error(
@@ -356,6 +381,9 @@ async function startStdioMode(
   const serverInfoPreloader = container.get<IServerInfoPreloader>(
     TYPES.ServerInfoPreloader,
   );
+  const luaServerFactory = container.get<ILuaServerFactory>(
+    TYPES.LuaServerFactory,
+  );
 
   // Fixed session ID for stdio (single session mode)
   const SESSION_ID = "default";
@@ -397,6 +425,7 @@ async function startStdioMode(
         SESSION_ID,
         config,
         clientManager,
+        luaServerFactory,
         capabilities,
       );
 
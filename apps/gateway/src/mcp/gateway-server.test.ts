@@ -1,11 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { MCPGatewayServer } from "./gateway-server.js";
-import { WasmoonRuntime } from "@my-cool-proxy/lua-runtime";
+import { QuickJSRuntime, WasmoonRuntime } from "@my-cool-proxy/lua-runtime";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import type {
   CallToolResult,
+  ClientCapabilities,
   Resource,
   ReadResourceResult,
   GetPromptResult,
@@ -16,6 +21,7 @@ import type {
   ILogger,
   ILuaRuntime,
   IMCPClientManager,
+  ServerConfig,
 } from "../types/interfaces.js";
 import * as z from "zod";
 import { MCPClientSession } from "@my-cool-proxy/mcp-client";
@@ -32,6 +38,9 @@ import { ToolDetailsTool } from "../tools/tool-details-tool.js";
 import { InspectToolResponseTool } from "../tools/inspect-tool-response-tool.js";
 import { ToolRegistry } from "../tools/tool-registry.js";
 import type { IToolRegistry } from "../tools/tool-registry.js";
+import { CapabilityStore } from "../services/capability-store.js";
+import { SessionStateStore } from "../services/session-state-store.js";
+import { ExecutionHistory } from "../services/execution-history.js";
 
 // Mock logger
 const createMockLogger = (): ILogger => ({
@@ -47,6 +56,7 @@ const createMockClientManager = (
 ): IMCPClientManager => ({
   addHttpClient: vi.fn(),
   addStdioClient: vi.fn(),
+  addInMemoryClient: vi.fn(),
   getClient: vi.fn(),
   getClientsBySession: vi.fn(() => clients),
   getFailedServers: vi.fn(() => new Map()),
@@ -62,6 +72,9 @@ const createToolRegistry = (
   luaRuntime: ILuaRuntime,
   clientManager: IMCPClientManager,
   logger: ILogger,
+  capabilityStore: CapabilityStore = new CapabilityStore(logger),
+  resourceAggregation = new ResourceAggregationService(clientManager, logger),
+  config: ServerConfig = { mcpClients: {} },
 ): IToolRegistry => {
   const toolDiscovery = new ToolDiscoveryService(
     clientManager,
@@ -70,12 +83,27 @@ const createToolRegistry = (
     new MCPFormatterService(),
   );
 
+  const executionHistory = new ExecutionHistory(logger, { mcpClients: {} });
   const registry = new ToolRegistry();
-  registry.register(new ExecuteLuaTool(luaRuntime, clientManager, logger));
+  registry.register(
+    new ExecuteLuaTool(
+      luaRuntime,
+      new QuickJSRuntime(logger),
+      clientManager,
+      logger,
+      capabilityStore,
+      new SessionStateStore(logger, { mcpClients: {} }),
+      resourceAggregation,
+      config,
+      executionHistory,
+    ),
+  );
   registry.register(new ListServersTool(toolDiscovery));
   registry.register(new ListServerToolsTool(toolDiscovery));
   registry.register(new ToolDetailsTool(toolDiscovery));
-  registry.register(new InspectToolResponseTool(toolDiscovery));
+  registry.register(
+    new InspectToolResponseTool(toolDiscovery, executionHistory),
+  );
 
   return registry;
 };
@@ -619,7 +647,7 @@ describe("MCPGatewayServer - execute tool", () => {
       ]);
     });
 
-    it("should pass through CallToolResult with isError flag", async () => {
+    it("should pass through CallToolResult with isError flag for raw calls", async () => {
       const { server, client } = await createTestServer("error-server", [
         {
           name: "failing-tool",
@@ -659,7 +687,7 @@ describe("MCPGatewayServer - execute tool", () => {
       await gatewayClient.connect(clientTransport);
 
       const script = `
-        result(error_server.failing_tool({}):await())
+        result(error_server.failing_tool({}, { raw = true }):await())
       `;
 
       // Execute the script through the gateway server
@@ -673,6 +701,63 @@ describe("MCPGatewayServer - execute tool", () => {
       ]);
       expect(result.isError).toBe(true);
     });
+
+    it("should return a list of content blocks with the image as an image block", async () => {
+      const { server, client } = await createTestServer("browser", [
+        {
+          name: "screenshot",
+          description: "Take a screenshot",
+          handler: async () => ({
+            content: [
+              { type: "text", text: "Captured 1 page" },
+              { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" },
+            ],
+          }),
+        },
+      ]);
+
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const servers = new Map([["browser", client]]);
+      clientManager = createMockClientManager(servers);
+      gatewayServer = new MCPGatewayServer(
+        createToolRegistry(luaRuntime, clientManager, logger),
+        clientManager,
+        logger,
+        new ResourceAggregationService(clientManager, logger),
+        new PromptAggregationService(clientManager, logger),
+      );
+      gateway = gatewayServer.getServer();
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await gateway.connect(serverTransport);
+
+      gatewayClient = new Client(
+        { name: "test-gateway-client", version: "1.0.0" },
+        { capabilities: {} },
+      );
+      await gatewayClient.connect(clientTransport);
+
+      const script = `
+        local shot = browser.screenshot({}):await()
+        result({ mcp.text("Home page"), shot.content[2] })
+      `;
+
+      const result = await gatewayClient.callTool({
+        name: "execute",
+        arguments: { script },
+      });
+
+      expect(result.content).toEqual([
+        { type: "text", text: "Home page" },
+        { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" },
+      ]);
+      expect(result.structuredContent).toBeUndefined();
+    });
   });
 
   describe("Object to structuredContent conversion", () => {
@@ -1119,6 +1204,104 @@ describe("MCPGatewayServer - execute tool", () => {
     });
   });
 
+  describe("Sampling and elicitation from scripts", () => {
+    // Connect a downstream client that declares the given capabilities
+    async function connectGateway(
+      capabilities: ClientCapabilities,
+      setupClient: (client: Client) => void,
+    ) {
+      const capabilityStore = new CapabilityStore(logger);
+      capabilityStore.setCapabilities("default", capabilities);
+      clientManager = createMockClientManager(new Map());
+      gatewayServer = new MCPGatewayServer(
+        createToolRegistry(luaRuntime, clientManager, logger, capabilityStore),
+        clientManager,
+        logger,
+        new ResourceAggregationService(clientManager, logger),
+        new PromptAggregationService(clientManager, logger),
+      );
+      gateway = gatewayServer.getServer();
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await gateway.connect(serverTransport);
+
+      gatewayClient = new Client(
+        { name: "test-gateway-client", version: "1.0.0" },
+        { capabilities },
+      );
+      setupClient(gatewayClient);
+      await gatewayClient.connect(clientTransport);
+    }
+
+    it("should send sample() requests to the downstream client", async () => {
+      await connectGateway({ sampling: {} }, (client) =>
+        client.setRequestHandler(
+          CreateMessageRequestSchema,
+          async (request) => {
+            const message = request.params.messages[0]!.content as TextContent;
+            return {
+              role: "assistant",
+              content: { type: "text", text: `Echo: ${message.text}` },
+              model: "test-model",
+            };
+          },
+        ),
+      );
+
+      const result = await gatewayClient.callTool({
+        name: "execute",
+        arguments: {
+          script: 'result(sample({ messages = "Hi" }):await().content.text)',
+        },
+      });
+
+      const content = (result.content as Array<ContentBlock>)[0];
+      assertTextContentBlock(content);
+      expect(content.text).toContain("Echo: Hi");
+    });
+
+    it("should send elicit() requests to the downstream client", async () => {
+      await connectGateway({ elicitation: {} }, (client) =>
+        client.setRequestHandler(ElicitRequestSchema, async () => ({
+          action: "accept",
+          content: { confirmed: true },
+        })),
+      );
+
+      const script = `
+        local answer = elicit({
+          message = "Proceed?",
+          schema = { properties = { confirmed = { type = "boolean" } } },
+        }):await()
+        result({ action = answer.action, confirmed = answer.content.confirmed })
+      `;
+      const result = await gatewayClient.callTool({
+        name: "execute",
+        arguments: { script },
+      });
+
+      expect(result.structuredContent).toEqual({
+        action: "accept",
+        confirmed: true,
+      });
+    });
+
+    it("should raise a clear error when the client lacks sampling", async () => {
+      await connectGateway({}, () => {});
+
+      const result = await gatewayClient.callTool({
+        name: "execute",
+        arguments: { script: 'sample({ messages = "Hi" })' },
+      });
+
+      expect(result.isError).toBe(true);
+      const content = (result.content as Array<ContentBlock>)[0];
+      assertTextContentBlock(content);
+      expect(content.text).toContain("sample() is not available");
+    });
+  });
+
   describe("Error handling in execute tool", () => {
     it("should handle Lua script errors gracefully", async () => {
       clientManager = createMockClientManager(new Map());
@@ -1703,6 +1886,84 @@ describe("MCPGatewayServer - Resource Aggregation", () => {
         text: '{"sales": 1000, "users": 50}',
       });
     });
+
+    it("should store results over the size limit as a gateway resource", async () => {
+      const clientManager = createMockClientManager(new Map());
+      const resourceAggregation = new ResourceAggregationService(
+        clientManager,
+        logger,
+      );
+      gatewayServer = new MCPGatewayServer(
+        createToolRegistry(
+          luaRuntime,
+          clientManager,
+          logger,
+          undefined,
+          resourceAggregation,
+          { mcpClients: {}, resultSize: { maxBytes: 500, previewChars: 40 } },
+        ),
+        clientManager,
+        logger,
+        resourceAggregation,
+        new PromptAggregationService(clientManager, logger),
+      );
+      gateway = gatewayServer.getServer();
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await gateway.connect(serverTransport);
+
+      gatewayClient = new Client(
+        { name: "test-gateway-client", version: "1.0.0" },
+        { capabilities: {} },
+      );
+      await gatewayClient.connect(clientTransport);
+
+      const toolResult = await gatewayClient.callTool({
+        name: "execute",
+        arguments: {
+          script: `
+            local rows = {}
+            for i = 1, 100 do rows[i] = { id = i, name = "row " .. i } end
+            result({ rows = rows })
+          `,
+        },
+      });
+
+      const content = toolResult.content as Array<ContentBlock>;
+      expect(toolResult.structuredContent).toBeUndefined();
+      expect(content[0]).toMatchObject({ type: "text" });
+      expect((content[0] as { text: string }).text).toContain(
+        "more than the 500 byte limit",
+      );
+      const link = content[1] as { type: string; uri: string };
+      expect(link).toMatchObject({
+        type: "resource_link",
+        mimeType: "application/json",
+      });
+      expect(link.uri).toMatch(/^mcp:\/\/gateway\/results\//);
+
+      const readResult = await gatewayClient.readResource({ uri: link.uri });
+      const stored = JSON.parse(
+        (readResult.contents[0] as { text: string }).text,
+      );
+      expect(stored.rows).toHaveLength(100);
+
+      // A later script can page through the stored result
+      const page = await gatewayClient.callTool({
+        name: "execute",
+        arguments: {
+          script: `
+            local doc = read_resource(input.uri):await()
+            result({ row = json.decode(doc.contents[1].text).rows[51] })
+          `,
+          input: { uri: link.uri },
+        },
+      });
+      expect(page.structuredContent).toEqual({
+        row: { id: 51, name: "row 51" },
+      });
+    });
   });
 
   describe("URI namespacing", () => {
@@ -16,7 +16,9 @@ import type {
   IMCPClientManager,
   ILogger,
   DownstreamCapabilities,
+  IDownstreamRequester,
 } from "../types/interfaces.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { $inject } from "../container/decorators.js";
 import { TYPES } from "../types/index.js";
 import {
@@ -24,6 +26,7 @@ import {
   PromptAggregationService,
 } from "@my-cool-proxy/mcp-aggregation";
 import type { IToolRegistry } from "../tools/tool-registry.js";
+import type { ToolExecutionContext } from "../tools/base-tool.js";
 
 /**
  * Gateway server that aggregates multiple MCP servers and provides namespaced access.
@@ -64,7 +67,7 @@ export type OnDownstreamInitializedCallback = (
 ) => void | Promise<void>;
 
 @injectable()
-export class MCPGatewayServer {
+export class MCPGatewayServer implements IDownstreamRequester {
   private server: McpServer;
   private serverId = "my-cool-proxy";
   private onDownstreamInitialized?: OnDownstreamInitializedCallback;
@@ -145,10 +148,10 @@ export class MCPGatewayServer {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           inputSchema: tool.schema as any,
         },
-        async (
-          args: Record<string, unknown>,
-          context: { sessionId?: string },
-        ) => tool.execute(args, context),
+        // Tools are shared across sessions; this server is the session's
+        // route to its downstream client
+        async (args: Record<string, unknown>, context: ToolExecutionContext) =>
+          tool.execute(args, { ...context, downstream: this }),
       );
 
       this.logger.info(`Registered tool: ${tool.name}`);
@@ -253,17 +256,19 @@ export class MCPGatewayServer {
    * This is called when an upstream MCP server sends a sampling/createMessage request.
    *
    * @param params The sampling request parameters from the upstream server
+   * @param options Request options, e.g. the related request ID and abort signal
    * @returns The result from the downstream client
    */
   async forwardSamplingRequest(
     params: CreateMessageRequest["params"],
+    options?: RequestOptions,
   ): Promise<CreateMessageResult> {
     this.logger.debug(
       `Forwarding sampling request to downstream: ${params.messages.length} message(s), maxTokens=${params.maxTokens}`,
     );
 
     try {
-      const result = await this.server.server.createMessage(params);
+      const result = await this.server.server.createMessage(params, options);
       this.logger.debug(`Sampling request completed successfully`);
       return result;
     } catch (error) {
@@ -280,10 +285,12 @@ export class MCPGatewayServer {
    * This is called when an upstream MCP server sends an elicitation/create request.
    *
    * @param params The elicitation request parameters from the upstream server
+   * @param options Request options, e.g. the related request ID and abort signal
    * @returns The result from the downstream client
    */
   async forwardElicitationRequest(
     params: ElicitRequest["params"],
+    options?: RequestOptions,
   ): Promise<ElicitResult> {
     const mode = "mode" in params ? params.mode : "form";
     this.logger.debug(
@@ -291,7 +298,7 @@ export class MCPGatewayServer {
     );
 
     try {
-      const result = await this.server.server.elicitInput(params);
+      const result = await this.server.server.elicitInput(params, options);
       this.logger.debug(
         `Elicitation request completed: action=${result.action}`,
       );
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from "vitest";
+import { ExecutionHistory } from "./execution-history.js";
+import type {
+  ExecutionHistoryConfig,
+  ExecutionHistoryEntry,
+  ILogger,
+} from "../types/interfaces.js";
+
+const logger: ILogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+const createHistory = (executionHistory?: ExecutionHistoryConfig) =>
+  new ExecutionHistory(logger, { mcpClients: {}, executionHistory });
+
+const entry = (script: string): Omit<ExecutionHistoryEntry, "id"> => ({
+  tool: "execute",
+  args: { script },
+  startedAt: "2026-01-01T00:00:00.000Z",
+  durationMs: 5,
+  toolCalls: [],
+  resultBytes: 10,
+});
+
+describe("ExecutionHistory", () => {
+  it("should number entries per session", () => {
+    const history = createHistory();
+
+    expect(history.record("a", entry("one")).id).toBe(1);
+    expect(history.record("a", entry("two")).id).toBe(2);
+    expect(history.record("b", entry("three")).id).toBe(1);
+
+    expect(history.list("a").map((e) => e.args.script)).toEqual(["one", "two"]);
+    expect(history.get("a", 2)?.args.script).toBe("two");
+    expect(history.get("b", 2)).toBeUndefined();
+  });
+
+  it("should drop the oldest entries beyond the limit without reusing IDs", () => {
+    const history = createHistory({ maxEntriesPerSession: 2 });
+
+    history.record("a", entry("one"));
+    history.record("a", entry("two"));
+    history.record("a", entry("three"));
+
+    expect(history.list("a").map((e) => e.id)).toEqual([2, 3]);
+    expect(history.get("a", 1)).toBeUndefined();
+  });
+
+  it("should delete a session's history", () => {
+    const history = createHistory();
+    history.record("a", entry("one"));
+
+    history.deleteSession("a");
+
+    expect(history.list("a")).toEqual([]);
+    expect(history.record("a", entry("two")).id).toBe(1);
+  });
+});
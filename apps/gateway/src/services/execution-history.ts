@@ -0,0 +1,71 @@
+import { injectable } from "inversify";
+import type {
+  ExecutionHistoryEntry,
+  IExecutionHistory,
+  ILogger,
+  ServerConfig,
+} from "../types/interfaces.js";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+
+/**
+ * Default number of entries kept per session
+ */
+export const DEFAULT_MAX_HISTORY_ENTRIES_PER_SESSION = 100;
+
+interface SessionHistory {
+  nextId: number;
+  entries: ExecutionHistoryEntry[];
+}
+
+/**
+ * In-memory history of the execute and inspect-tool-response calls of each
+ * session. IDs keep increasing when old entries are dropped, so an ID never
+ * refers to a different entry later in the session.
+ */
+@injectable()
+export class ExecutionHistory implements IExecutionHistory {
+  private sessions = new Map<string, SessionHistory>();
+  private maxEntries: number;
+
+  constructor(
+    @$inject(TYPES.Logger) private logger: ILogger,
+    @$inject(TYPES.ServerConfig) config: ServerConfig,
+  ) {
+    this.maxEntries =
+      config.executionHistory?.maxEntriesPerSession ??
+      DEFAULT_MAX_HISTORY_ENTRIES_PER_SESSION;
+  }
+
+  record(
+    sessionId: string,
+    entry: Omit<ExecutionHistoryEntry, "id">,
+  ): ExecutionHistoryEntry {
+    const history = this.sessions.get(sessionId) ?? { nextId: 1, entries: [] };
+    const recorded = { id: history.nextId++, ...entry };
+
+    history.entries.push(recorded);
+    if (history.entries.length > this.maxEntries) {
+      history.entries.splice(0, history.entries.length - this.maxEntries);
+    }
+    this.sessions.set(sessionId, history);
+
+    return recorded;
+  }
+
+  list(sessionId: string): ExecutionHistoryEntry[] {
+    return [...(this.sessions.get(sessionId)?.entries ?? [])];
+  }
+
+  get(sessionId: string, id: number): ExecutionHistoryEntry | undefined {
+    return this.sessions
+      .get(sessionId)
+      ?.entries.find((entry) => entry.id === id);
+  }
+
+  deleteSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.logger.debug(`Removed execution history for session ${sessionId}`);
+    }
+  }
+}
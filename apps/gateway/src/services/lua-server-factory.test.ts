@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CreateMessageRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { WasmoonRuntime } from "@my-cool-proxy/lua-runtime";
+import { MCPClientSession } from "@my-cool-proxy/mcp-client";
+import {
+  LUA_TOOL_CHAIN_META_KEY,
+  LuaServerFactory,
+} from "./lua-server-factory.js";
+import type { ITool } from "../tools/base-tool.js";
+import type { ILogger, MCPClientConfigLua } from "../types/interfaces.js";
+
+const logger: ILogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+const config: MCPClientConfigLua = {
+  type: "lua",
+  description: "Curated GitHub workflows",
+  tools: [
+    {
+      name: "open_issues",
+      description: "Lists the open issues of a repository",
+      inputSchema: {
+        type: "object",
+        properties: { repo: { type: "string", description: "owner/name" } },
+        required: ["repo"],
+      },
+      script: "result(github.list_issues({ repo = input.repo }):await())",
+    },
+  ],
+};
+
+async function connect(server: McpServer, client: Client): Promise<void> {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+}
+
+describe("LuaServerFactory", () => {
+  let executeTool: ITool & { execute: Mock<ITool["execute"]> };
+  let client: Client;
+
+  beforeEach(async () => {
+    executeTool = {
+      name: "execute",
+      description: "",
+      schema: {},
+      execute: vi.fn<ITool["execute"]>(),
+    };
+    client = new Client(
+      { name: "test", version: "1.0.0" },
+      { capabilities: { sampling: {} } },
+    );
+    const server = new LuaServerFactory(executeTool).create(
+      "curated",
+      config,
+      "session-1",
+    );
+    await connect(server, client);
+  });
+
+  it("should describe the server and list its tools", async () => {
+    expect(client.getServerVersion()).toEqual({
+      name: "curated",
+      version: "1.0.0",
+      description: "Curated GitHub workflows",
+    });
+
+    const { tools } = await client.listTools();
+    expect(tools).toHaveLength(1);
+    expect(tools[0]).toMatchObject({
+      name: "open_issues",
+      description: "Lists the open issues of a repository",
+      inputSchema: {
+        type: "object",
+        properties: { repo: { type: "string", description: "owner/name" } },
+        required: ["repo"],
+      },
+    });
+  });
+
+  it("should run the tool's script with its arguments as input", async () => {
+    executeTool.execute.mockResolvedValue({
+      content: [{ type: "text", text: "3 open issues" }],
+    });
+
+    const result = await client.callTool({
+      name: "open_issues",
+      arguments: { repo: "octo/app" },
+    });
+
+    expect(result.content).toEqual([{ type: "text", text: "3 open issues" }]);
+    expect(executeTool.execute).toHaveBeenCalledWith(
+      {
+        script: "result(github.list_issues({ repo = input.repo }):await())",
+        input: { repo: "octo/app" },
+      },
+      expect.objectContaining({ sessionId: "session-1" }),
+    );
+  });
+
+  it("should pass the chain of lua tools on to the script's tool calls", async () => {
+    executeTool.execute.mockResolvedValue({ content: [] });
+
+    await client.callTool({
+      name: "open_issues",
+      arguments: { repo: "octo/app" },
+      _meta: { [LUA_TOOL_CHAIN_META_KEY]: ["reports.weekly"] },
+    });
+
+    expect(executeTool.execute).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        luaToolChain: ["reports.weekly", "curated.open_issues"],
+      }),
+    );
+  });
+
+  it("should reject a call from a script the tool itself led to", async () => {
+    const result = await client.callTool({
+      name: "open_issues",
+      arguments: { repo: "octo/app" },
+      _meta: {
+        [LUA_TOOL_CHAIN_META_KEY]: ["curated.open_issues", "reports.weekly"],
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: "Lua tool 'curated.open_issues' can't call itself: curated.open_issues -> reports.weekly -> curated.open_issues",
+      },
+    ]);
+    expect(executeTool.execute).not.toHaveBeenCalled();
+  });
+
+  it("should reject a script that replaces the chain with its own meta", async () => {
+    const loopClient = new Client({ name: "test", version: "1.0.0" });
+    const server = new LuaServerFactory(executeTool).create(
+      "curated",
+      {
+        type: "lua",
+        tools: [
+          {
+            name: "loop",
+            description: "Calls itself",
+            script: `result(curated.loop({}, {
+              raw = true,
+              meta = { ["${LUA_TOOL_CHAIN_META_KEY}"] = {} },
+            }):await())`,
+          },
+        ],
+      },
+      "session-1",
+    );
+    await connect(server, loopClient);
+    const session = new MCPClientSession(
+      loopClient,
+      "curated",
+      undefined,
+      logger,
+    );
+    // Run the script once, like the execute tool; a second run means the
+    // nested call got through
+    executeTool.execute.mockImplementationOnce(async (args, context) => {
+      const value = await new WasmoonRuntime(logger).executeScript(
+        args.script as string,
+        new Map([["curated", session]]),
+        { toolCallMeta: { [LUA_TOOL_CHAIN_META_KEY]: context.luaToolChain } },
+      );
+      return { content: [{ type: "text", text: JSON.stringify(value) }] };
+    });
+
+    const result = await loopClient.callTool({ name: "loop", arguments: {} });
+
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: expect.stringContaining(
+          "Lua tool 'curated.loop' can't call itself: curated.loop -> curated.loop",
+        ),
+      },
+    ]);
+    expect(executeTool.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject arguments that don't match the input schema", async () => {
+    const result = await client.callTool({
+      name: "open_issues",
+      arguments: { repo: 42 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(executeTool.execute).not.toHaveBeenCalled();
+  });
+
+  it("should send sampling requests to the server's client", async () => {
+    client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+      role: "assistant",
+      content: { type: "text", text: "A summary" },
+      model: "test-model",
+    }));
+    executeTool.execute.mockImplementation(async (_args, context) => {
+      const reply = await context.downstream!.forwardSamplingRequest({
+        messages: [{ role: "user", content: { type: "text", text: "Hi" } }],
+        maxTokens: 10,
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(reply.content) }],
+      };
+    });
+
+    const result = await client.callTool({
+      name: "open_issues",
+      arguments: { repo: "octo/app" },
+    });
+
+    expect(result.content).toEqual([
+      { type: "text", text: '{"type":"text","text":"A summary"}' },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { injectable } from "inversify";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CreateMessageResultSchema,
+  ElicitResultSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  ILuaServerFactory,
+  MCPClientConfigLua,
+} from "../types/interfaces.js";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+import type { ITool } from "../tools/base-tool.js";
+import { createInputSchema } from "../utils/input-schema.js";
+
+/**
+ * `_meta` key under which an execute run by a lua tool passes its chain of
+ * lua tools (ToolExecutionContext.luaToolChain) to the tools it calls
+ */
+export const LUA_TOOL_CHAIN_META_KEY = "my-cool-proxy/lua-tool-chain";
+
+/**
+ * Creates the servers behind `lua` entries of mcpClients. Each one is a real
+ * MCP server running in the gateway process, connected to the client manager
+ * like any upstream, so discovery, execute and inspect-tool-response treat it
+ * the same way.
+ *
+ * A tool call runs the tool's script through the execute tool with the
+ * session's servers and the tool's arguments as `input`. sample() and elicit()
+ * are sent to the virtual server's client, which forwards them to the
+ * downstream client like requests from any upstream server.
+ *
+ * Each call carries the chain of lua tools that led to it in its `_meta`, so
+ * a tool that would end up calling itself, directly or through other lua
+ * servers, is rejected instead of recursing until the limits stop it.
+ */
+@injectable()
+export class LuaServerFactory implements ILuaServerFactory {
+  constructor(@$inject(TYPES.ExecuteTool) private executeTool: ITool) {}
+
+  create(
+    name: string,
+    config: MCPClientConfigLua,
+    sessionId: string,
+  ): McpServer {
+    const server = new McpServer({
+      name,
+      version: "1.0.0",
+      ...(config.description && { description: config.description }),
+    });
+
+    for (const tool of config.tools) {
+      const qualifiedName = `${name}.${tool.name}`;
+      server.registerTool(
+        tool.name,
+        {
+          description: tool.description,
+          inputSchema: createInputSchema(tool.inputSchema).shape,
+        },
+        async (args, extra) => {
+          const chain = readLuaToolChain(extra._meta);
+          if (chain.includes(qualifiedName)) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Lua tool '${qualifiedName}' can't call itself: ${[...chain, qualifiedName].join(" -> ")}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          return this.executeTool.execute(
+            { script: tool.script, input: args },
+            {
+              sessionId,
+              luaToolChain: [...chain, qualifiedName],
+              signal: extra.signal,
+              _meta: extra._meta,
+              sendNotification: extra.sendNotification,
+              requestId: extra.requestId,
+              downstream: {
+                forwardSamplingRequest: (params, options) =>
+                  extra.sendRequest(
+                    { method: "sampling/createMessage", params },
+                    CreateMessageResultSchema,
+                    options,
+                  ),
+                forwardElicitationRequest: (params, options) =>
+                  extra.sendRequest(
+                    { method: "elicitation/create", params },
+                    ElicitResultSchema,
+                    options,
+                  ),
+              },
+            },
+          );
+        },
+      );
+    }
+
+    return server;
+  }
+}
+
+function readLuaToolChain(meta: Record<string, unknown> | undefined): string[] {
+  const chain = meta?.[LUA_TOOL_CHAIN_META_KEY];
+  return Array.isArray(chain)
+    ? chain.filter((item): item is string => typeof item === "string")
+    : [];
+}
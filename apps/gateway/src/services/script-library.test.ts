@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import { tmpdir } from "os";
+import { ScriptLibrary } from "./script-library.js";
+import type { ILogger } from "../types/interfaces.js";
+
+const logger: ILogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+describe("ScriptLibrary", () => {
+  let directory: string;
+  let library: ScriptLibrary;
+
+  beforeEach(() => {
+    directory = mkdtempSync(resolve(tmpdir(), "script-library-test-"));
+    library = new ScriptLibrary(logger, {
+      mcpClients: {},
+      scripts: { directory, tools: ["weekly-report"] },
+    });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should save scripts and read them back", () => {
+    const saved = library.save({
+      name: "open-issues",
+      description: "Lists open issues",
+      language: "lua",
+      inputSchema: {
+        type: "object",
+        properties: { repo: { type: "string" } },
+        required: ["repo"],
+      },
+      script: "result(input.repo)",
+    });
+
+    expect(saved.updatedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(library.get("open-issues")).toEqual(saved);
+    expect(library.list()).toEqual([saved]);
+  });
+
+  it("should only replace a script saved under the same name when asked to", () => {
+    const script = {
+      name: "count",
+      description: "Counts",
+      language: "lua" as const,
+      script: "result(1)",
+      savedBy: "session-a",
+    };
+    library.save(script);
+
+    expect(() =>
+      library.save({ ...script, script: "result(2)", savedBy: "session-b" }),
+    ).toThrow(
+      /Script 'count' already exists \(saved .* by session session-a\); pass overwrite: true/,
+    );
+    expect(library.get("count")?.script).toBe("result(1)");
+
+    library.save(
+      { ...script, script: "result(2)", savedBy: "session-b" },
+      { overwrite: true },
+    );
+
+    expect(library.list()).toHaveLength(1);
+    expect(library.get("count")).toMatchObject({
+      script: "result(2)",
+      savedBy: "session-b",
+    });
+  });
+
+  it("should list scripts sorted by name", () => {
+    for (const name of ["b", "a", "c"]) {
+      library.save({ name, description: name, language: "lua", script: "" });
+    }
+
+    expect(library.list().map((script) => script.name)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("should return nothing when the directory doesn't exist yet", () => {
+    const empty = new ScriptLibrary(logger, {
+      mcpClients: {},
+      scripts: { directory: resolve(directory, "missing") },
+    });
+
+    expect(empty.list()).toEqual([]);
+    expect(empty.get("anything")).toBeUndefined();
+  });
+
+  it.each(["../escape", "with space", "", "-leading", "a".repeat(65)])(
+    "should reject the script name %j",
+    (name) => {
+      expect(() =>
+        library.save({ name, description: "", language: "lua", script: "" }),
+      ).toThrow(/Invalid script name/);
+      expect(library.get(name)).toBeUndefined();
+    },
+  );
+
+  it("should not replace scripts exposed as tools by the config", () => {
+    expect(() =>
+      library.save({
+        name: "weekly-report",
+        description: "",
+        language: "lua",
+        script: "",
+      }),
+    ).toThrow(/exposed as a tool by the gateway configuration/);
+  });
+
+  it("should reject input schemas that are not object schemas", () => {
+    expect(() =>
+      library.save({
+        name: "bad",
+        description: "",
+        language: "lua",
+        inputSchema: { type: "string" },
+        script: "",
+      }),
+    ).toThrow(/inputSchema must be a JSON Schema with type 'object'/);
+    expect(library.list()).toEqual([]);
+  });
+
+  it("should skip invalid files when listing", () => {
+    library.save({ name: "ok", description: "", language: "lua", script: "" });
+    writeFileSync(resolve(directory, "broken.json"), "{ not json");
+
+    expect(library.list().map((script) => script.name)).toEqual(["ok"]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Ignoring invalid saved script"),
+    );
+  });
+});
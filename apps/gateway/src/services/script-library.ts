@@ -0,0 +1,130 @@
+import { injectable } from "inversify";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { resolve } from "path";
+import type {
+  ILogger,
+  IScriptLibrary,
+  SavedScript,
+  ServerConfig,
+} from "../types/interfaces.js";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+import { getPlatformDataDir } from "../utils/config-paths.js";
+import { createInputSchema } from "../utils/input-schema.js";
+
+/**
+ * Names a saved script may have. They are used as file names and as MCP tool
+ * names, so they are limited to characters that are valid in both.
+ */
+export const SCRIPT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * Library of saved scripts, stored as one JSON file per script. Scripts
+ * listed in the `scripts.tools` config are exposed as tools and can't be
+ * replaced through the library.
+ */
+@injectable()
+export class ScriptLibrary implements IScriptLibrary {
+  private directory: string;
+  private protectedNames: Set<string>;
+
+  constructor(
+    @$inject(TYPES.Logger) private logger: ILogger,
+    @$inject(TYPES.ServerConfig) config: ServerConfig,
+  ) {
+    this.directory =
+      config.scripts?.directory ?? resolve(getPlatformDataDir(), "scripts");
+    this.protectedNames = new Set(config.scripts?.tools ?? []);
+  }
+
+  save(
+    script: Omit<SavedScript, "updatedAt">,
+    { overwrite = false }: { overwrite?: boolean } = {},
+  ): SavedScript {
+    if (!SCRIPT_NAME_PATTERN.test(script.name)) {
+      throw new Error(
+        `Invalid script name '${script.name}': use up to 64 letters, digits, '-' and '_', starting with a letter or digit`,
+      );
+    }
+    if (this.protectedNames.has(script.name)) {
+      throw new Error(
+        `Script '${script.name}' is exposed as a tool by the gateway configuration and can't be replaced`,
+      );
+    }
+    createInputSchema(script.inputSchema);
+
+    const path = this.pathOf(script.name);
+    const existing = overwrite ? undefined : this.get(script.name);
+    if (existing) {
+      throw new Error(
+        `Script '${script.name}' already exists (saved ${existing.updatedAt}${existing.savedBy ? ` by session ${existing.savedBy}` : ""}); ` +
+          "pass overwrite: true to replace it",
+      );
+    }
+
+    const saved: SavedScript = {
+      name: script.name,
+      description: script.description,
+      language: script.language,
+      ...(script.inputSchema && { inputSchema: script.inputSchema }),
+      script: script.script,
+      updatedAt: new Date().toISOString(),
+      ...(script.savedBy && { savedBy: script.savedBy }),
+    };
+
+    // Write to a temporary file first so that a failed write never leaves a
+    // truncated script behind
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(`${path}.tmp`, JSON.stringify(saved, null, 2) + "\n");
+    renameSync(`${path}.tmp`, path);
+    this.logger.info(`Saved script '${script.name}' to ${path}`);
+
+    return saved;
+  }
+
+  get(name: string): SavedScript | undefined {
+    if (!SCRIPT_NAME_PATTERN.test(name)) {
+      return undefined;
+    }
+    const path = this.pathOf(name);
+    return existsSync(path) ? this.read(path) : undefined;
+  }
+
+  list(): SavedScript[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+    return readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => this.read(resolve(this.directory, file)))
+      .filter((script): script is SavedScript => script !== undefined);
+  }
+
+  private pathOf(name: string): string {
+    return resolve(this.directory, `${name}.json`);
+  }
+
+  private read(path: string): SavedScript | undefined {
+    try {
+      const script = JSON.parse(readFileSync(path, "utf-8")) as SavedScript;
+      if (
+        typeof script.name !== "string" ||
+        typeof script.script !== "string"
+      ) {
+        throw new Error("missing name or script");
+      }
+      return script;
+    } catch (error) {
+      this.logger.warn(`Ignoring invalid saved script ${path}: ${error}`);
+      return undefined;
+    }
+  }
+}
@@ -24,6 +24,15 @@ export class ServerInfoPreloader implements IServerInfoPreloader {
 
     const probePromises = Object.entries(config.mcpClients).map(
       async ([name, clientConfig]): Promise<PreloadedServerInfo> => {
+        // Virtual servers run in the gateway, so there is nothing to probe
+        if (clientConfig.type === "lua") {
+          return {
+            name,
+            serverName: name,
+            description: clientConfig.description,
+          };
+        }
+
         try {
           // Create a minimal client just for probing
           const sdkClient = new Client(
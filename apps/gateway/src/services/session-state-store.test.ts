@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { SessionStateStore } from "./session-state-store.js";
+import type { ILogger, SessionStateConfig } from "../types/interfaces.js";
+
+const logger: ILogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+const createStore = (sessionState?: SessionStateConfig) =>
+  new SessionStateStore(logger, { mcpClients: {}, sessionState });
+
+describe("SessionStateStore", () => {
+  it("should store copies of values per session", () => {
+    const store = createStore();
+    const value = { page: 2, seen: ["a"] };
+
+    store.forSession("a").set("cursor", value);
+    value.seen.push("b");
+
+    expect(store.forSession("a").get("cursor")).toEqual({
+      page: 2,
+      seen: ["a"],
+    });
+    expect(store.forSession("a").keys()).toEqual(["cursor"]);
+    expect(store.forSession("b").get("cursor")).toBeUndefined();
+  });
+
+  it("should delete keys and whole sessions", () => {
+    const store = createStore();
+    const state = store.forSession("a");
+    state.set("x", 1);
+    state.set("y", 2);
+
+    expect(state.delete("x")).toBe(true);
+    expect(state.delete("x")).toBe(false);
+
+    store.deleteSession("a");
+    expect(store.forSession("a").keys()).toEqual([]);
+  });
+
+  it("should reject values that are not JSON-serializable", () => {
+    const state = createStore().forSession("a");
+
+    expect(() => state.set("fn", () => 1)).toThrow(
+      "expects a JSON-serializable value",
+    );
+  });
+
+  it("should enforce the key quota", () => {
+    const state = createStore({ maxKeysPerSession: 2 }).forSession("a");
+    state.set("x", 1);
+    state.set("y", 2);
+
+    // Overwriting an existing key does not count as a new key
+    state.set("y", 3);
+    expect(() => state.set("z", 4)).toThrow("at most 2 keys can be stored");
+  });
+
+  it("should enforce the byte quota without changing stored state", () => {
+    const state = createStore({ maxBytesPerSession: 20 }).forSession("a");
+    state.set("k", "0123456789");
+
+    expect(() => state.set("big", "0123456789")).toThrow(
+      "Session state quota exceeded",
+    );
+    expect(state.keys()).toEqual(["k"]);
+
+    // Replacing a value only counts the new size
+    state.set("k", "01234567890123");
+    expect(state.get("k")).toBe("01234567890123");
+  });
+});
@@ -0,0 +1,106 @@
+import { injectable } from "inversify";
+import type {
+  ILogger,
+  IScriptState,
+  ISessionStateStore,
+  ServerConfig,
+} from "../types/interfaces.js";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+
+/**
+ * Default total size of a session's keys and values, in bytes
+ */
+export const DEFAULT_MAX_STATE_BYTES_PER_SESSION = 1024 * 1024;
+
+/**
+ * Default number of keys a session may store
+ */
+export const DEFAULT_MAX_STATE_KEYS_PER_SESSION = 1000;
+
+/**
+ * In-memory store for state that Lua scripts keep between execute calls.
+ * Values are stored JSON-encoded, so scripts always get a copy back and the
+ * quota can be measured in bytes.
+ */
+@injectable()
+export class SessionStateStore implements ISessionStateStore {
+  private sessions = new Map<string, Map<string, string>>();
+  private maxBytes: number;
+  private maxKeys: number;
+
+  constructor(
+    @$inject(TYPES.Logger) private logger: ILogger,
+    @$inject(TYPES.ServerConfig) config: ServerConfig,
+  ) {
+    this.maxBytes =
+      config.sessionState?.maxBytesPerSession ??
+      DEFAULT_MAX_STATE_BYTES_PER_SESSION;
+    this.maxKeys =
+      config.sessionState?.maxKeysPerSession ??
+      DEFAULT_MAX_STATE_KEYS_PER_SESSION;
+  }
+
+  forSession(sessionId: string): IScriptState {
+    return {
+      get: (key) => {
+        const encoded = this.sessions.get(sessionId)?.get(key);
+        return encoded === undefined ? undefined : JSON.parse(encoded);
+      },
+      set: (key, value) => this.set(sessionId, key, value),
+      delete: (key) => this.sessions.get(sessionId)?.delete(key) ?? false,
+      keys: () => Array.from(this.sessions.get(sessionId)?.keys() ?? []),
+    };
+  }
+
+  deleteSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.logger.debug(`Removed script state for session ${sessionId}`);
+    }
+  }
+
+  private set(sessionId: string, key: string, value: unknown): void {
+    const encoded = encode(key, value);
+    const values = this.sessions.get(sessionId) ?? new Map<string, string>();
+
+    if (!values.has(key) && values.size >= this.maxKeys) {
+      throw new Error(
+        `Session state quota exceeded: at most ${this.maxKeys} keys can be stored`,
+      );
+    }
+
+    let bytes = entryBytes(key, encoded);
+    for (const [existingKey, existing] of values) {
+      if (existingKey !== key) {
+        bytes += entryBytes(existingKey, existing);
+      }
+    }
+    if (bytes > this.maxBytes) {
+      throw new Error(
+        `Session state quota exceeded: storing '${key}' would use ${bytes} of ${this.maxBytes} bytes`,
+      );
+    }
+
+    values.set(key, encoded);
+    this.sessions.set(sessionId, values);
+  }
+}
+
+function encode(key: string, value: unknown): string {
+  let encoded: string | undefined;
+  try {
+    encoded = JSON.stringify(value);
+  } catch {
+    encoded = undefined;
+  }
+  if (encoded === undefined) {
+    throw new Error(
+      `state.set('${key}') expects a JSON-serializable value (strings, numbers, booleans and tables)`,
+    );
+  }
+  return encoded;
+}
+
+function entryBytes(key: string, encoded: string): number {
+  return Buffer.byteLength(key) + Buffer.byteLength(encoded);
+}
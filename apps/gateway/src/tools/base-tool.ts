@@ -1,10 +1,29 @@
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { IDownstreamRequester } from "../types/interfaces.js";
 
 /**
  * Context provided to tool execution
  */
 export interface ToolExecutionContext {
   sessionId?: string;
+  /** Aborted when the downstream client cancels the request */
+  signal?: AbortSignal;
+  /** Request metadata, including the downstream progressToken if any */
+  _meta?: { progressToken?: string | number };
+  /** Sends a notification related to the current request */
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+  /** JSON-RPC ID of the current request */
+  requestId?: string | number;
+  /** Sends sampling/elicitation requests to this session's downstream client */
+  downstream?: IDownstreamRequester;
+  /**
+   * Tools of lua servers whose scripts led to this call, outermost first,
+   * e.g. `["reports.weekly"]`
+   */
+  luaToolChain?: string[];
 }
 
 /**
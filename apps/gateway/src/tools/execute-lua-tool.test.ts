@@ -1,25 +1,37 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import { TestBed } from "@suites/unit";
 import { ExecuteLuaTool } from "./execute-lua-tool.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { TYPES } from "../types/index.js";
+import type {
+  ScriptExecutionOptions,
+  ServerConfig,
+} from "../types/interfaces.js";
 
 describe("ExecuteLuaTool", () => {
   let tool: ExecuteLuaTool;
   let luaRuntime: ReturnType<typeof unitRef.get>;
   let clientManager: ReturnType<typeof unitRef.get>;
   let logger: ReturnType<typeof unitRef.get>;
+  let capabilityStore: ReturnType<typeof unitRef.get>;
+  let sessionStateStore: ReturnType<typeof unitRef.get>;
+  let resourceAggregation: ReturnType<typeof unitRef.get>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   let unitRef: any;
 
   beforeEach(async () => {
-    const { unit, unitRef: ref } =
-      await TestBed.solitary(ExecuteLuaTool).compile();
+    const { unit, unitRef: ref } = await TestBed.solitary(ExecuteLuaTool)
+      .mock<ServerConfig>(TYPES.ServerConfig)
+      .final({ mcpClients: {}, resultSize: { maxBytes: 1000 } })
+      .compile();
     tool = unit;
     unitRef = ref;
     luaRuntime = unitRef.get(TYPES.LuaRuntime);
     clientManager = unitRef.get(TYPES.MCPClientManager);
     logger = unitRef.get(TYPES.Logger);
+    capabilityStore = unitRef.get(TYPES.CapabilityStore);
+    sessionStateStore = unitRef.get(TYPES.SessionStateStore);
+    resourceAggregation = unitRef.get(TYPES.ResourceAggregationService);
   });
 
   describe("tool metadata", () => {
@@ -42,6 +54,11 @@ describe("ExecuteLuaTool", () => {
     it("should have schema with required script parameter", () => {
       expect(tool.schema).toHaveProperty("script");
     });
+
+    it("should have schema with optional limits parameter", () => {
+      expect(tool.schema).toHaveProperty("limits");
+      expect(tool.description).toContain("LIMITS");
+    });
   });
 
   describe("execute", () => {
@@ -61,7 +78,403 @@ describe("ExecuteLuaTool", () => {
       expect(luaRuntime.executeScript).toHaveBeenCalledWith(
         'result(server.tool({arg = "value"}):await())',
         mockServers,
+        {
+          limits: undefined,
+          onLog: expect.any(Function),
+          onToolCall: expect.any(Function),
+          readResource: expect.any(Function),
+          sessionId: "test-session",
+        },
+      );
+    });
+
+    it("should pass the lua tool chain on to upstream tool calls", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockResolvedValue(undefined);
+
+      await tool.execute(
+        { script: "result(1)" },
+        { sessionId: "test-session", luaToolChain: ["curated.open_issues"] },
+      );
+
+      expect(luaRuntime.executeScript).toHaveBeenCalledWith(
+        "result(1)",
+        expect.anything(),
+        expect.objectContaining({
+          toolCallMeta: {
+            "my-cool-proxy/lua-tool-chain": ["curated.open_issues"],
+          },
+        }),
+      );
+    });
+
+    it("should run JavaScript scripts in the JavaScript runtime", async () => {
+      const javaScriptRuntime = unitRef.get(TYPES.JavaScriptRuntime);
+      const mockServers = new Map();
+      clientManager.getClientsBySession.mockReturnValue(mockServers);
+      javaScriptRuntime.executeScript.mockResolvedValue({ ok: true });
+
+      const result = await tool.execute(
+        { script: "return { ok: true };", language: "javascript" },
+        { sessionId: "test-session" },
+      );
+
+      expect(javaScriptRuntime.executeScript).toHaveBeenCalledWith(
+        "return { ok: true };",
+        mockServers,
+        expect.any(Object),
+      );
+      expect(luaRuntime.executeScript).not.toHaveBeenCalled();
+      expect(result.structuredContent).toEqual({ ok: true });
+    });
+
+    it("should pass per-call limits to luaRuntime.executeScript", async () => {
+      const mockServers = new Map();
+      clientManager.getClientsBySession.mockReturnValue(mockServers);
+      luaRuntime.executeScript.mockResolvedValue({});
+
+      await tool.execute(
+        { script: "result({})", limits: { timeoutMs: 1000 } },
+        { sessionId: "test-session" },
+      );
+
+      expect(luaRuntime.executeScript).toHaveBeenCalledWith(
+        "result({})",
+        mockServers,
+        {
+          limits: { timeoutMs: 1000 },
+          onLog: expect.any(Function),
+          onToolCall: expect.any(Function),
+          readResource: expect.any(Function),
+          sessionId: "test-session",
+        },
+      );
+    });
+
+    it("should pass input to luaRuntime.executeScript", async () => {
+      const mockServers = new Map();
+      clientManager.getClientsBySession.mockReturnValue(mockServers);
+      luaRuntime.executeScript.mockResolvedValue({});
+
+      await tool.execute(
+        { script: "result(input.query)", input: { query: 'say "hi"' } },
+        { sessionId: "test-session" },
+      );
+
+      expect(luaRuntime.executeScript).toHaveBeenCalledWith(
+        "result(input.query)",
+        mockServers,
+        {
+          limits: undefined,
+          input: { query: 'say "hi"' },
+          onLog: expect.any(Function),
+          onToolCall: expect.any(Function),
+          readResource: expect.any(Function),
+          sessionId: "test-session",
+        },
+      );
+    });
+
+    it("should pass the request's abort signal to luaRuntime.executeScript", async () => {
+      const mockServers = new Map();
+      clientManager.getClientsBySession.mockReturnValue(mockServers);
+      luaRuntime.executeScript.mockResolvedValue({});
+      const controller = new AbortController();
+
+      await tool.execute(
+        { script: "result({})" },
+        { sessionId: "test-session", signal: controller.signal },
+      );
+
+      expect(luaRuntime.executeScript).toHaveBeenCalledWith(
+        "result({})",
+        mockServers,
+        {
+          limits: undefined,
+          signal: controller.signal,
+          onLog: expect.any(Function),
+          onToolCall: expect.any(Function),
+          readResource: expect.any(Function),
+          sessionId: "test-session",
+        },
+      );
+    });
+
+    it("should not relay progress when the request has no progressToken", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockResolvedValue({});
+
+      await tool.execute(
+        { script: "result({})" },
+        { sessionId: "test-session", sendNotification: vi.fn() },
+      );
+
+      const options = luaRuntime.executeScript.mock.calls[0]![2];
+      expect(options?.onProgress).toBeUndefined();
+    });
+
+    it("should relay script and upstream progress to the progressToken", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockImplementation(
+        async (
+          _script: string,
+          _servers: Map<string, unknown>,
+          options?: ScriptExecutionOptions,
+        ) => {
+          options?.onProgress?.({
+            message: "searching",
+            current: 5,
+            total: 10,
+            server: "github",
+            tool: "search_issues",
+          });
+          options?.onProgress?.({ message: "Fetched page", current: 1 });
+          options?.onProgress?.({});
+          return {};
+        },
+      );
+      const sendNotification = vi.fn().mockResolvedValue(undefined);
+
+      await tool.execute(
+        { script: "result({})" },
+        {
+          sessionId: "test-session",
+          _meta: { progressToken: "token-1" },
+          sendNotification,
+        },
+      );
+
+      expect(sendNotification.mock.calls.map(([n]) => n)).toEqual([
+        {
+          method: "notifications/progress",
+          params: {
+            progressToken: "token-1",
+            progress: 1,
+            message: "github.search_issues: searching (5/10)",
+          },
+        },
+        {
+          method: "notifications/progress",
+          params: {
+            progressToken: "token-1",
+            progress: 2,
+            message: "Fetched page (1)",
+          },
+        },
+        {
+          method: "notifications/progress",
+          params: { progressToken: "token-1", progress: 3 },
+        },
+      ]);
+    });
+
+    it("should only provide sample/elicit handlers for supported capabilities", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockResolvedValue({});
+      capabilityStore.hasCapability.mockImplementation(
+        (_sessionId: string, capability: string) => capability === "sampling",
+      );
+      const downstream = {
+        forwardSamplingRequest: vi.fn().mockResolvedValue({}),
+        forwardElicitationRequest: vi.fn(),
+      };
+      const controller = new AbortController();
+
+      await tool.execute(
+        { script: "result({})" },
+        {
+          sessionId: "test-session",
+          requestId: 7,
+          signal: controller.signal,
+          downstream,
+        },
+      );
+
+      const options: ScriptExecutionOptions =
+        luaRuntime.executeScript.mock.calls[0]![2];
+      expect(options.elicit).toBeUndefined();
+      const params = {
+        messages: [
+          {
+            role: "user" as const,
+            content: { type: "text" as const, text: "Hi" },
+          },
+        ],
+        maxTokens: 10,
+      };
+      await options.sample!(params);
+      expect(capabilityStore.hasCapability).toHaveBeenCalledWith(
+        "test-session",
+        "sampling",
       );
+      expect(downstream.forwardSamplingRequest).toHaveBeenCalledWith(params, {
+        relatedRequestId: 7,
+        signal: controller.signal,
+      });
+    });
+
+    it("should pass the session's state to luaRuntime.executeScript", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockResolvedValue({});
+      const state = {
+        get: vi.fn(),
+        set: vi.fn(),
+        delete: vi.fn(),
+        keys: vi.fn(),
+      };
+      sessionStateStore.forSession.mockReturnValue(state);
+
+      await tool.execute(
+        { script: "result({})" },
+        { sessionId: "test-session" },
+      );
+
+      expect(sessionStateStore.forSession).toHaveBeenCalledWith("test-session");
+      const options: ScriptExecutionOptions =
+        luaRuntime.executeScript.mock.calls[0]![2];
+      expect(options.state).toBe(state);
+    });
+
+    it("should return script logs after the result and mirror them to the logger", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockImplementation(
+        async (
+          _script: string,
+          _servers: Map<string, unknown>,
+          options: ScriptExecutionOptions,
+        ) => {
+          options.onLog!({ level: "info", message: "fetched 3 pages" });
+          options.onLog!({ level: "warn", message: "page 4 was empty" });
+          return { total: 3 };
+        },
+      );
+
+      const result = await tool.execute(
+        { script: "result({ total = 3 })" },
+        { sessionId: "test-session" },
+      );
+
+      expect(result.structuredContent).toEqual({ total: 3 });
+      expect(result.content[1]).toEqual({
+        type: "text",
+        text: "Logs:\n[info] fetched 3 pages\n[warn] page 4 was empty",
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        "[session test-session] Script warn: page 4 was empty",
+      );
+    });
+
+    it("should leave logs out of results for a lua server's tool", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockImplementation(
+        async (
+          _script: string,
+          _servers: Map<string, unknown>,
+          options: ScriptExecutionOptions,
+        ) => {
+          options.onLog!({ level: "info", message: "fetched 3 pages" });
+          return { total: 3 };
+        },
+      );
+
+      const result = await tool.execute(
+        { script: "result({ total = 3 })" },
+        { sessionId: "test-session", luaToolChain: ["curated.report"] },
+      );
+
+      expect(result.content).toHaveLength(1);
+      expect(logger.info).toHaveBeenCalledWith(
+        "[session test-session] Script info: fetched 3 pages",
+      );
+    });
+
+    it("should return logs written before a script failed", async () => {
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockImplementation(
+        async (
+          _script: string,
+          _servers: Map<string, unknown>,
+          options: ScriptExecutionOptions,
+        ) => {
+          options.onLog!({ level: "info", message: "step 1 done" });
+          throw new Error("step 2 failed");
+        },
+      );
+
+      const result = await tool.execute(
+        { script: "..." },
+        { sessionId: "test-session" },
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([
+        {
+          type: "text",
+          text: "Script execution failed:\nError: step 2 failed",
+        },
+        { type: "text", text: "Logs:\n[info] step 1 done" },
+      ]);
+    });
+
+    it("should record the call and its tool calls in the execution history", async () => {
+      const executionHistory = unitRef.get(TYPES.ExecutionHistory);
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      const toolCall = {
+        server: "github",
+        tool: "get-issue",
+        args: { id: 1 },
+        durationMs: 12,
+      };
+      luaRuntime.executeScript.mockImplementation(
+        async (
+          _script: string,
+          _servers: Map<string, unknown>,
+          options: ScriptExecutionOptions,
+        ) => {
+          options.onToolCall!(toolCall);
+          return { title: "Bug" };
+        },
+      );
+
+      const result = await tool.execute(
+        { script: "...", input: { id: 1 } },
+        { sessionId: "test-session" },
+      );
+
+      expect(executionHistory.record).toHaveBeenCalledWith("test-session", {
+        tool: "execute",
+        args: { script: "...", input: { id: 1 } },
+        startedAt: expect.any(String),
+        durationMs: expect.any(Number),
+        toolCalls: [toolCall],
+        resultBytes: Buffer.byteLength(JSON.stringify(result)),
+      });
+    });
+
+    it("should record failed calls with their error", async () => {
+      const executionHistory = unitRef.get(TYPES.ExecutionHistory);
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockRejectedValue(new Error("step 2 failed"));
+
+      await tool.execute({ script: "..." }, { sessionId: "test-session" });
+
+      expect(executionHistory.record).toHaveBeenCalledWith(
+        "test-session",
+        expect.objectContaining({ toolCalls: [], error: "step 2 failed" }),
+      );
+    });
+
+    it("should not record the scripts of lua server tools", async () => {
+      const executionHistory = unitRef.get(TYPES.ExecutionHistory);
+      clientManager.getClientsBySession.mockReturnValue(new Map());
+      luaRuntime.executeScript.mockResolvedValue({ total: 3 });
+
+      await tool.execute(
+        { script: "result({ total = 3 })" },
+        { sessionId: "test-session", luaToolChain: ["curated.report"] },
+      );
+
+      expect(executionHistory.record).not.toHaveBeenCalled();
     });
 
     it("should use 'default' session when sessionId not provided", async () => {
@@ -208,6 +621,68 @@ describe("ExecuteLuaTool", () => {
       expect(logger.error).toHaveBeenCalled();
     });
 
+    it("should return script error details as structured content", async () => {
+      const details = {
+        message: "attempt to index a nil value (local 'issue')",
+        line: 2,
+        column: 7,
+        codeFrame: "> 2 | issue.title",
+        toolCall: { server: "github", tool: "get-issue", args: { id: 7 } },
+        resultCalled: true,
+        result: { partial: true },
+      };
+      const error = Object.assign(new Error("Line 2, column 7: ..."), {
+        name: "ScriptError",
+        details,
+      });
+      luaRuntime.executeScript.mockRejectedValue(error);
+
+      const result = await tool.execute(
+        { script: "..." },
+        { sessionId: "test" },
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toEqual({ error: details });
+    });
+
+    it("should return pre-flight diagnostics as structured content", async () => {
+      const diagnostics = [
+        {
+          severity: "error",
+          message: "Server 'github' has no tool 'get_isue'",
+          line: 1,
+          column: 15,
+          suggestion: "github.get_issue",
+        },
+      ];
+      const error = Object.assign(new Error("The script was not run ..."), {
+        name: "ScriptAnalysisError",
+        diagnostics,
+      });
+      luaRuntime.executeScript.mockRejectedValue(error);
+
+      const result = await tool.execute(
+        { script: "..." },
+        { sessionId: "test" },
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toEqual({ diagnostics });
+    });
+
+    it("should not return structured content for other errors", async () => {
+      luaRuntime.executeScript.mockRejectedValue(new Error("cancelled"));
+
+      const result = await tool.execute(
+        { script: "..." },
+        { sessionId: "test" },
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+    });
+
     it("should handle runtime errors during tool calls", async () => {
       const error = new Error("Tool 'nonexistent' not found");
       luaRuntime.executeScript.mockRejectedValue(error);
@@ -238,6 +713,13 @@ describe("ExecuteLuaTool", () => {
       expect(luaRuntime.executeScript).toHaveBeenCalledWith(
         "result({})",
         expect.any(Map),
+        {
+          limits: undefined,
+          onLog: expect.any(Function),
+          onToolCall: expect.any(Function),
+          readResource: expect.any(Function),
+          sessionId: "test",
+        },
       );
     });
 
@@ -275,6 +757,73 @@ describe("ExecuteLuaTool", () => {
       expect(result.structuredContent).toBeUndefined();
     });
 
+    it("should return a list of content blocks as the content", async () => {
+      const blocks = [
+        { type: "text", text: "Screenshot" },
+        { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" },
+      ];
+      luaRuntime.executeScript.mockResolvedValue(blocks);
+
+      const result = await tool.execute(
+        { script: 'result({ mcp.text("Screenshot"), shot.content[1] })' },
+        { sessionId: "test" },
+      );
+
+      expect(result.content).toEqual(blocks);
+      expect(result.structuredContent).toBeUndefined();
+    });
+
+    it("should store results over the size limit as a resource and return a preview", async () => {
+      const rows = Array.from({ length: 50 }, (_, id) => ({ id }));
+      luaRuntime.executeScript.mockResolvedValue({ rows });
+      resourceAggregation.addGatewayResource.mockImplementation(
+        (_sessionId: string, path: string, resource: object) => ({
+          ...resource,
+          uri: `mcp://gateway/${path}`,
+        }),
+      );
+
+      const result = await tool.execute(
+        { script: "result({ rows = rows })" },
+        { sessionId: "test" },
+      );
+
+      const [, path, resource, text] =
+        resourceAggregation.addGatewayResource.mock.calls[0];
+      expect(path).toMatch(/^results\//);
+      expect(resource).toMatchObject({ mimeType: "application/json" });
+      expect(JSON.parse(text)).toEqual({ rows });
+
+      expect(result.structuredContent).toBeUndefined();
+      expect(result.content[0]?.type).toBe("text");
+      if (result.content[0]?.type === "text") {
+        expect(result.content[0].text).toContain(
+          "more than the 1000 byte limit",
+        );
+        expect(result.content[0].text).toContain(
+          "structuredContent) was left out too",
+        );
+      }
+      expect(result.content[1]).toMatchObject({
+        type: "resource_link",
+        uri: `mcp://gateway/${path}`,
+      });
+    });
+
+    it("should measure only the text of a result against the size limit", async () => {
+      // About 700 bytes of text, over 1000 with structuredContent added
+      const rows = Array.from({ length: 25 }, (_, id) => ({ id }));
+      luaRuntime.executeScript.mockResolvedValue({ rows });
+
+      const result = await tool.execute(
+        { script: "result({ rows = rows })" },
+        { sessionId: "test" },
+      );
+
+      expect(resourceAggregation.addGatewayResource).not.toHaveBeenCalled();
+      expect(result.structuredContent).toEqual({ rows });
+    });
+
     it("should handle complex nested object results", async () => {
       const complexResult = {
         user: {
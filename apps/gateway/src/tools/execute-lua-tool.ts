@@ -1,22 +1,82 @@
 import { injectable } from "inversify";
+import { randomUUID } from "node:crypto";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  CallToolResultSchema,
+  ContentBlockSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import * as z from "zod";
 import type {
+  CompletedToolCall,
+  ICapabilityStore,
+  IExecutionHistory,
   ILuaRuntime,
   IMCPClientManager,
   ILogger,
+  ISessionStateStore,
+  ScriptDiagnostic,
+  ScriptErrorDetails,
+  ScriptExecutionOptions,
+  ScriptLimitsConfig,
+  ScriptLogEntry,
+  ScriptProgress,
+  ServerConfig,
 } from "../types/interfaces.js";
+import {
+  ResourceAggregationService,
+  type ScriptLanguage,
+} from "@my-cool-proxy/mcp-aggregation";
 import { $inject } from "../container/decorators.js";
 import { TYPES } from "../types/index.js";
 import type { ITool, ToolExecutionContext } from "./base-tool.js";
+import { LUA_TOOL_CHAIN_META_KEY } from "../services/lua-server-factory.js";
+
+/**
+ * Default size above which a result is stored as a resource, in bytes
+ */
+export const DEFAULT_MAX_RESULT_BYTES = 100_000;
+
+/**
+ * Default length of the preview returned instead, in characters
+ */
+export const DEFAULT_RESULT_PREVIEW_CHARS = 2_000;
+
+/**
+ * Per-call limits accepted by execute and the tools that run saved scripts
+ */
+export const scriptLimitsSchema = z
+  .object({
+    timeoutMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Wall-clock time limit in milliseconds"),
+    maxInstructions: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Maximum number of Lua instructions"),
+    maxMemoryBytes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Maximum Lua memory in bytes"),
+  })
+  .optional()
+  .describe(
+    "Optional per-call execution limits. Can only tighten the gateway's configured limits.",
+  );
 
 /**
  * Tool that executes Lua scripts with access to MCP servers.
  *
  * This tool allows executing arbitrary Lua code that can call tools on
  * available MCP servers. It's the primary way to orchestrate multi-server
- * tool calls.
+ * tool calls. Scripts may also be written in JavaScript, which runs in a
+ * QuickJS runtime with the same globals.
  */
 @injectable()
 export class ExecuteLuaTool implements ITool {
@@ -29,12 +89,73 @@ WORKFLOW:
 3. Call tool-details for each tool you plan to use (REQUIRED - brief descriptions are insufficient)
 4. OPTIONAL: Call inspect-tool-response to see sample output structure for better data extraction
 5. Call execute with a Lua script that uses those tools
+6. OPTIONAL: Save a script you will need again with save-script; list-scripts shows saved scripts, which run-script runs
 
 SCRIPT SYNTAX:
 - MCP servers are available as global variables using their Lua identifiers
 - Tool calls return promises - use :await() to unwrap them
 - Call result() to return a value from your script
 - Example: result(server_name.tool_name({ arg = "value" }):await())
+- Resources and prompts also return promises: server_name.resources.list(), server_name.resources.read(uri),
+  server_name.prompts.list(), server_name.prompts.get(name, args)
+- read_resource(uri) reads an mcp://server-name/... URI, e.g. from a resource_link a tool returned
+
+LIBRARY (os, io and require are not available; use these instead):
+- json.encode(value, indent?) / json.decode(text)
+- base64.encode(text) / base64.decode(text)
+- time.now() (milliseconds since the epoch), time.iso(ms?) (ISO 8601 string), time.parse(iso) (milliseconds)
+- string.split(s, sep?) (plain separator; splits on whitespace when omitted), string.trim(s),
+  string.startswith(s, prefix), string.endswith(s, suffix) - also usable as s:split(","), s:trim()
+- table.map(t, fn), table.filter(t, fn), table.reduce(t, fn, initial), table.keys(t) - fn receives (value, key);
+  these callbacks cannot :await(), use parallel_map for tool calls
+- uuid() returns a random UUID string
+
+CONTENT (images, audio and other non-text results):
+- Pass result() a list of content blocks to return them as they are, e.g. an image a tool returned
+  reaches the client as an image instead of base64 text: result({ mcp.text("Screenshot:"), shot.content[1] })
+- mcp.text(text), mcp.image(base64, mimeType), mcp.audio(base64, mimeType) build blocks
+- mcp.resource_link(uri, name, { mimeType = ..., description = ... }) links a resource;
+  mcp.embedded_resource(doc.contents[1]) embeds one read with read_resource(uri)
+
+JSON VALUES:
+- Arguments are checked against the tool's input schema before the call; invalid arguments raise a Lua error
+  listing each missing or invalid field and its expected type (floats like 10 / 2 are accepted as integers)
+- Results of tools with an output schema are checked against it; a mismatch is reported in the logs, or raises a
+  Lua error if the gateway runs in strict mode
+- Empty tables are sent as {} unless the tool's schema expects an array; use json.array() / json.object() to be explicit
+- json.null sends an explicit null; nulls inside result arrays read as json.null (null object fields read as nil)
+
+INPUT:
+- Pass data as the "input" argument instead of writing it into the script; it is available as the read-only table input
+- Example: with input = { "repo": "octo/app", "ids": [1, 2] }, use server.get_issue({ repo = input.repo, id = input.ids[1] })
+
+PARALLEL CALLS:
+- await_all({ p1, p2, ... }) waits for several tool call promises and returns their results in order
+- await_any({ p1, p2, ... }) returns the value and index of the first call to succeed
+- parallel_map(items, fn, concurrency) calls fn(item, index) for each item, running up to
+  concurrency calls at once (default 5), and returns the results in input order
+- Example: result(parallel_map(ids, function(id) return server.get_item({ id = id }):await() end, 4))
+
+LOGGING:
+- print(...) and log(level, message) (level: "debug", "info", "warn" or "error") are returned after the result
+  in a "Logs:" block, also when the script fails - useful to see how far a failing script got
+- Output is capped per call, so log summaries rather than whole responses
+
+PROGRESS:
+- Progress notifications from upstream tool calls are relayed to the client automatically
+- Call progress(message, current, total) to report your own milestones, e.g. progress("Fetched page", 3, 10)
+
+ASKING THE CLIENT (only if the connected client supports it; otherwise these raise an error):
+- sample({ messages = { "Summarize: " .. text }, maxTokens = 300 }):await() asks the client's model;
+  the reply text is in .content.text
+- elicit({ message = "Proceed?", schema = { properties = { ok = { type = "boolean" } } } }):await()
+  asks the user; returns { action = "accept" | "decline" | "cancel", content = {...} }
+
+STATE (kept between execute calls for this session):
+- state.set(key, value) stores a JSON-serializable value; setting nil removes the key
+- state.get(key) returns a copy of the value or nil; state.delete(key) and state.keys() manage keys
+- Example: local cursor = state.get("cursor") or 1 ... state.set("cursor", cursor + 1)
+- State is limited in size; state.set() raises an error when the session's quota would be exceeded
 
 OPTIMIZATION:
 1. Combine multiple tool calls into a single script to avoid returning large intermediate results
@@ -44,84 +165,433 @@ OPTIMIZATION:
    - Process and aggregate data across all pages in Lua before returning
 3. Process responses in Lua to extract only needed fields before returning - Lua processing is cheap,
    but returning large JSON objects wastes tokens
-4. Example: Instead of returning raw responses, extract specific fields into a summary table`;
+4. Example: Instead of returning raw responses, extract specific fields into a summary table
+
+ERRORS:
+- Scripts are checked before they run: calls to unknown servers or tools (with "did you mean" suggestions) and
+  calling result() after shadowing it with a local stop the script before any tool is called, with the problems in
+  structuredContent.diagnostics; unawaited tool calls and shadowed globals are reported as warnings in the logs
+- When a script fails, structuredContent.error has the Lua line and column, a code frame around the line,
+  the tool call that raised the error (server, tool, args) and any value already passed to result()
+- A tool that returns an error result raises a Lua error with server, tool, message and content fields;
+  catch it with pcall(), e.g. local ok, err = pcall(function() return server.tool({...}):await() end)
+
+CALL OPTIONS (optional second argument of any tool function):
+- timeout = ms fails the call if it takes longer; retries = n (up to 5) retries failed or timed-out calls,
+  waiting backoff = ms (default 500, doubled each retry); error results are not retried
+- raw = true returns the whole result (content, structuredContent, isError) without unwrapping or raising errors
+- meta = { ... } is sent upstream as the request's _meta
+- Example: local res = server.tool({ id = 1 }, { timeout = 5000, retries = 2 }):await()
+
+LIMITS:
+- Scripts run with a wall-clock time limit, an instruction limit and a memory limit
+- When a limit is hit the script is stopped and the error reports which limit and the partial state
+- Pass "limits" to tighten them for a single call (they cannot be raised above the gateway's configuration)
+- Results larger than the gateway's size limit are stored as a session resource; you get a preview and a
+  resource_link, and can read the full result with read_resource(uri) in a later script
+
+JAVASCRIPT (pass language = "javascript"):
+- The script is the body of an async function: await tool calls and return the result (result() also works)
+- Servers, input, state, read_resource, sample, elicit, progress, print and log are the same as in Lua;
+  console.log/info/warn/error also go to the logs. Pass language = "javascript" to tool-details for JavaScript examples
+- Example: const issue = await server_name.get_issue({ id: input.id }); return { title: issue.title };
+- Use Promise.all([...]) instead of await_all; tool errors are thrown as errors with server, tool and content fields
+- The Lua library (json, base64, time, table helpers, mcp content helpers) is not available; use JSON and built-ins`;
 
   readonly schema = {
     script: z
       .string()
       .describe(
-        "Lua script to execute. See tool description for syntax and workflow.",
+        "Script to execute, in Lua unless language says otherwise. See tool description for syntax and workflow.",
+      ),
+    language: z
+      .enum(["lua", "javascript"])
+      .optional()
+      .describe('Language of the script (default "lua")'),
+    input: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe(
+        "Optional JSON object available to the script as the read-only global 'input'. " +
+          "Pass data here instead of writing it into the script source.",
       ),
+    limits: scriptLimitsSchema,
   };
 
   constructor(
     @$inject(TYPES.LuaRuntime) private luaRuntime: ILuaRuntime,
+    @$inject(TYPES.JavaScriptRuntime) private javaScriptRuntime: ILuaRuntime,
     @$inject(TYPES.MCPClientManager) private clientPool: IMCPClientManager,
     @$inject(TYPES.Logger) private logger: ILogger,
+    @$inject(TYPES.CapabilityStore) private capabilityStore: ICapabilityStore,
+    @$inject(TYPES.SessionStateStore)
+    private sessionStateStore: ISessionStateStore,
+    @$inject(TYPES.ResourceAggregationService)
+    private resourceAggregation: ResourceAggregationService,
+    @$inject(TYPES.ServerConfig) private config: ServerConfig,
+    @$inject(TYPES.ExecutionHistory)
+    private executionHistory: IExecutionHistory,
   ) {}
 
   async execute(
     args: Record<string, unknown>,
     context: ToolExecutionContext,
   ): Promise<CallToolResult> {
-    const { script } = args;
-    const mcpServers = this.clientPool.getClientsBySession(
-      context.sessionId || "default",
-    );
+    const { script, input, limits, language } = args;
+    const sessionId = context.sessionId || "default";
+    const mcpServers = this.clientPool.getClientsBySession(sessionId);
+
+    const logs: ScriptLogEntry[] = [];
+    const startedAt = Date.now();
+    const toolCalls: CompletedToolCall[] = [];
+    const record = (outcome: { resultBytes: number } | { error: string }) => {
+      // A lua server's tool is recorded as a tool call of the execution that
+      // called it; replaying its script on its own would skip its input check
+      if (context.luaToolChain) return;
+      this.executionHistory.record(sessionId, {
+        tool: "execute",
+        args: Object.fromEntries(
+          Object.entries({ script, language, input, limits }).filter(
+            ([, value]) => value !== undefined,
+          ),
+        ),
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        toolCalls,
+        ...outcome,
+      });
+    };
 
     try {
-      const result = await this.luaRuntime.executeScript(
-        script as string,
-        mcpServers,
+      const runtime =
+        (language as ScriptLanguage | undefined) === "javascript"
+          ? this.javaScriptRuntime
+          : this.luaRuntime;
+      const result = await runtime.executeScript(script as string, mcpServers, {
+        limits: limits as ScriptLimitsConfig | undefined,
+        input: input as Record<string, unknown> | undefined,
+        signal: context.signal,
+        onProgress: this.createProgressRelay(context),
+        onLog: this.createLogCollector(sessionId, logs),
+        onToolCall: (call) => toolCalls.push(call),
+        ...this.createClientRequestHandlers(sessionId, context),
+        state: this.sessionStateStore.forSession(sessionId),
+        readResource: (uri) =>
+          this.resourceAggregation.readResource(uri, sessionId),
+        sessionId,
+        ...(context.luaToolChain && {
+          toolCallMeta: { [LUA_TOOL_CHAIN_META_KEY]: context.luaToolChain },
+        }),
+      });
+
+      const formatted = this.formatResult(result);
+      record({ resultBytes: Buffer.byteLength(JSON.stringify(formatted)) });
+      return this.appendLogs(
+        this.spillLargeResult(formatted, sessionId),
+        logs,
+        context,
       );
+    } catch (error) {
+      record({
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.error(
+        `${language === "javascript" ? "JavaScript" : "Lua script"} execution failed: ${error}`,
+      );
+      const structuredContent = this.getErrorStructuredContent(error);
+      return this.appendLogs(
+        {
+          content: [
+            { type: "text", text: `Script execution failed:\n${error}` },
+          ],
+          ...(structuredContent ? { structuredContent } : {}),
+          isError: true,
+        },
+        logs,
+        context,
+      );
+    }
+  }
 
-      // Check if result is already a valid CallToolResult
-      if (
-        result &&
-        typeof result === "object" &&
-        "content" in result &&
-        Array.isArray((result as Record<string, unknown>).content)
-      ) {
-        const parseResult = CallToolResultSchema.safeParse(result);
-        if (parseResult.success) return parseResult.data;
-      }
+  /**
+   * Describe a failure as data: the pre-flight diagnostics of a script that
+   * was not run, or the position, failing tool call and partial result of a
+   * script that failed with a Lua error. Limit and cancellation errors have
+   * no structured form.
+   */
+  private getErrorStructuredContent(
+    error: unknown,
+  ): Record<string, unknown> | undefined {
+    if (!(error instanceof Error)) {
+      return undefined;
+    }
+    if (error.name === "ScriptAnalysisError" && "diagnostics" in error) {
+      return { diagnostics: error.diagnostics as ScriptDiagnostic[] };
+    }
+    if (error.name === "ScriptError" && "details" in error) {
+      return { error: error.details as ScriptErrorDetails };
+    }
+    return undefined;
+  }
 
-      // Return structured result if it's an object (but not an array)
-      if (result !== null && typeof result === "object") {
-        const textContent = {
-          type: "text" as const,
-          text: JSON.stringify(result, null, 2),
-        };
-
-        // structuredContent must be a Record, not an array
-        if (Array.isArray(result)) {
-          return { content: [textContent] };
-        }
-
-        return {
-          content: [textContent],
-          structuredContent: result as Record<string, unknown>,
-        };
-      }
+  /**
+   * Convert the value passed to result() into a tool result
+   */
+  private formatResult(result: unknown): CallToolResult {
+    // Check if result is already a valid CallToolResult
+    if (
+      result &&
+      typeof result === "object" &&
+      "content" in result &&
+      Array.isArray((result as Record<string, unknown>).content)
+    ) {
+      const parseResult = CallToolResultSchema.safeParse(result);
+      if (parseResult.success) return parseResult.data;
+    }
 
-      // Return simple text result
-      return {
-        content: [
-          {
-            type: "text",
-            text:
-              result !== undefined
-                ? `Script executed successfully.\n\nResult:\n${result}`
-                : "Script executed successfully. No result returned.",
-          },
-        ],
+    // A list of content blocks, e.g. built with mcp.text()/mcp.image() or
+    // taken from tool results, becomes the content itself
+    if (Array.isArray(result) && result.length > 0) {
+      const blocks = z.array(ContentBlockSchema).safeParse(result);
+      if (blocks.success) return { content: blocks.data };
+    }
+
+    // Return structured result if it's an object (but not an array)
+    if (result !== null && typeof result === "object") {
+      const textContent = {
+        type: "text" as const,
+        text: JSON.stringify(result, null, 2),
       };
-    } catch (error) {
-      this.logger.error(`Lua script execution failed: ${error}`);
+
+      // structuredContent must be a Record, not an array
+      if (Array.isArray(result)) {
+        return { content: [textContent] };
+      }
+
       return {
-        content: [{ type: "text", text: `Script execution failed:\n${error}` }],
-        isError: true,
+        content: [textContent],
+        structuredContent: result as Record<string, unknown>,
       };
     }
+
+    // Return simple text result
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            result !== undefined
+              ? `Script executed successfully.\n\nResult:\n${result}`
+              : "Script executed successfully. No result returned.",
+        },
+      ],
+    };
+  }
+
+  /**
+   * Keep a result whose text exceeds the size limit out of the agent's
+   * context: store the text as a session-scoped gateway resource and return a
+   * preview with a link to it instead, without the structuredContent. Results
+   * with images, audio or other non-text blocks are returned as they are,
+   * since the client needs the media.
+   */
+  private spillLargeResult(
+    result: CallToolResult,
+    sessionId: string,
+  ): CallToolResult {
+    const maxBytes =
+      this.config.resultSize?.maxBytes ?? DEFAULT_MAX_RESULT_BYTES;
+    const previewChars =
+      this.config.resultSize?.previewChars ?? DEFAULT_RESULT_PREVIEW_CHARS;
+
+    const texts: string[] = [];
+    for (const block of result.content) {
+      if (block.type !== "text") return result;
+      texts.push(block.text);
+    }
+    const text = texts.join("\n");
+
+    const bytes = Buffer.byteLength(text);
+    if (bytes <= maxBytes) {
+      return result;
+    }
+
+    const id = randomUUID();
+    const resource = this.resourceAggregation.addGatewayResource(
+      sessionId,
+      `results/${id}`,
+      {
+        name: `results/${id}`,
+        title: "Execute result",
+        description: `Full result of an execute call that was too large to return (${bytes} bytes)`,
+        mimeType: isJson(text) ? "application/json" : "text/plain",
+      },
+      text,
+    );
+    this.logger.info(
+      `Result of ${bytes} bytes exceeds ${maxBytes}; stored as ${resource.uri}`,
+    );
+
+    const preview =
+      text.length > previewChars ? `${text.slice(0, previewChars)}…` : text;
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `The result is ${bytes} bytes, more than the ${maxBytes} byte limit, so it was stored as ${resource.uri}. ` +
+            `Read it with resources/read, or extract what you need in a script with ` +
+            `read_resource("${resource.uri}"):await().contents[1].text.` +
+            (result.structuredContent
+              ? " The structured form of the result (structuredContent) was left out too; the stored text holds the same data."
+              : "") +
+            `\n\nPreview (first ${previewChars} characters):\n${preview}`,
+        },
+        {
+          type: "resource_link",
+          uri: resource.uri,
+          name: resource.name,
+          title: resource.title,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        },
+      ],
+      ...(result.isError && { isError: true }),
+    };
+  }
+
+  /**
+   * Collect the script's print()/log() output and mirror it to the gateway
+   * log, tagged with the session.
+   */
+  private createLogCollector(
+    sessionId: string,
+    logs: ScriptLogEntry[],
+  ): (entry: ScriptLogEntry) => void {
+    return (entry) => {
+      logs.push(entry);
+      const message = `[session ${sessionId}] Script ${entry.level}: ${entry.message}`;
+      if (entry.level === "error") {
+        this.logger.error(message);
+      } else {
+        this.logger[entry.level](message);
+      }
+    };
+  }
+
+  /**
+   * Create the sample()/elicit() handlers for the capabilities the session's
+   * downstream client declared. Requests are sent as part of this execute
+   * request so that they are cancelled along with it.
+   */
+  private createClientRequestHandlers(
+    sessionId: string,
+    context: ToolExecutionContext,
+  ): Pick<ScriptExecutionOptions, "sample" | "elicit"> {
+    const downstream = context.downstream;
+    if (!downstream) {
+      return {};
+    }
+
+    const options = {
+      relatedRequestId: context.requestId,
+      signal: context.signal,
+    };
+    const handlers: Pick<ScriptExecutionOptions, "sample" | "elicit"> = {};
+
+    if (this.capabilityStore.hasCapability(sessionId, "sampling")) {
+      handlers.sample = (params) =>
+        downstream.forwardSamplingRequest(params, options);
+    }
+    if (this.capabilityStore.hasCapability(sessionId, "elicitation")) {
+      handlers.elicit = (params) =>
+        downstream.forwardElicitationRequest(params, options);
+    }
+
+    return handlers;
+  }
+
+  /**
+   * Add the script's output as a separate text block, after the result.
+   * Results of a lua server's tools go back to the calling script, which
+   * only unwraps a result made of a single text block, so their output is
+   * left in the gateway log.
+   */
+  private appendLogs(
+    result: CallToolResult,
+    logs: ScriptLogEntry[],
+    context: ToolExecutionContext,
+  ): CallToolResult {
+    if (logs.length === 0 || context.luaToolChain) {
+      return result;
+    }
+    const text = logs
+      .map((entry) => `[${entry.level}] ${entry.message}`)
+      .join("\n");
+    return {
+      ...result,
+      content: [...result.content, { type: "text", text: `Logs:\n${text}` }],
+    };
+  }
+
+  /**
+   * Create a callback that forwards script progress to the downstream client,
+   * or undefined if the execute request did not ask for progress.
+   *
+   * Progress values sent downstream must increase with every notification,
+   * but the script and each upstream tool report on their own scales. The
+   * relay therefore sends a running count as the progress value and puts the
+   * source's own current/total into the message.
+   */
+  private createProgressRelay(
+    context: ToolExecutionContext,
+  ): ((progress: ScriptProgress) => void) | undefined {
+    const progressToken = context._meta?.progressToken;
+    const sendNotification = context.sendNotification;
+    if (progressToken === undefined || !sendNotification) {
+      return undefined;
+    }
+
+    let count = 0;
+    return (progress) => {
+      const source =
+        progress.server && progress.tool
+          ? `${progress.server}.${progress.tool}`
+          : undefined;
+      let fraction: string | undefined;
+      if (progress.current !== undefined) {
+        fraction =
+          progress.total !== undefined
+            ? `(${progress.current}/${progress.total})`
+            : `(${progress.current})`;
+      }
+      const message = [
+        source ? `${source}:` : undefined,
+        progress.message,
+        fraction,
+      ]
+        .filter((part) => part !== undefined && part !== "")
+        .join(" ");
+
+      sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: ++count,
+          ...(message ? { message } : {}),
+        },
+      }).catch((error: unknown) => {
+        this.logger.debug(`Failed to send progress notification: ${error}`);
+      });
+    };
+  }
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
   }
 }
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TestBed } from "@suites/unit";
+import { ExecutionHistoryTool } from "./execution-history-tool.js";
+import { TYPES } from "../types/index.js";
+import type { ExecutionHistoryEntry } from "../types/interfaces.js";
+
+const executeEntry: ExecutionHistoryEntry = {
+  id: 1,
+  tool: "execute",
+  args: {
+    script:
+      "local issue = github.get_issue({ id = input.id }):await()\nresult(issue.title)",
+    input: { id: 7 },
+  },
+  startedAt: "2026-01-01T00:00:00.000Z",
+  durationMs: 42,
+  toolCalls: [
+    { server: "github", tool: "get-issue", args: { id: 7 }, durationMs: 30 },
+  ],
+  resultBytes: 64,
+};
+
+const inspectEntry: ExecutionHistoryEntry = {
+  id: 2,
+  tool: "inspect-tool-response",
+  args: { luaServerName: "github", luaToolName: "nope", sampleArgs: {} },
+  startedAt: "2026-01-01T00:01:00.000Z",
+  durationMs: 3,
+  toolCalls: [
+    {
+      server: "github",
+      tool: "nope",
+      args: {},
+      durationMs: 3,
+      error: "Tool 'nope' not found",
+    },
+  ],
+  error: "Tool 'nope' not found",
+};
+
+describe("ExecutionHistoryTool", () => {
+  let tool: ExecutionHistoryTool;
+  let executionHistory: ReturnType<typeof unitRef.get>;
+  let executeTool: ReturnType<typeof unitRef.get>;
+  let inspectTool: ReturnType<typeof unitRef.get>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let unitRef: any;
+
+  beforeEach(async () => {
+    const { unit, unitRef: ref } =
+      await TestBed.solitary(ExecutionHistoryTool).compile();
+    tool = unit;
+    unitRef = ref;
+    executionHistory = unitRef.get(TYPES.ExecutionHistory);
+    executeTool = unitRef.get(TYPES.ExecuteTool);
+    inspectTool = unitRef.get(TYPES.InspectTool);
+  });
+
+  it("should have correct name", () => {
+    expect(tool.name).toBe("execution-history");
+  });
+
+  it("should list the session's entries", async () => {
+    executionHistory.list.mockReturnValue([executeEntry, inspectEntry]);
+
+    const result = await tool.execute({}, { sessionId: "test" });
+
+    expect(executionHistory.list).toHaveBeenCalledWith("test");
+    expect(result.content[0]).toEqual({
+      type: "text",
+      text: [
+        "Execution history (2, oldest first):",
+        "",
+        "#1 execute at 2026-01-01T00:00:00.000Z (42 ms, 1 tool call) 64 bytes",
+        "  local issue = github.get_issue({ id = input.id }):await() …",
+        "",
+        "#2 inspect-tool-response at 2026-01-01T00:01:00.000Z (3 ms, 1 tool call) failed: Tool 'nope' not found",
+        "  github.nope({})",
+      ].join("\n"),
+    });
+  });
+
+  it("should say when the session has no entries", async () => {
+    executionHistory.list.mockReturnValue([]);
+
+    const result = await tool.execute({}, { sessionId: "test" });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]).toMatchObject({
+      text: expect.stringContaining("No execute or inspect-tool-response"),
+    });
+  });
+
+  it("should show an entry in full", async () => {
+    executionHistory.get.mockReturnValue(executeEntry);
+
+    const result = await tool.execute({ id: 1 }, { sessionId: "test" });
+
+    expect(executionHistory.get).toHaveBeenCalledWith("test", 1);
+    expect(result.structuredContent).toEqual(executeEntry);
+  });
+
+  it("should report unknown entries", async () => {
+    executionHistory.get.mockReturnValue(undefined);
+    executionHistory.list.mockReturnValue([executeEntry]);
+
+    const result = await tool.execute({ id: 5 }, { sessionId: "test" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({
+      text: "Execution history entry 5 not found.\n\nEntries: 1",
+    });
+  });
+
+  it("should re-run an execute entry through the execute tool", async () => {
+    executionHistory.get.mockReturnValue(executeEntry);
+    const executeResult = {
+      content: [{ type: "text" as const, text: "Bug" }],
+    };
+    executeTool.execute.mockResolvedValue(executeResult);
+    const context = { sessionId: "test" };
+
+    const result = await tool.execute({ id: 1, rerun: true }, context);
+
+    expect(executeTool.execute).toHaveBeenCalledWith(
+      executeEntry.args,
+      context,
+    );
+    expect(result).toBe(executeResult);
+  });
+
+  it("should re-run an inspect-tool-response entry through its tool", async () => {
+    executionHistory.get.mockReturnValue(inspectEntry);
+    inspectTool.execute.mockResolvedValue({ content: [] });
+    const context = { sessionId: "test" };
+
+    await tool.execute({ id: 2, rerun: true }, context);
+
+    expect(inspectTool.execute).toHaveBeenCalledWith(
+      inspectEntry.args,
+      context,
+    );
+    expect(executeTool.execute).not.toHaveBeenCalled();
+  });
+
+  it("should require an id to re-run", async () => {
+    const result = await tool.execute({ rerun: true }, { sessionId: "test" });
+
+    expect(result.isError).toBe(true);
+  });
+});
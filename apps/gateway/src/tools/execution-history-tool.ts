@@ -0,0 +1,140 @@
+import { injectable } from "inversify";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+import type { ITool, ToolExecutionContext } from "./base-tool.js";
+import type {
+  ExecutionHistoryEntry,
+  IExecutionHistory,
+} from "../types/interfaces.js";
+
+const MAX_SUMMARY_CHARS = 100;
+
+/**
+ * Tool that shows the session's execute and inspect-tool-response calls and
+ * runs one of them again.
+ *
+ * Re-running goes through the original tool, so the new run is recorded as
+ * an entry of its own.
+ */
+@injectable()
+export class ExecutionHistoryTool implements ITool {
+  readonly name = "execution-history";
+  readonly description =
+    "Show the execute and inspect-tool-response calls made in this session: what ran, how long it took, " +
+    "which tool calls it made and whether it succeeded. Use it to recall what you already tried, e.g. after " +
+    "your context was compacted.\n\n" +
+    "- Without arguments: lists the entries, oldest first\n" +
+    "- With id: shows the entry in full, including the script and input\n" +
+    "- With id and rerun = true: runs the entry again with the same arguments and returns its result";
+
+  readonly schema = {
+    id: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("ID of an entry, as shown in the list"),
+    rerun: z
+      .boolean()
+      .optional()
+      .describe("Run the entry again with the same arguments"),
+  };
+
+  constructor(
+    @$inject(TYPES.ExecutionHistory)
+    private executionHistory: IExecutionHistory,
+    @$inject(TYPES.ExecuteTool) private executeTool: ITool,
+    @$inject(TYPES.InspectTool) private inspectTool: ITool,
+  ) {}
+
+  async execute(
+    args: Record<string, unknown>,
+    context: ToolExecutionContext,
+  ): Promise<CallToolResult> {
+    const { id, rerun } = args;
+    const sessionId = context.sessionId || "default";
+
+    if (id === undefined) {
+      if (rerun) {
+        return error("Pass the id of the entry to run again.");
+      }
+      return this.list(sessionId);
+    }
+
+    const entry = this.executionHistory.get(sessionId, id as number);
+    if (!entry) {
+      const ids = this.executionHistory
+        .list(sessionId)
+        .map((e) => String(e.id));
+      return error(
+        `Execution history entry ${id} not found.\n\nEntries: ${ids.length > 0 ? ids.join(", ") : "none"}`,
+      );
+    }
+
+    if (rerun) {
+      const tool =
+        entry.tool === "execute" ? this.executeTool : this.inspectTool;
+      return tool.execute(entry.args, context);
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(entry, null, 2) }],
+      structuredContent: { ...entry },
+    };
+  }
+
+  private list(sessionId: string): CallToolResult {
+    const entries = this.executionHistory.list(sessionId);
+    if (entries.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "No execute or inspect-tool-response calls in this session yet.",
+          },
+        ],
+      };
+    }
+
+    const lines = [`Execution history (${entries.length}, oldest first):`];
+    for (const entry of entries) {
+      const calls = `${entry.toolCalls.length} tool call${entry.toolCalls.length === 1 ? "" : "s"}`;
+      const outcome =
+        entry.error !== undefined
+          ? `failed: ${truncate(entry.error)}`
+          : `${entry.resultBytes} bytes`;
+      lines.push(
+        "",
+        `#${entry.id} ${entry.tool} at ${entry.startedAt} (${entry.durationMs} ms, ${calls}) ${outcome}`,
+        `  ${summarize(entry)}`,
+      );
+    }
+
+    return { content: [{ type: "text", text: lines.join("\n") }] };
+  }
+}
+
+/**
+ * One line saying what an entry ran: the script's first line, or the
+ * inspected tool
+ */
+function summarize(entry: ExecutionHistoryEntry): string {
+  if (entry.tool === "inspect-tool-response") {
+    return `${entry.args.luaServerName}.${entry.args.luaToolName}(${JSON.stringify(entry.args.sampleArgs ?? {})})`;
+  }
+  const lines = String(entry.args.script).trim().split("\n");
+  return truncate(lines[0] ?? "") + (lines.length > 1 ? " …" : "");
+}
+
+function truncate(text: string): string {
+  const line = text.split("\n")[0] ?? "";
+  return line.length > MAX_SUMMARY_CHARS
+    ? `${line.slice(0, MAX_SUMMARY_CHARS)}…`
+    : line;
+}
+
+function error(text: string): CallToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
@@ -61,6 +61,36 @@ describe("InspectToolResponseTool", () => {
       );
     });
 
+    it("should record the sample call in the execution history", async () => {
+      const executionHistory = unitRef.get(TYPES.ExecutionHistory);
+      toolDiscovery.inspectToolResponse.mockResolvedValue({
+        content: [{ type: "text", text: "Tool 'nope' not found" }],
+        isError: true,
+      });
+
+      await tool.execute(
+        { luaServerName: "github", luaToolName: "nope" },
+        { sessionId: "test-session" },
+      );
+
+      expect(executionHistory.record).toHaveBeenCalledWith("test-session", {
+        tool: "inspect-tool-response",
+        args: { luaServerName: "github", luaToolName: "nope", sampleArgs: {} },
+        startedAt: expect.any(String),
+        durationMs: expect.any(Number),
+        toolCalls: [
+          {
+            server: "github",
+            tool: "nope",
+            args: {},
+            durationMs: expect.any(Number),
+            error: "Tool 'nope' not found",
+          },
+        ],
+        error: "Tool 'nope' not found",
+      });
+    });
+
     it("should use 'default' session when sessionId not provided", async () => {
       const inspectSpy = toolDiscovery.inspectToolResponse;
       inspectSpy.mockResolvedValue({
@@ -5,6 +5,7 @@ import { $inject } from "../container/decorators.js";
 import { TYPES } from "../types/index.js";
 import type { ITool, ToolExecutionContext } from "./base-tool.js";
 import { ToolDiscoveryService } from "@my-cool-proxy/mcp-aggregation";
+import type { IExecutionHistory } from "../types/interfaces.js";
 
 /**
  * Tool that inspects a tool's response structure by making a sample call.
@@ -47,18 +48,52 @@ export class InspectToolResponseTool implements ITool {
   constructor(
     @$inject(TYPES.ToolDiscoveryService)
     private toolDiscovery: ToolDiscoveryService,
+    @$inject(TYPES.ExecutionHistory)
+    private executionHistory: IExecutionHistory,
   ) {}
 
   async execute(
     args: Record<string, unknown>,
     context: ToolExecutionContext,
   ): Promise<CallToolResult> {
-    const { luaServerName, luaToolName, sampleArgs } = args;
-    return this.toolDiscovery.inspectToolResponse(
+    const { luaServerName, luaToolName } = args;
+    const sampleArgs = (args.sampleArgs as Record<string, unknown>) || {};
+    const sessionId = context.sessionId || "default";
+    const startedAt = Date.now();
+
+    const result = await this.toolDiscovery.inspectToolResponse(
       luaServerName as string,
       luaToolName as string,
-      (sampleArgs as Record<string, unknown>) || {},
-      context.sessionId || "default",
+      sampleArgs,
+      sessionId,
     );
+
+    // The sample call is recorded with the Lua names it was made with
+    const durationMs = Date.now() - startedAt;
+    const error = result.isError
+      ? result.content
+          .flatMap((block) => (block.type === "text" ? [block.text] : []))
+          .join("\n")
+      : undefined;
+    this.executionHistory.record(sessionId, {
+      tool: "inspect-tool-response",
+      args: { luaServerName, luaToolName, sampleArgs },
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs,
+      toolCalls: [
+        {
+          server: luaServerName as string,
+          tool: luaToolName as string,
+          args: sampleArgs,
+          durationMs,
+          ...(error !== undefined && { error }),
+        },
+      ],
+      ...(error !== undefined
+        ? { error }
+        : { resultBytes: Buffer.byteLength(JSON.stringify(result)) }),
+    });
+
+    return result;
   }
 }
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TestBed } from "@suites/unit";
+import { ListScriptsTool } from "./list-scripts-tool.js";
+import { TYPES } from "../types/index.js";
+
+describe("ListScriptsTool", () => {
+  let tool: ListScriptsTool;
+  let scriptLibrary: ReturnType<typeof unitRef.get>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let unitRef: any;
+
+  beforeEach(async () => {
+    const { unit, unitRef: ref } =
+      await TestBed.solitary(ListScriptsTool).compile();
+    tool = unit;
+    unitRef = ref;
+    scriptLibrary = unitRef.get(TYPES.ScriptLibrary);
+  });
+
+  it("should have correct name and no parameters", () => {
+    expect(tool.name).toBe("list-scripts");
+    expect(tool.schema).toEqual({});
+  });
+
+  it("should list saved scripts with their input schemas", async () => {
+    scriptLibrary.list.mockReturnValue([
+      {
+        name: "open-issues",
+        description: "Lists open issues",
+        language: "lua",
+        inputSchema: { type: "object", required: ["repo"] },
+        script: "",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        savedBy: "session-a",
+      },
+      {
+        name: "summary",
+        description: "Summarizes",
+        language: "javascript",
+        script: "",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      },
+    ]);
+
+    const result = await tool.execute();
+
+    expect(result.content[0]).toHaveProperty(
+      "text",
+      "Saved scripts (2):\n\n" +
+        "open-issues (lua)\n" +
+        "  Lists open issues\n" +
+        '  Input schema: {"type":"object","required":["repo"]}\n' +
+        "  Updated: 2026-01-01T00:00:00.000Z by session session-a\n\n" +
+        "summary (javascript)\n" +
+        "  Summarizes\n" +
+        "  Input schema: none (any object)\n" +
+        "  Updated: 2026-01-02T00:00:00.000Z",
+    );
+  });
+
+  it("should point to save-script when the library is empty", async () => {
+    scriptLibrary.list.mockReturnValue([]);
+
+    const result = await tool.execute();
+
+    expect(result.content[0]).toHaveProperty(
+      "text",
+      expect.stringContaining("No saved scripts"),
+    );
+  });
+});
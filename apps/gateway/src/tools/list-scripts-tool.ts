@@ -0,0 +1,62 @@
+import { injectable } from "inversify";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+import type { ITool } from "./base-tool.js";
+import type { ILogger, IScriptLibrary } from "../types/interfaces.js";
+
+/**
+ * Tool that lists the scripts in the gateway's script library, with their
+ * descriptions and input schemas.
+ */
+@injectable()
+export class ListScriptsTool implements ITool {
+  readonly name = "list-scripts";
+  readonly description =
+    "List the scripts saved with save-script, with their description, language and the JSON Schema of " +
+    "their input. Check this before writing an execute script for a recurring task: a saved script can be " +
+    "run directly with run-script.";
+  readonly schema = {};
+
+  constructor(
+    @$inject(TYPES.ScriptLibrary) private scriptLibrary: IScriptLibrary,
+    @$inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async execute(): Promise<CallToolResult> {
+    try {
+      const scripts = this.scriptLibrary.list();
+      if (scripts.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No saved scripts. Save a working execute script with save-script to reuse it.",
+            },
+          ],
+        };
+      }
+
+      const lines = [`Saved scripts (${scripts.length}):`];
+      for (const script of scripts) {
+        lines.push(
+          "",
+          `${script.name} (${script.language})`,
+          `  ${script.description}`,
+          `  Input schema: ${script.inputSchema ? JSON.stringify(script.inputSchema) : "none (any object)"}`,
+          `  Updated: ${script.updatedAt}${script.savedBy ? ` by session ${script.savedBy}` : ""}`,
+        );
+      }
+
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    } catch (error) {
+      this.logger.error("Failed to list saved scripts", error as Error);
+      return {
+        content: [
+          { type: "text", text: `Failed to list saved scripts: ${error}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+}
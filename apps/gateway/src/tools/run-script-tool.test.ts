@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TestBed } from "@suites/unit";
+import { RunScriptTool } from "./run-script-tool.js";
+import { TYPES } from "../types/index.js";
+import type { SavedScript } from "../types/interfaces.js";
+
+const savedScript: SavedScript = {
+  name: "open-issues",
+  description: "Lists open issues",
+  language: "javascript",
+  inputSchema: {
+    type: "object",
+    properties: { repo: { type: "string" } },
+    required: ["repo"],
+  },
+  script: "return input.repo;",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("RunScriptTool", () => {
+  let tool: RunScriptTool;
+  let scriptLibrary: ReturnType<typeof unitRef.get>;
+  let executeTool: ReturnType<typeof unitRef.get>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let unitRef: any;
+
+  beforeEach(async () => {
+    const { unit, unitRef: ref } =
+      await TestBed.solitary(RunScriptTool).compile();
+    tool = unit;
+    unitRef = ref;
+    scriptLibrary = unitRef.get(TYPES.ScriptLibrary);
+    executeTool = unitRef.get(TYPES.ExecuteTool);
+  });
+
+  it("should have correct name", () => {
+    expect(tool.name).toBe("run-script");
+  });
+
+  it("should run the saved script through the execute tool", async () => {
+    scriptLibrary.get.mockReturnValue(savedScript);
+    const executeResult = {
+      content: [{ type: "text" as const, text: "octo/app" }],
+    };
+    executeTool.execute.mockResolvedValue(executeResult);
+    const context = { sessionId: "test" };
+
+    const result = await tool.execute(
+      {
+        name: "open-issues",
+        input: { repo: "octo/app" },
+        limits: { timeoutMs: 1000 },
+      },
+      context,
+    );
+
+    expect(scriptLibrary.get).toHaveBeenCalledWith("open-issues");
+    expect(executeTool.execute).toHaveBeenCalledWith(
+      {
+        script: "return input.repo;",
+        language: "javascript",
+        input: { repo: "octo/app" },
+        limits: { timeoutMs: 1000 },
+      },
+      context,
+    );
+    expect(result).toBe(executeResult);
+  });
+
+  it("should reject input that doesn't match the input schema", async () => {
+    scriptLibrary.get.mockReturnValue(savedScript);
+
+    const result = await tool.execute(
+      { name: "open-issues", input: { repo: 42 } },
+      { sessionId: "test" },
+    );
+
+    expect(executeTool.execute).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toHaveProperty(
+      "text",
+      expect.stringMatching(
+        /^Invalid input for script 'open-issues':\n.*expected string.*\n.*at repo/,
+      ),
+    );
+  });
+
+  it("should list the saved scripts when the name is unknown", async () => {
+    scriptLibrary.get.mockReturnValue(undefined);
+    scriptLibrary.list.mockReturnValue([savedScript]);
+
+    const result = await tool.execute(
+      { name: "open-isues" },
+      { sessionId: "test" },
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toHaveProperty(
+      "text",
+      "Saved script 'open-isues' not found.\n\nSaved scripts: open-issues",
+    );
+  });
+});
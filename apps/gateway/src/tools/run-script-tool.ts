@@ -0,0 +1,83 @@
+import { injectable } from "inversify";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+import type { ITool, ToolExecutionContext } from "./base-tool.js";
+import type { IScriptLibrary } from "../types/interfaces.js";
+import { createInputSchema } from "../utils/input-schema.js";
+import { scriptLimitsSchema } from "./execute-lua-tool.js";
+
+/**
+ * Tool that runs a script from the gateway's script library.
+ *
+ * The input is checked against the script's input schema, then the script
+ * runs through the execute tool, so it gets the same globals, limits and
+ * result handling as a script passed to execute.
+ */
+@injectable()
+export class RunScriptTool implements ITool {
+  readonly name = "run-script";
+  readonly description =
+    "Run a script saved with save-script, by name. The input is checked against the script's input schema " +
+    "and passed to the script as the global 'input'; the result is returned as execute would return it. " +
+    "Use list-scripts to see the saved scripts and their input schemas.";
+
+  readonly schema = {
+    name: z.string().describe("Name of the saved script"),
+    input: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe("JSON object matching the script's input schema"),
+    limits: scriptLimitsSchema,
+  };
+
+  constructor(
+    @$inject(TYPES.ScriptLibrary) private scriptLibrary: IScriptLibrary,
+    @$inject(TYPES.ExecuteTool) private executeTool: ITool,
+  ) {}
+
+  async execute(
+    args: Record<string, unknown>,
+    context: ToolExecutionContext,
+  ): Promise<CallToolResult> {
+    const { name, input, limits } = args;
+
+    const saved = this.scriptLibrary.get(name as string);
+    if (!saved) {
+      const names = this.scriptLibrary.list().map((script) => script.name);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Saved script '${name}' not found.\n\nSaved scripts: ${names.length > 0 ? names.join(", ") : "none"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const checked = createInputSchema(saved.inputSchema).safeParse(input ?? {});
+    if (!checked.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Invalid input for script '${saved.name}':\n${z.prettifyError(checked.error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return this.executeTool.execute(
+      {
+        script: saved.script,
+        language: saved.language,
+        input: input ?? {},
+        limits,
+      },
+      context,
+    );
+  }
+}
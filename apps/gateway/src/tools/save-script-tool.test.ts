@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TestBed } from "@suites/unit";
+import { SaveScriptTool } from "./save-script-tool.js";
+import { TYPES } from "../types/index.js";
+
+describe("SaveScriptTool", () => {
+  let tool: SaveScriptTool;
+  let scriptLibrary: ReturnType<typeof unitRef.get>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let unitRef: any;
+
+  beforeEach(async () => {
+    const { unit, unitRef: ref } =
+      await TestBed.solitary(SaveScriptTool).compile();
+    tool = unit;
+    unitRef = ref;
+    scriptLibrary = unitRef.get(TYPES.ScriptLibrary);
+  });
+
+  it("should have correct name", () => {
+    expect(tool.name).toBe("save-script");
+  });
+
+  it("should save the script, defaulting to Lua", async () => {
+    scriptLibrary.save.mockImplementation(
+      (script: Record<string, unknown>) => ({
+        ...script,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+    );
+    const inputSchema = {
+      type: "object",
+      properties: { repo: { type: "string" } },
+    };
+
+    const result = await tool.execute(
+      {
+        name: "open-issues",
+        description: "Lists open issues",
+        script: "result(input.repo)",
+        inputSchema,
+      },
+      { sessionId: "test" },
+    );
+
+    expect(scriptLibrary.save).toHaveBeenCalledWith(
+      {
+        name: "open-issues",
+        description: "Lists open issues",
+        language: "lua",
+        inputSchema,
+        script: "result(input.repo)",
+        savedBy: "test",
+      },
+      { overwrite: false },
+    );
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]).toHaveProperty(
+      "text",
+      expect.stringContaining("Saved script 'open-issues'"),
+    );
+  });
+
+  it("should report scripts the library rejects", async () => {
+    scriptLibrary.save.mockImplementation(() => {
+      throw new Error("Invalid script name '../x'");
+    });
+
+    const result = await tool.execute(
+      { name: "../x", description: "", script: "" },
+      { sessionId: "test" },
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toHaveProperty(
+      "text",
+      "Failed to save script '../x': Invalid script name '../x'",
+    );
+  });
+
+  it("should pass overwrite to the library", async () => {
+    scriptLibrary.save.mockImplementation(
+      (script: Record<string, unknown>) => ({
+        ...script,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+    );
+
+    await tool.execute(
+      { name: "count", description: "", script: "", overwrite: true },
+      { sessionId: "test" },
+    );
+
+    expect(scriptLibrary.save).toHaveBeenCalledWith(expect.anything(), {
+      overwrite: true,
+    });
+  });
+});
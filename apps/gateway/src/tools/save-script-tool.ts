@@ -0,0 +1,103 @@
+import { injectable } from "inversify";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod";
+import { $inject } from "../container/decorators.js";
+import { TYPES } from "../types/index.js";
+import type { ITool, ToolExecutionContext } from "./base-tool.js";
+import type {
+  ILogger,
+  IScriptLibrary,
+  SavedScript,
+} from "../types/interfaces.js";
+
+/**
+ * Tool that saves a script to the gateway's script library.
+ *
+ * Saved scripts outlive the session, so an agent can reuse an orchestration
+ * script in later conversations with run-script instead of rewriting it.
+ */
+@injectable()
+export class SaveScriptTool implements ITool {
+  readonly name = "save-script";
+  readonly description =
+    "Save a working execute script to the gateway's script library so that it can be run again later, " +
+    "also in other conversations, with run-script. Saving under an existing name fails unless overwrite is true; " +
+    "scripts are shared by all sessions, so check list-scripts to see who saved it before replacing it.\n\n" +
+    "Write the script to take its parameters from the read-only global 'input' rather than hard-coding them, " +
+    "and describe that input with inputSchema (a JSON Schema of type object) so that run-script can check it. " +
+    "Use list-scripts to see what is already saved before writing a new script.";
+
+  readonly schema = {
+    name: z
+      .string()
+      .describe(
+        "Name of the script: letters, digits, '-' and '_' (e.g. 'weekly-report')",
+      ),
+    description: z
+      .string()
+      .describe("What the script does and what it returns"),
+    script: z.string().describe("Source of the script, as passed to execute"),
+    language: z
+      .enum(["lua", "javascript"])
+      .optional()
+      .describe('Language of the script (default "lua")'),
+    inputSchema: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe(
+        "JSON Schema of type object describing the script's input, e.g. " +
+          '{"type": "object", "properties": {"repo": {"type": "string"}}, "required": ["repo"]}',
+      ),
+    overwrite: z
+      .boolean()
+      .optional()
+      .describe("Replace a script already saved under this name"),
+  };
+
+  constructor(
+    @$inject(TYPES.ScriptLibrary) private scriptLibrary: IScriptLibrary,
+    @$inject(TYPES.Logger) private logger: ILogger,
+  ) {}
+
+  async execute(
+    args: Record<string, unknown>,
+    context: ToolExecutionContext,
+  ): Promise<CallToolResult> {
+    const { name, description, script, language, inputSchema, overwrite } =
+      args;
+
+    try {
+      const saved = this.scriptLibrary.save(
+        {
+          name: name as string,
+          description: description as string,
+          language: (language as SavedScript["language"] | undefined) ?? "lua",
+          inputSchema: inputSchema as Record<string, unknown> | undefined,
+          script: script as string,
+          savedBy: context.sessionId || "default",
+        },
+        { overwrite: overwrite === true },
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Saved script '${saved.name}'. Run it with run-script, e.g. { "name": "${saved.name}", "input": { ... } }.`,
+          },
+        ],
+      };
+    } catch (error) {
+      this.logger.error(`Failed to save script '${name}'`, error as Error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to save script '${name}': ${error instanceof Error ? error.message : error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from "vitest";
+import * as z from "zod";
+import { SavedScriptTool } from "./saved-script-tool.js";
+import type { ITool } from "./base-tool.js";
+
+describe("SavedScriptTool", () => {
+  const executeTool = {
+    name: "execute",
+    description: "",
+    schema: {},
+    execute: vi.fn(),
+  } satisfies ITool;
+
+  const tool = new SavedScriptTool(
+    {
+      name: "weekly-report",
+      description: "Summarizes the week's activity",
+      language: "lua",
+      inputSchema: {
+        type: "object",
+        properties: { team: { type: "string", description: "Team name" } },
+        required: ["team"],
+      },
+      script: "result(input.team)",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    },
+    executeTool,
+  );
+
+  it("should take the name and description of the script", () => {
+    expect(tool.name).toBe("weekly-report");
+    expect(tool.description).toBe("Summarizes the week's activity");
+  });
+
+  it("should take the script's input as its arguments", () => {
+    const schema = z.object(tool.schema as z.ZodRawShape);
+
+    expect(schema.safeParse({ team: "core" }).success).toBe(true);
+    expect(schema.safeParse({}).success).toBe(false);
+    expect(z.toJSONSchema(schema).properties).toEqual({
+      team: { type: "string", description: "Team name" },
+    });
+  });
+
+  it("should run the script with its arguments as input", async () => {
+    executeTool.execute.mockResolvedValue({ content: [] });
+    const context = { sessionId: "test" };
+
+    await tool.execute({ team: "core" }, context);
+
+    expect(executeTool.execute).toHaveBeenCalledWith(
+      {
+        script: "result(input.team)",
+        language: "lua",
+        input: { team: "core" },
+      },
+      context,
+    );
+  });
+});
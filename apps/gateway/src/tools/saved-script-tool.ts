@@ -0,0 +1,41 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ITool, ToolExecutionContext } from "./base-tool.js";
+import type { SavedScript } from "../types/interfaces.js";
+import { createInputSchema } from "../utils/input-schema.js";
+
+/**
+ * A saved script exposed as a top-level tool, for the scripts listed in the
+ * `scripts.tools` config.
+ *
+ * The tool is named after the script and takes the script's input as its
+ * arguments, so a trusted workflow can be called like any other tool. It is
+ * created from the script as it was when the gateway started.
+ */
+export class SavedScriptTool implements ITool {
+  readonly name: string;
+  readonly description: string;
+  readonly schema: Record<string, unknown>;
+
+  constructor(
+    private script: SavedScript,
+    private executeTool: ITool,
+  ) {
+    this.name = script.name;
+    this.description = script.description;
+    this.schema = createInputSchema(script.inputSchema).shape;
+  }
+
+  async execute(
+    args: Record<string, unknown>,
+    context: ToolExecutionContext,
+  ): Promise<CallToolResult> {
+    return this.executeTool.execute(
+      {
+        script: this.script.script,
+        language: this.script.language,
+        input: args,
+      },
+      context,
+    );
+  }
+}
@@ -62,6 +62,30 @@ describe("ToolDetailsTool", () => {
         "github",
         "search_issues",
         "test-session",
+        "lua",
+      );
+    });
+
+    it("should pass the requested language for the usage example", async () => {
+      const detailsSpy = toolDiscovery.getToolDetails;
+      detailsSpy.mockResolvedValue({
+        content: [{ type: "text" as const, text: "Tool details" }],
+      });
+
+      await tool.execute(
+        {
+          luaServerName: "github",
+          luaToolName: "search_issues",
+          language: "javascript",
+        },
+        { sessionId: "test-session" },
+      );
+
+      expect(detailsSpy).toHaveBeenCalledWith(
+        "github",
+        "search_issues",
+        "test-session",
+        "javascript",
       );
     });
 
@@ -82,6 +106,7 @@ describe("ToolDetailsTool", () => {
         "my_server",
         "my_tool",
         "default",
+        "lua",
       );
     });
 
@@ -102,6 +127,7 @@ describe("ToolDetailsTool", () => {
         "example_server",
         "example_tool",
         "default",
+        "lua",
       );
     });
 
@@ -262,6 +288,7 @@ describe("ToolDetailsTool", () => {
         "test_server",
         "test_tool",
         "test",
+        "lua",
       );
     });
   });
@@ -4,7 +4,10 @@ import * as z from "zod";
 import { $inject } from "../container/decorators.js";
 import { TYPES } from "../types/index.js";
 import type { ITool, ToolExecutionContext } from "./base-tool.js";
-import { ToolDiscoveryService } from "@my-cool-proxy/mcp-aggregation";
+import {
+  ToolDiscoveryService,
+  type ScriptLanguage,
+} from "@my-cool-proxy/mcp-aggregation";
 
 /**
  * Tool that provides detailed information about a specific tool on an MCP server.
@@ -25,6 +28,12 @@ export class ToolDetailsTool implements ITool {
   readonly schema = {
     luaServerName: z.string().describe("The Lua identifier of the MCP server"),
     luaToolName: z.string().describe("The Lua identifier of the tool"),
+    language: z
+      .enum(["lua", "javascript"])
+      .optional()
+      .describe(
+        'Language of the usage example; match the language you pass to execute (default "lua")',
+      ),
   };
 
   constructor(
@@ -36,11 +45,12 @@ export class ToolDetailsTool implements ITool {
     args: Record<string, unknown>,
     context: ToolExecutionContext,
   ): Promise<CallToolResult> {
-    const { luaServerName, luaToolName } = args;
+    const { luaServerName, luaToolName, language } = args;
     return this.toolDiscovery.getToolDetails(
       luaServerName as string,
       luaToolName as string,
       context.sessionId || "default",
+      (language as ScriptLanguage | undefined) ?? "lua",
     );
   }
 }
@@ -4,6 +4,7 @@
  */
 export const TYPES = {
   LuaRuntime: "LuaRuntime",
+  JavaScriptRuntime: "JavaScriptRuntime",
   MCPClientManager: "MCPClientManager",
   SessionStore: "SessionStore",
   AuthStrategy: "AuthStrategy",
@@ -19,5 +20,11 @@ export const TYPES = {
   Tool: "Tool",
   ToolRegistry: "ToolRegistry",
   CapabilityStore: "CapabilityStore",
+  SessionStateStore: "SessionStateStore",
   ServerInfoPreloader: "ServerInfoPreloader",
+  ScriptLibrary: "ScriptLibrary",
+  ExecuteTool: "ExecuteTool",
+  LuaServerFactory: "LuaServerFactory",
+  ExecutionHistory: "ExecutionHistory",
+  InspectTool: "InspectTool",
 } as const;
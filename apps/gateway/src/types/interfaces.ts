@@ -1,9 +1,174 @@
 import type { MCPClientSession } from "@my-cool-proxy/mcp-client";
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * Resource limits for a single Lua script execution.
+ * Omitted fields fall back to the runtime defaults.
+ */
+export interface ScriptLimitsConfig {
+  /** Wall-clock deadline for the whole script, in milliseconds */
+  timeoutMs?: number;
+  /** Maximum number of Lua VM instructions */
+  maxInstructions?: number;
+  /** Maximum memory the Lua state may allocate, in bytes */
+  maxMemoryBytes?: number;
+}
+
+/**
+ * Quotas for the per-session state store exposed to Lua as `state`.
+ * Omitted fields fall back to the store defaults.
+ */
+export interface SessionStateConfig {
+  /** Maximum total size of keys and JSON-encoded values, in bytes */
+  maxBytesPerSession?: number;
+  /** Maximum number of keys */
+  maxKeysPerSession?: number;
+}
+
+/**
+ * Size limit of execute results. Larger results are stored as a gateway
+ * resource and returned as a preview with a link to it.
+ */
+export interface ResultSizeConfig {
+  /** Largest result returned inline, in bytes of JSON */
+  maxBytes?: number;
+  /** Length of the preview returned instead, in characters */
+  previewChars?: number;
+}
+
+/**
+ * On-disk library of saved scripts
+ */
+export interface ScriptLibraryConfig {
+  /** Directory the scripts are stored in; defaults to the platform data directory */
+  directory?: string;
+  /** Saved scripts exposed as top-level tools, by name */
+  tools?: string[];
+}
+
+/**
+ * Size of the per-session execution history
+ */
+export interface ExecutionHistoryConfig {
+  /** Entries kept per session; older entries are dropped first */
+  maxEntriesPerSession?: number;
+}
+
+/**
+ * Key/value store of one session, exposed to Lua as `state`
+ */
+export interface IScriptState {
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+  delete(key: string): boolean;
+  keys(): string[];
+}
+
+/**
+ * Progress reported by a script or by one of its upstream tool calls
+ */
+export interface ScriptProgress {
+  message?: string;
+  current?: number;
+  total?: number;
+  /** Set when the update came from an upstream tool call */
+  server?: string;
+  tool?: string;
+}
+
+/**
+ * A message written by a script with print() or log()
+ */
+export interface ScriptLogEntry {
+  level: "debug" | "info" | "warn" | "error";
+  message: string;
+}
+
+/**
+ * A tool call a script sent upstream, reported once it has finished
+ */
+export interface CompletedToolCall {
+  /** Original server and tool names */
+  server: string;
+  tool: string;
+  args: Record<string, unknown>;
+  durationMs: number;
+  /** Set when the call threw or returned an error result */
+  error?: string;
+}
+
+/**
+ * Details of a script that failed with a Lua error, carried by the runtime's
+ * ScriptError as `details`
+ */
+export interface ScriptErrorDetails {
+  message: string;
+  /** 1-based line and column in the script, when known */
+  line?: number;
+  column?: number;
+  /** Source lines around the failing line */
+  codeFrame?: string;
+  /** The tool call that raised the error, with original names */
+  toolCall?: { server: string; tool: string; args: Record<string, unknown> };
+  resultCalled: boolean;
+  result?: unknown;
+}
+
+/**
+ * A problem the runtime's pre-flight analysis found in a script, carried by
+ * its ScriptAnalysisError as `diagnostics`
+ */
+export interface ScriptDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+  line: number;
+  column: number;
+  /** Close match for a misspelled reference */
+  suggestion?: string;
+}
+
+export interface ScriptExecutionOptions {
+  /** Per-call limits; these can only tighten the configured limits */
+  limits?: ScriptLimitsConfig;
+  /** Aborting stops the script and cancels its in-flight upstream calls */
+  signal?: AbortSignal;
+  /** Receives progress from progress() and from upstream tool calls */
+  onProgress?: (progress: ScriptProgress) => void;
+  /** Receives print() and log() output, bounded by the runtime */
+  onLog?: (entry: ScriptLogEntry) => void;
+  /** Receives each upstream tool call once it has finished */
+  onToolCall?: (call: CompletedToolCall) => void;
+  /** Handles sample() calls; omitted when the client lacks sampling */
+  sample?: (
+    params: CreateMessageRequest["params"],
+  ) => Promise<CreateMessageResult>;
+  /** Handles elicit() calls; omitted when the client lacks elicitation */
+  elicit?: (params: ElicitRequest["params"]) => Promise<ElicitResult>;
+  /** Backs the state global; persists between executions */
+  state?: IScriptState;
+  /** JSON object exposed to the script as the read-only global input */
+  input?: Record<string, unknown>;
+  /** Reads gateway-hosted resources for read_resource() */
+  readResource?: (uri: string) => Promise<ReadResourceResult>;
+  /** Session of the execution; pooled engines are not shared between sessions */
+  sessionId?: string;
+  /** Sent as the _meta of every upstream tool call */
+  toolCallMeta?: Record<string, unknown>;
+}
 
 export interface ILuaRuntime {
   executeScript(
     script: string,
     mcpServers: Map<string, MCPClientSession>,
+    options?: ScriptExecutionOptions,
   ): Promise<unknown>;
 }
 
@@ -31,6 +196,12 @@ export interface IMCPClientManager {
     allowedTools?: string[],
     clientCapabilities?: DownstreamCapabilities,
   ): Promise<ClientConnectionResult>;
+  addInMemoryClient(
+    name: string,
+    server: McpServer,
+    sessionId: string,
+    clientCapabilities?: DownstreamCapabilities,
+  ): Promise<ClientConnectionResult>;
   getClient(name: string, sessionId: string): Promise<MCPClientSession>;
   getClientsBySession(sessionId: string): Map<string, MCPClientSession>;
   /**
@@ -91,13 +262,46 @@ export interface MCPClientConfigStdio {
   allowedTools?: string[];
 }
 
-export type MCPClientConfig = MCPClientConfigHTTP | MCPClientConfigStdio;
+/**
+ * A tool of a `lua` server, implemented by a Lua script
+ */
+export interface LuaToolConfig {
+  name: string;
+  description: string;
+  /** JSON Schema of type object for the tool's arguments, which the script gets as `input` */
+  inputSchema?: Record<string, unknown>;
+  script: string;
+}
+
+/**
+ * A virtual server whose tools are Lua scripts calling the other servers
+ */
+export interface MCPClientConfigLua {
+  type: "lua";
+  /** Shown by list-servers */
+  description?: string;
+  tools: LuaToolConfig[];
+}
+
+export type MCPClientConfig =
+  | MCPClientConfigHTTP
+  | MCPClientConfigStdio
+  | MCPClientConfigLua;
 
 export interface ServerConfig {
   port?: number;
   host?: string;
   transport?: "http" | "stdio";
   mcpClients: Record<string, MCPClientConfig>;
+  scriptLimits?: ScriptLimitsConfig;
+  sessionState?: SessionStateConfig;
+  resultSize?: ResultSizeConfig;
+  /** Checking of tool output against outputSchema; defaults to "warn" */
+  outputValidation?: "off" | "warn" | "strict";
+  /** Idle Lua engines kept between executions; defaults to 2 */
+  enginePoolSize?: number;
+  scripts?: ScriptLibraryConfig;
+  executionHistory?: ExecutionHistoryConfig;
 }
 
 export interface ILogger {
@@ -156,6 +360,21 @@ export interface DownstreamCapabilities {
   };
 }
 
+/**
+ * Sends requests to the downstream client of a single session.
+ * Implemented by MCPGatewayServer, which is created once per session.
+ */
+export interface IDownstreamRequester {
+  forwardSamplingRequest(
+    params: CreateMessageRequest["params"],
+    options?: RequestOptions,
+  ): Promise<CreateMessageResult>;
+  forwardElicitationRequest(
+    params: ElicitRequest["params"],
+    options?: RequestOptions,
+  ): Promise<ElicitResult>;
+}
+
 /**
  * Store for tracking downstream client capabilities per session.
  * Used to determine what capabilities to advertise to upstream servers.
@@ -190,6 +409,127 @@ export interface ICapabilityStore {
   deleteCapabilities(sessionId: string): void;
 }
 
+/**
+ * Per-session key/value storage that lets Lua scripts keep state between
+ * execute calls.
+ */
+export interface ISessionStateStore {
+  /**
+   * Get the state of a session, creating it on first write.
+   */
+  forSession(sessionId: string): IScriptState;
+
+  /**
+   * Remove all state for a session (cleanup).
+   */
+  deleteSession(sessionId: string): void;
+}
+
+/**
+ * A recorded execute or inspect-tool-response call
+ */
+export interface ExecutionHistoryEntry {
+  /** Sequential within the session, starting at 1 */
+  id: number;
+  tool: "execute" | "inspect-tool-response";
+  /** Arguments of the call, enough to run it again */
+  args: Record<string, unknown>;
+  /** ISO 8601 time the call started */
+  startedAt: string;
+  durationMs: number;
+  toolCalls: CompletedToolCall[];
+  /** Size of the result in bytes of JSON, when the call succeeded */
+  resultBytes?: number;
+  /** Why the call failed */
+  error?: string;
+}
+
+/**
+ * Per-session history of execute and inspect-tool-response calls, so that
+ * agents and operators can see what was already tried in a session.
+ */
+export interface IExecutionHistory {
+  /**
+   * Add an entry to a session's history, assigning its ID. The oldest entry
+   * is dropped once the session holds the maximum number of entries.
+   */
+  record(
+    sessionId: string,
+    entry: Omit<ExecutionHistoryEntry, "id">,
+  ): ExecutionHistoryEntry;
+
+  /**
+   * Get a session's entries, oldest first.
+   */
+  list(sessionId: string): ExecutionHistoryEntry[];
+
+  /**
+   * Get an entry by ID.
+   */
+  get(sessionId: string, id: number): ExecutionHistoryEntry | undefined;
+
+  /**
+   * Remove a session's history (cleanup).
+   */
+  deleteSession(sessionId: string): void;
+}
+
+/**
+ * A script saved with save-script, run by name with run-script
+ */
+export interface SavedScript {
+  name: string;
+  description: string;
+  language: "lua" | "javascript";
+  /** JSON Schema of the script's `input` */
+  inputSchema?: Record<string, unknown>;
+  script: string;
+  /** ISO 8601 time of the last save */
+  updatedAt: string;
+  /** Session that saved the script last, if it was saved through save-script */
+  savedBy?: string;
+}
+
+/**
+ * Saved scripts shared by all sessions, so that agents can reuse
+ * orchestration scripts across conversations.
+ */
+export interface IScriptLibrary {
+  /**
+   * Save a script. A script with the same name is only replaced when
+   * `overwrite` is set.
+   */
+  save(
+    script: Omit<SavedScript, "updatedAt">,
+    options?: { overwrite?: boolean },
+  ): SavedScript;
+
+  /**
+   * Get a script by name.
+   */
+  get(name: string): SavedScript | undefined;
+
+  /**
+   * Get all saved scripts, sorted by name.
+   */
+  list(): SavedScript[];
+}
+
+/**
+ * Creates the in-process MCP servers behind `lua` entries of mcpClients
+ */
+export interface ILuaServerFactory {
+  /**
+   * Create the server for one session. Its tools run their scripts with the
+   * session's servers.
+   */
+  create(
+    name: string,
+    config: MCPClientConfigLua,
+    sessionId: string,
+  ): McpServer;
+}
+
 /**
  * Preloaded server information gathered at startup.
  * Used to populate gateway instructions before downstream clients connect.
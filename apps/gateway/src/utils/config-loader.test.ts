@@ -215,7 +215,7 @@ describe("loadConfig", () => {
     process.env.CONFIG_PATH = testConfigPath;
 
     expect(() => loadConfig()).toThrow(
-      /has invalid type. Must be 'http' or 'stdio'/,
+      /has invalid type. Must be 'http', 'stdio' or 'lua'/,
     );
   });
 
@@ -236,6 +236,80 @@ describe("loadConfig", () => {
     );
   });
 
+  it("should load a lua client with its tools", () => {
+    const testConfig: ServerConfig = {
+      port: 3000,
+      host: "localhost",
+      transport: "http",
+      mcpClients: {
+        curated: {
+          type: "lua",
+          description: "Curated tools",
+          tools: [
+            {
+              name: "open_issues",
+              description: "Lists open issues",
+              inputSchema: {
+                type: "object",
+                properties: { repo: { type: "string" } },
+              },
+              script:
+                "result(github.list_issues({ repo = input.repo }):await())",
+            },
+          ],
+        },
+      },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(testConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(loadConfig()).toEqual(testConfig);
+  });
+
+  it.each([
+    [{ type: "lua" }, /must specify 'tools' as a non-empty array/],
+    [
+      { type: "lua", tools: [{ name: "a", description: "" }] },
+      /invalid tool at index 0/,
+    ],
+    [
+      {
+        type: "lua",
+        tools: [
+          { name: "a", description: "", script: "" },
+          { name: "a", description: "", script: "" },
+        ],
+      },
+      /more than one tool named 'a'/,
+    ],
+    [
+      {
+        type: "lua",
+        tools: [
+          {
+            name: "a",
+            description: "",
+            script: "",
+            inputSchema: { type: "array" },
+          },
+        ],
+      },
+      /tool 'a' has an invalid 'inputSchema'/,
+    ],
+  ])("should throw error for invalid lua client %j", (client, error) => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: { curated: client },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(error);
+  });
+
   it("should throw error if stdio client is missing command", () => {
     const invalidConfig = {
       port: 3000,
@@ -298,6 +372,151 @@ describe("loadConfig", () => {
     });
   });
 
+  it("should accept valid scriptLimits", () => {
+    const validConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      scriptLimits: { timeoutMs: 5000, maxInstructions: 1000000 },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(validConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    const config = loadConfig();
+    expect(config.scriptLimits).toEqual({
+      timeoutMs: 5000,
+      maxInstructions: 1000000,
+    });
+  });
+
+  it("should throw error if a scriptLimits value is not a positive number", () => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      scriptLimits: { maxMemoryBytes: -1 },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(
+      /'scriptLimits.maxMemoryBytes' must be a positive number/,
+    );
+  });
+
+  it("should accept valid sessionState quotas", () => {
+    const validConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      sessionState: { maxBytesPerSession: 65536 },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(validConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    const config = loadConfig();
+    expect(config.sessionState).toEqual({ maxBytesPerSession: 65536 });
+  });
+
+  it("should throw error if a sessionState value is not a positive number", () => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      sessionState: { maxKeysPerSession: "100" },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(
+      /'sessionState.maxKeysPerSession' must be a positive number/,
+    );
+  });
+
+  it("should throw error if executionHistory.maxEntriesPerSession is not a positive integer", () => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      executionHistory: { maxEntriesPerSession: 2.5 },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(
+      /'executionHistory.maxEntriesPerSession' must be a positive integer/,
+    );
+  });
+
+  it("should throw error if a resultSize value is not a positive number", () => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      resultSize: { maxBytes: 0 },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(
+      /'resultSize.maxBytes' must be a positive number/,
+    );
+  });
+
+  it("should throw error if outputValidation is not a known mode", () => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      outputValidation: "error",
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(
+      /'outputValidation' must be 'off', 'warn' or 'strict'/,
+    );
+  });
+
+  it("should throw error if enginePoolSize is not a non-negative integer", () => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      enginePoolSize: 1.5,
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(
+      /'enginePoolSize' must be a non-negative integer/,
+    );
+  });
+
+  it("should throw error if scripts.tools is not an array of names", () => {
+    const invalidConfig = {
+      port: 3000,
+      host: "localhost",
+      mcpClients: {},
+      scripts: { tools: "weekly-report" },
+    };
+
+    writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+    process.env.CONFIG_PATH = testConfigPath;
+
+    expect(() => loadConfig()).toThrow(
+      /'scripts.tools' must be an array of script names/,
+    );
+  });
+
   it("should throw error if JSON is invalid", () => {
     writeFileSync(testConfigPath, "{ invalid json }");
     process.env.CONFIG_PATH = testConfigPath;
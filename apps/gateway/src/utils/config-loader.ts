@@ -2,6 +2,7 @@ import { mkdirSync, readFileSync, writeFileSync } from "fs";
 import { dirname } from "path";
 import type { ServerConfig } from "../types/interfaces.js";
 import { getActiveConfigPath, getPlatformConfigPath } from "./config-paths.js";
+import { createInputSchema } from "./input-schema.js";
 
 /**
  * Default configuration for first-time setup.
@@ -129,14 +130,19 @@ export function loadConfig(): ServerConfig {
             `MCP client '${name}' with type 'stdio' must specify 'command' as a string`,
           );
         }
+      } else if (clientConfig.type === "lua") {
+        validateLuaTools(name, clientConfig.tools);
       } else {
         throw new Error(
-          `MCP client '${name}' has invalid type. Must be 'http' or 'stdio'`,
+          `MCP client '${name}' has invalid type. Must be 'http', 'stdio' or 'lua'`,
         );
       }
 
-      // Validate allowedTools if provided
-      if (clientConfig.allowedTools !== undefined) {
+      // Validate allowedTools if provided (lua servers define their own tools)
+      if (
+        clientConfig.type !== "lua" &&
+        clientConfig.allowedTools !== undefined
+      ) {
         if (!Array.isArray(clientConfig.allowedTools)) {
           throw new Error(
             `MCP client '${name}' has invalid 'allowedTools'. Must be an array of strings`,
@@ -153,6 +159,154 @@ export function loadConfig(): ServerConfig {
       }
     }
 
+    // Validate scriptLimits if provided
+    if (config.scriptLimits !== undefined) {
+      if (
+        typeof config.scriptLimits !== "object" ||
+        config.scriptLimits === null ||
+        Array.isArray(config.scriptLimits)
+      ) {
+        throw new Error("Config 'scriptLimits' must be an object if specified");
+      }
+
+      for (const key of [
+        "timeoutMs",
+        "maxInstructions",
+        "maxMemoryBytes",
+      ] as const) {
+        const value = config.scriptLimits[key];
+        if (
+          value !== undefined &&
+          (typeof value !== "number" || !Number.isFinite(value) || value <= 0)
+        ) {
+          throw new Error(
+            `Config 'scriptLimits.${key}' must be a positive number if specified`,
+          );
+        }
+      }
+    }
+
+    // Validate sessionState quotas if provided
+    if (config.sessionState !== undefined) {
+      if (
+        typeof config.sessionState !== "object" ||
+        config.sessionState === null ||
+        Array.isArray(config.sessionState)
+      ) {
+        throw new Error("Config 'sessionState' must be an object if specified");
+      }
+
+      for (const key of ["maxBytesPerSession", "maxKeysPerSession"] as const) {
+        const value = config.sessionState[key];
+        if (
+          value !== undefined &&
+          (typeof value !== "number" || !Number.isFinite(value) || value <= 0)
+        ) {
+          throw new Error(
+            `Config 'sessionState.${key}' must be a positive number if specified`,
+          );
+        }
+      }
+    }
+
+    // Validate the execution history size if provided
+    if (config.executionHistory !== undefined) {
+      if (
+        typeof config.executionHistory !== "object" ||
+        config.executionHistory === null ||
+        Array.isArray(config.executionHistory)
+      ) {
+        throw new Error(
+          "Config 'executionHistory' must be an object if specified",
+        );
+      }
+
+      const value = config.executionHistory.maxEntriesPerSession;
+      if (
+        value !== undefined &&
+        (typeof value !== "number" || !Number.isInteger(value) || value <= 0)
+      ) {
+        throw new Error(
+          "Config 'executionHistory.maxEntriesPerSession' must be a positive integer if specified",
+        );
+      }
+    }
+
+    // Validate the result size limit if provided
+    if (config.resultSize !== undefined) {
+      if (
+        typeof config.resultSize !== "object" ||
+        config.resultSize === null ||
+        Array.isArray(config.resultSize)
+      ) {
+        throw new Error("Config 'resultSize' must be an object if specified");
+      }
+
+      for (const key of ["maxBytes", "previewChars"] as const) {
+        const value = config.resultSize[key];
+        if (
+          value !== undefined &&
+          (typeof value !== "number" || !Number.isFinite(value) || value <= 0)
+        ) {
+          throw new Error(
+            `Config 'resultSize.${key}' must be a positive number if specified`,
+          );
+        }
+      }
+    }
+
+    // Validate outputValidation if provided
+    if (
+      config.outputValidation !== undefined &&
+      !["off", "warn", "strict"].includes(config.outputValidation)
+    ) {
+      throw new Error(
+        "Config 'outputValidation' must be 'off', 'warn' or 'strict' if specified",
+      );
+    }
+
+    // Validate enginePoolSize if provided
+    if (
+      config.enginePoolSize !== undefined &&
+      (typeof config.enginePoolSize !== "number" ||
+        !Number.isInteger(config.enginePoolSize) ||
+        config.enginePoolSize < 0)
+    ) {
+      throw new Error(
+        "Config 'enginePoolSize' must be a non-negative integer if specified",
+      );
+    }
+
+    // Validate the script library if provided
+    if (config.scripts !== undefined) {
+      if (
+        typeof config.scripts !== "object" ||
+        config.scripts === null ||
+        Array.isArray(config.scripts)
+      ) {
+        throw new Error("Config 'scripts' must be an object if specified");
+      }
+
+      if (
+        config.scripts.directory !== undefined &&
+        typeof config.scripts.directory !== "string"
+      ) {
+        throw new Error(
+          "Config 'scripts.directory' must be a string if specified",
+        );
+      }
+
+      if (
+        config.scripts.tools !== undefined &&
+        (!Array.isArray(config.scripts.tools) ||
+          !config.scripts.tools.every((name) => typeof name === "string"))
+      ) {
+        throw new Error(
+          "Config 'scripts.tools' must be an array of script names if specified",
+        );
+      }
+    }
+
     return config;
   } catch (error) {
     // Re-throw with more context for parse errors
@@ -165,6 +319,52 @@ export function loadConfig(): ServerConfig {
   }
 }
 
+/**
+ * Validates the tools of a `lua` MCP client.
+ *
+ * @param name - The client's name in mcpClients
+ * @param tools - The client's tools
+ * @throws Error if a tool is missing a field or has an invalid input schema
+ */
+function validateLuaTools(name: string, tools: unknown): void {
+  if (!Array.isArray(tools) || tools.length === 0) {
+    throw new Error(
+      `MCP client '${name}' with type 'lua' must specify 'tools' as a non-empty array`,
+    );
+  }
+
+  const names = new Set<string>();
+  for (const [index, tool] of tools.entries()) {
+    if (
+      typeof tool !== "object" ||
+      tool === null ||
+      typeof tool.name !== "string" ||
+      typeof tool.description !== "string" ||
+      typeof tool.script !== "string"
+    ) {
+      throw new Error(
+        `MCP client '${name}' has an invalid tool at index ${index}. Each tool must have 'name', 'description' and 'script' strings`,
+      );
+    }
+    if (names.has(tool.name)) {
+      throw new Error(
+        `MCP client '${name}' has more than one tool named '${tool.name}'`,
+      );
+    }
+    names.add(tool.name);
+
+    if (tool.inputSchema !== undefined) {
+      try {
+        createInputSchema(tool.inputSchema);
+      } catch (error) {
+        throw new Error(
+          `MCP client '${name}' tool '${tool.name}' has an invalid 'inputSchema': ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+  }
+}
+
 /**
  * Merges environment variables into the config.
  * Environment variables take precedence over config file values.
@@ -7,6 +7,7 @@ import {
   getActiveConfigPath,
   getPlatformConfigDir,
   getPlatformConfigPath,
+  getPlatformDataDir,
 } from "./config-paths.js";
 
 describe("config-paths", () => {
@@ -170,4 +171,13 @@ describe("config-paths", () => {
       expect(path.startsWith(dir)).toBe(true);
     });
   });
+
+  describe("getPlatformDataDir", () => {
+    it("should return a directory path containing app name", () => {
+      const dir = getPlatformDataDir();
+
+      expect(dir).toContain("my-cool-proxy");
+      expect(dir).not.toContain("nodejs");
+    });
+  });
 });
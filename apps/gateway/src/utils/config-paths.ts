@@ -69,3 +69,14 @@ export function getPlatformConfigDir(): string {
 export function getPlatformConfigPath(): string {
   return resolve(paths.config, CONFIG_FILENAME);
 }
+
+/**
+ * Get the platform-specific data directory, e.g. for saved scripts.
+ *
+ * - Windows: %LOCALAPPDATA%\my-cool-proxy\Data
+ * - macOS: ~/Library/Application Support/my-cool-proxy
+ * - Linux: ~/.local/share/my-cool-proxy (respects $XDG_DATA_HOME)
+ */
+export function getPlatformDataDir(): string {
+  return paths.data;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { createInputSchema } from "./input-schema.js";
+
+describe("createInputSchema", () => {
+  it("should accept any object without a schema", () => {
+    const schema = createInputSchema(undefined);
+
+    expect(schema.safeParse({ anything: [1, 2] }).success).toBe(true);
+  });
+
+  it("should check input against the JSON Schema", () => {
+    const schema = createInputSchema({
+      type: "object",
+      properties: { limit: { type: "integer" } },
+      required: ["limit"],
+    });
+
+    expect(schema.safeParse({ limit: 5 }).success).toBe(true);
+    expect(schema.safeParse({ limit: "5" }).success).toBe(false);
+    expect(schema.safeParse({}).success).toBe(false);
+  });
+
+  it("should reject schemas with a combinator at the top level", () => {
+    expect(() =>
+      createInputSchema({ type: "object", anyOf: [{ required: ["a"] }] }),
+    ).toThrow(/without anyOf, oneOf or allOf/);
+  });
+});
@@ -0,0 +1,39 @@
+import * as z from "zod";
+
+/**
+ * Convert the JSON Schema of a script's `input` into a Zod object schema that
+ * checks the input before the script runs. Used for saved scripts and the
+ * tools of lua servers, whose schemas are also checked with it when they are
+ * saved or loaded from the config. Without a schema, any object is accepted.
+ *
+ * @param inputSchema - JSON Schema of type object
+ * @returns Zod object schema
+ * @throws Error if the schema is not an object schema Zod can represent
+ */
+export function createInputSchema(
+  inputSchema: Record<string, unknown> | undefined,
+): z.ZodObject {
+  if (inputSchema === undefined) {
+    return z.looseObject({});
+  }
+  if (inputSchema.type !== "object") {
+    throw new Error("inputSchema must be a JSON Schema with type 'object'");
+  }
+
+  let schema: z.ZodType;
+  try {
+    schema = z.fromJSONSchema(inputSchema);
+  } catch (error) {
+    throw new Error(
+      `inputSchema is not a supported JSON Schema: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  // Combinators such as anyOf at the top level can't be used as tool
+  // arguments, which must be a plain object schema
+  if (!(schema instanceof z.ZodObject)) {
+    throw new Error(
+      "inputSchema must describe an object with properties, without anyOf, oneOf or allOf at the top level",
+    );
+  }
+  return schema;
+}
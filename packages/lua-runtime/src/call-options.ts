@@ -0,0 +1,191 @@
+import { fromLuaValue } from "./json.js";
+
+/**
+ * Options a script can pass as the second argument of a tool call, e.g.
+ * `server.tool(args, { timeout = 5000, retries = 2 })`
+ */
+export interface ToolCallOptions {
+  /**
+   * Return the whole CallToolResult, including error results, instead of
+   * unwrapping it and raising an error for isError
+   */
+  raw: boolean;
+  /** Deadline for each attempt, in milliseconds */
+  timeoutMs?: number;
+  /** Number of times to retry a call that failed or timed out */
+  retries: number;
+  /** Delay before the first retry, in milliseconds; doubled for each retry */
+  backoffMs: number;
+  /** Sent upstream as the request's `_meta` */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Delay before the first retry when the script doesn't set `backoff`
+ */
+export const DEFAULT_RETRY_BACKOFF_MS = 500;
+
+/**
+ * Most retries a single call may ask for
+ */
+export const MAX_TOOL_CALL_RETRIES = 5;
+
+const CALL_OPTION_NAMES = ["raw", "timeout", "retries", "backoff", "meta"];
+
+/**
+ * Read the options table of a tool call.
+ *
+ * @param value - The second argument of the call, converted from Lua
+ * @param fn - Lua name of the tool, for error messages
+ * @throws Error naming the problem if the options are invalid
+ */
+export function parseCallOptions(value: unknown, fn: string): ToolCallOptions {
+  const parsed: ToolCallOptions = {
+    raw: false,
+    retries: 0,
+    backoffMs: DEFAULT_RETRY_BACKOFF_MS,
+  };
+  if (value === undefined || value === null) {
+    return parsed;
+  }
+
+  const options = fromLuaValue(value);
+  if (!isTable(options)) {
+    throw new Error(`${fn}(args, options) expects options to be a table`);
+  }
+
+  for (const key of Object.keys(options)) {
+    if (!CALL_OPTION_NAMES.includes(key)) {
+      throw new Error(
+        `${fn}(args, options) got unknown option '${key}'; supported options: ${CALL_OPTION_NAMES.join(", ")}`,
+      );
+    }
+  }
+
+  const { raw, timeout, retries, backoff, meta } = options;
+  const invalid = (expected: string) =>
+    new Error(`${fn}(args, options) expects ${expected}`);
+
+  if (raw !== undefined) {
+    if (typeof raw !== "boolean") throw invalid("raw to be a boolean");
+    parsed.raw = raw;
+  }
+
+  if (timeout !== undefined) {
+    if (typeof timeout !== "number" || !(timeout > 0)) {
+      throw invalid("timeout to be a positive number of milliseconds");
+    }
+    parsed.timeoutMs = timeout;
+  }
+
+  if (retries !== undefined) {
+    if (
+      typeof retries !== "number" ||
+      !Number.isInteger(retries) ||
+      retries < 0 ||
+      retries > MAX_TOOL_CALL_RETRIES
+    ) {
+      throw invalid(
+        `retries to be an integer from 0 to ${MAX_TOOL_CALL_RETRIES}`,
+      );
+    }
+    parsed.retries = retries;
+  }
+
+  if (backoff !== undefined) {
+    if (typeof backoff !== "number" || !(backoff >= 0)) {
+      throw invalid("backoff to be a number of milliseconds");
+    }
+    parsed.backoffMs = backoff;
+  }
+
+  if (meta !== undefined) {
+    if (!isTable(meta)) throw invalid("meta to be a table");
+    parsed.meta = meta;
+  }
+
+  return parsed;
+}
+
+/**
+ * Make a call with the timeout and retries of its options.
+ *
+ * Each attempt gets its own signal, aborted when the attempt times out or
+ * when `signal` is aborted, so a timed-out request is cancelled upstream
+ * before the next attempt starts. Nothing is retried once `signal` is
+ * aborted.
+ *
+ * @param attempt - Makes one attempt of the call
+ * @param options - The call's options
+ * @param signal - Aborted when the script is stopped
+ * @param fn - Lua name of the tool, for error messages
+ * @param onRetry - Told about each failed attempt that will be retried
+ */
+export async function callWithRetries<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options: ToolCallOptions,
+  signal: AbortSignal,
+  fn: string,
+  onRetry: (error: unknown, delayMs: number, retry: number) => void,
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attemptWithTimeout(attempt, options.timeoutMs, signal, fn);
+    } catch (error) {
+      if (signal.aborted || retry >= options.retries) {
+        throw error;
+      }
+      const delayMs = options.backoffMs * 2 ** retry;
+      onRetry(error, delayMs, retry + 1);
+      await delay(delayMs, signal);
+    }
+  }
+}
+
+async function attemptWithTimeout<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  signal: AbortSignal,
+  fn: string,
+): Promise<T> {
+  if (timeoutMs === undefined) {
+    return attempt(signal);
+  }
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${fn} timed out after ${timeoutMs} ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      attempt(AbortSignal.any([signal, controller.signal])),
+      timedOut,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
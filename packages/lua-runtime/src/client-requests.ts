@@ -0,0 +1,146 @@
+import type { LuaEngine } from "wasmoon";
+import type {
+  CreateMessageRequest,
+  ElicitRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { observed, type CallGuard } from "./execution-guard.js";
+import type { ScriptExecutionOptions } from "./types.js";
+
+/**
+ * maxTokens used by sample() when the script does not set one
+ */
+export const DEFAULT_SAMPLE_MAX_TOKENS = 1024;
+
+type SamplingMessage = CreateMessageRequest["params"]["messages"][number];
+
+/**
+ * Install the sample() and elicit() globals.
+ *
+ * Both are always defined so that scripts get a clear error, rather than
+ * "attempt to call a nil value", when the downstream client lacks the
+ * capability. Like tool calls, they return promises.
+ *
+ * @param engine - The engine running the script
+ * @param options - Execution options carrying the downstream handlers
+ * @param guard - Guard of the running script
+ */
+export function installClientRequests(
+  engine: LuaEngine,
+  options: ScriptExecutionOptions | undefined,
+  guard: CallGuard,
+): void {
+  const { sample, elicit } = createClientRequests(options, guard);
+  engine.global.set("sample", sample);
+  engine.global.set("elicit", elicit);
+}
+
+/**
+ * Build the sample() and elicit() functions without installing them, for
+ * engines other than Lua.
+ *
+ * @param options - Execution options carrying the downstream handlers
+ * @param guard - Guard of the running script
+ */
+export function createClientRequests(
+  options: ScriptExecutionOptions | undefined,
+  guard: CallGuard,
+): Record<"sample" | "elicit", (request: unknown) => Promise<unknown>> {
+  return {
+    sample: (request: unknown) => {
+      const sample = options?.sample;
+      if (!sample) {
+        throw new Error(
+          "sample() is not available: the client connected to this gateway does not support sampling",
+        );
+      }
+      return observed(guard.wrap(sample(toSamplingParams(request))));
+    },
+    elicit: (request: unknown) => {
+      const elicit = options?.elicit;
+      if (!elicit) {
+        throw new Error(
+          "elicit() is not available: the client connected to this gateway does not support elicitation",
+        );
+      }
+      return observed(guard.wrap(elicit(toElicitParams(request))));
+    },
+  };
+}
+
+/**
+ * Convert sample({ messages = ..., maxTokens = ... }) into request params.
+ * Messages may be plain strings (user text) and message content may be a
+ * string instead of a content block.
+ */
+function toSamplingParams(request: unknown): CreateMessageRequest["params"] {
+  if (!request || typeof request !== "object") {
+    throw new Error("sample() expects a table like { messages = {...} }");
+  }
+
+  const { messages, maxTokens, ...rest } = request as Record<string, unknown>;
+  const list = typeof messages === "string" ? [messages] : toList(messages);
+  if (list.length === 0) {
+    throw new Error("sample() requires at least one message");
+  }
+
+  return {
+    ...rest,
+    messages: list.map(toSamplingMessage),
+    maxTokens:
+      typeof maxTokens === "number" ? maxTokens : DEFAULT_SAMPLE_MAX_TOKENS,
+  } as CreateMessageRequest["params"];
+}
+
+function toSamplingMessage(message: unknown): SamplingMessage {
+  if (typeof message === "string") {
+    return { role: "user", content: { type: "text", text: message } };
+  }
+  if (!message || typeof message !== "object") {
+    throw new Error(
+      "sample() messages must be strings or tables like { role = 'user', content = '...' }",
+    );
+  }
+
+  const { role, content } = message as Record<string, unknown>;
+  return {
+    role: role === "assistant" ? "assistant" : "user",
+    content:
+      typeof content === "string" ? { type: "text", text: content } : content,
+  } as SamplingMessage;
+}
+
+/**
+ * Convert elicit({ message = ..., schema = ... }) into form-mode params
+ */
+function toElicitParams(request: unknown): ElicitRequest["params"] {
+  if (!request || typeof request !== "object") {
+    throw new Error("elicit() expects a table like { message = '...' }");
+  }
+
+  const { message, schema } = request as Record<string, unknown>;
+  if (typeof message !== "string") {
+    throw new Error("elicit() requires a message string");
+  }
+
+  const requestedSchema = (
+    schema && typeof schema === "object" ? schema : {}
+  ) as Record<string, unknown>;
+
+  return {
+    message,
+    requestedSchema: {
+      ...requestedSchema,
+      type: "object",
+      properties: (requestedSchema.properties as object | undefined) ?? {},
+    },
+  } as ElicitRequest["params"];
+}
+
+/**
+ * Lua sequences arrive as arrays; anything else is treated as empty
+ */
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object") return Object.values(value);
+  return [];
+}
@@ -0,0 +1,93 @@
+import type { LuaEngine } from "wasmoon";
+import { fromLuaValue } from "./json.js";
+
+/**
+ * Optional fields a script can give a resource link
+ */
+const RESOURCE_LINK_FIELDS = ["title", "description", "mimeType"];
+
+/**
+ * Install the `mcp` table of content block constructors.
+ *
+ * The blocks are plain tables in the shape of MCP content blocks, so they can
+ * be mixed with blocks taken from tool results. Passing a list of them to
+ * result() returns them as the content of the execute result, which lets
+ * images and audio reach the client as media instead of JSON text.
+ *
+ * @param engine - The engine to install into
+ */
+export function installContentHelpers(engine: LuaEngine): void {
+  engine.global.set("mcp", {
+    text: (text: unknown) => ({
+      type: "text",
+      text: expectString("mcp.text(text)", "text", text),
+    }),
+    image: (data: unknown, mimeType: unknown) => ({
+      type: "image",
+      data: expectString("mcp.image(data, mimeType)", "data", data),
+      mimeType: expectString("mcp.image(data, mimeType)", "mimeType", mimeType),
+    }),
+    audio: (data: unknown, mimeType: unknown) => ({
+      type: "audio",
+      data: expectString("mcp.audio(data, mimeType)", "data", data),
+      mimeType: expectString("mcp.audio(data, mimeType)", "mimeType", mimeType),
+    }),
+    resource_link: (uri: unknown, name: unknown, fields: unknown) => {
+      const fn = "mcp.resource_link(uri, name, fields)";
+      const link: Record<string, unknown> = {
+        type: "resource_link",
+        uri: expectString(fn, "uri", uri),
+        name: expectString(fn, "name", name),
+      };
+      const extra = fromLuaValue(fields ?? {});
+      if (!isTable(extra)) {
+        throw new Error(`${fn} expects fields to be a table`);
+      }
+      for (const [key, value] of Object.entries(extra)) {
+        if (!RESOURCE_LINK_FIELDS.includes(key)) {
+          throw new Error(
+            `${fn} got unknown field '${key}'; supported fields: ${RESOURCE_LINK_FIELDS.join(", ")}`,
+          );
+        }
+        link[key] = value;
+      }
+      return link;
+    },
+    embedded_resource: (resource: unknown) => {
+      const fn = "mcp.embedded_resource(resource)";
+      const contents = fromLuaValue(resource);
+      if (!isTable(contents)) {
+        throw new Error(
+          `${fn} expects a table with uri and text or blob, such as an entry of read_resource(uri):await().contents`,
+        );
+      }
+      const { uri, mimeType, text, blob } = contents;
+      expectString(fn, "uri", uri);
+      if (mimeType !== undefined) expectString(fn, "mimeType", mimeType);
+      if (typeof text !== "string" && typeof blob !== "string") {
+        throw new Error(`${fn} expects a text or blob string`);
+      }
+      return {
+        type: "resource",
+        resource: {
+          uri,
+          ...(mimeType !== undefined && { mimeType }),
+          ...(typeof text === "string" ? { text } : { blob }),
+        },
+      };
+    },
+  });
+}
+
+function expectString(fn: string, name: string, value: unknown): string {
+  if (typeof value !== "string") {
+    throw new Error(
+      `${fn} expects ${name} to be a string, got ${typeof value}`,
+    );
+  }
+  return value;
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,147 @@
+import type { LuaEngine } from "wasmoon";
+
+/**
+ * Number of idle engines a runtime keeps when RuntimeOptions doesn't say
+ */
+export const DEFAULT_ENGINE_POOL_SIZE = 2;
+
+/**
+ * Records every table reachable from the globals, and the string metatable,
+ * and returns a function that puts their metatables and fields back. The
+ * functions it relies on are captured as upvalues, so a script replacing the
+ * globals can't change what the reset does. Metatables are restored first,
+ * so that assigning the fields doesn't run a script's __newindex.
+ */
+const SNAPSHOT_PRELUDE = `
+local next, type, rawequal, getmetatable, setmetatable =
+  next, type, rawequal, getmetatable, setmetatable
+
+local tables = {}
+local function snapshot(t)
+  if tables[t] then return end
+  local fields = {}
+  local metatable = getmetatable(t)
+  tables[t] = { fields = fields, metatable = metatable }
+  for key, value in next, t do
+    fields[key] = value
+    if type(value) == "table" then snapshot(value) end
+  end
+  if type(metatable) == "table" then snapshot(metatable) end
+end
+snapshot(_G)
+snapshot(getmetatable(""))
+
+return function()
+  for t, saved in next, tables do
+    if not rawequal(getmetatable(t), saved.metatable) then
+      setmetatable(t, saved.metatable)
+    end
+  end
+  for t, saved in next, tables do
+    for key in next, t do
+      if saved.fields[key] == nil then t[key] = nil end
+    end
+    for key, value in next, saved.fields do
+      t[key] = value
+    end
+  end
+end
+`;
+
+/**
+ * An idle engine and the key of the executions it may serve
+ */
+interface IdleEngine {
+  key: string | undefined;
+  engine: LuaEngine;
+}
+
+/**
+ * Keeps sandboxed engines between executions, so that a script doesn't pay
+ * for creating an engine and installing the runtime's globals.
+ *
+ * The state of a new engine is recorded once it is set up. When an engine is
+ * released, everything a script could have changed through the globals is
+ * put back: globals it added are removed, replaced ones restored, and library
+ * tables such as `string` get their original fields and metatables. An engine
+ * that can't be reset is closed instead of kept.
+ *
+ * The reset can only restore what it can see from Lua, so an engine is only
+ * handed to executions with the key it was released with, e.g. those of the
+ * same session. When the pool is full, the engine idle the longest is closed.
+ */
+export class EnginePool {
+  private readonly idle: IdleEngine[] = [];
+  private readonly resets = new Map<LuaEngine, () => void>();
+
+  /**
+   * @param create - Creates and sets up a sandboxed engine
+   * @param size - Most idle engines to keep; 0 closes every engine after use
+   */
+  constructor(
+    private readonly create: () => Promise<LuaEngine>,
+    private readonly size: number,
+  ) {}
+
+  /**
+   * Take an idle engine released with the same key, or create one if there
+   * is none
+   *
+   * @param key - Key of the execution, e.g. its session
+   */
+  async acquire(key: string | undefined): Promise<LuaEngine> {
+    const index = this.idle.findLastIndex((idle) => idle.key === key);
+    if (index !== -1) {
+      return this.idle.splice(index, 1)[0]!.engine;
+    }
+
+    const engine = await this.create();
+    if (this.size > 0) {
+      const reset = (await engine.doString(SNAPSHOT_PRELUDE)) as () => void;
+      this.resets.set(engine, reset);
+    }
+    engine.global.setTop(0);
+    return engine;
+  }
+
+  /**
+   * Give an engine back once its script has finished.
+   *
+   * The engine is only reset after pending callbacks have had a chance to
+   * run, and only kept if `reusable` still holds then, so that a callback
+   * from one script never runs in the next.
+   *
+   * @param engine - An engine from acquire()
+   * @param key - The key the engine was acquired with
+   * @param reusable - Whether the engine may be reused, e.g. false when the
+   * script was stopped or still has upstream requests in flight
+   */
+  release(
+    engine: LuaEngine,
+    key: string | undefined,
+    reusable: () => boolean,
+  ): void {
+    setImmediate(() => {
+      const reset = this.resets.get(engine);
+      if (reset && reusable()) {
+        try {
+          reset();
+          engine.global.setTop(0);
+          this.idle.push({ key, engine });
+          if (this.idle.length > this.size) {
+            this.close(this.idle.shift()!.engine);
+          }
+          return;
+        } catch {
+          // e.g. the script protected a library table's metatable
+        }
+      }
+      this.close(engine);
+    });
+  }
+
+  private close(engine: LuaEngine): void {
+    this.resets.delete(engine);
+    engine.global.close();
+  }
+}
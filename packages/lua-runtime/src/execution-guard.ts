@@ -0,0 +1,291 @@
+import { LuaEventMasks, type LuaEngine } from "wasmoon";
+import {
+  ScriptCancelledError,
+  ScriptLimitError,
+  type ScriptLimitKind,
+  type ScriptLimits,
+} from "./limits.js";
+
+/**
+ * Number of Lua instructions between hook invocations.
+ * Lower values react faster to limits but slow down every script.
+ */
+const HOOK_INSTRUCTION_INTERVAL = 1000;
+
+/**
+ * What the functions a script calls need from the guard of its execution
+ */
+export interface CallGuard {
+  /** Aborted once the script is cancelled or stopped by a limit */
+  readonly signal: AbortSignal;
+  /** Number of tool calls that have returned */
+  toolCallsCompleted: number;
+  /** Race a pending operation against the script deadline and cancellation */
+  wrap<T>(promise: Promise<T>): Promise<T>;
+}
+
+/**
+ * The parts of a script engine that ExecutionGuard controls
+ */
+export interface GuardedEngine {
+  /** Number of instructions between two calls of `check` */
+  readonly checkInterval: number;
+  /**
+   * Cap the engine's memory and call `check` regularly while the script
+   * runs. `check` returns a message once the script must stop; the engine
+   * then raises it as an error the script cannot catch.
+   */
+  install(maxMemoryBytes: number, check: () => string | undefined): void;
+  /** Stop calling `check` */
+  uninstall(): void;
+  /** Memory the engine has allocated, in bytes */
+  memoryUsed(): number;
+}
+
+/**
+ * Enforces ScriptLimits on a single script engine.
+ *
+ * - Instructions and wall-clock time are checked from the engine's
+ *   instruction hook, which also catches tight loops that never yield back
+ *   to JavaScript.
+ * - Time spent awaiting tool calls is covered by racing each call against the
+ *   deadline (see wrap()).
+ * - Memory is capped through the engine's allocator limit.
+ *
+ * - Cancellation through an AbortSignal stops the script the same way.
+ *
+ * Once a limit is hit or the script is cancelled, the engine stops the script
+ * with an error it cannot catch and keep running, and in-flight upstream
+ * calls are aborted through signal.
+ */
+export class ExecutionGuard implements CallGuard {
+  private startedAt = Date.now();
+  private ticks = 0;
+  private timer?: NodeJS.Timeout;
+  private readonly deadline: Promise<never>;
+  private rejectDeadline!: (error: Error) => void;
+  private violation?: ScriptLimitKind;
+  private instructionsAtViolation?: number;
+  private readonly abortController = new AbortController();
+  private readonly onCancel = () => this.cancel();
+  private pending = 0;
+  cancelled = false;
+  toolCallsCompleted = 0;
+
+  /**
+   * @param engine - The engine running the script
+   * @param limits - The limits to enforce
+   * @param cancelSignal - Optional signal that cancels the script when aborted
+   */
+  constructor(
+    private engine: GuardedEngine,
+    readonly limits: ScriptLimits,
+    private cancelSignal?: AbortSignal,
+  ) {
+    this.deadline = new Promise<never>((_, reject) => {
+      this.rejectDeadline = reject;
+    });
+    // Rejections are observed through wrap(); avoid unhandled rejection noise
+    this.deadline.catch(() => {});
+  }
+
+  /**
+   * Aborted once the script is cancelled or stopped by a limit.
+   * Pass this to upstream requests so they are cancelled too.
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Install the hook, memory cap and deadline timer.
+   * Call this right before running the script.
+   */
+  start(): void {
+    this.startedAt = Date.now();
+    this.engine.install(this.limits.maxMemoryBytes, () => this.check());
+
+    this.timer = setTimeout(() => {
+      this.trip("timeout");
+      this.rejectDeadline(new Error(`Script stopped: timeout limit exceeded`));
+    }, this.limits.timeoutMs);
+
+    if (this.cancelSignal?.aborted) {
+      this.cancel();
+    } else {
+      this.cancelSignal?.addEventListener("abort", this.onCancel);
+    }
+  }
+
+  /**
+   * Whether the script was cancelled or stopped by a limit
+   */
+  get stopped(): boolean {
+    return this.cancelled || this.violation !== undefined;
+  }
+
+  /**
+   * Whether no operation passed to wrap() is still in flight, including
+   * ones the script started but never awaited
+   */
+  get settled(): boolean {
+    return this.pending === 0;
+  }
+
+  /**
+   * Race a pending operation against the script deadline and cancellation.
+   */
+  wrap<T>(promise: Promise<T>): Promise<T> {
+    this.pending++;
+    const done = () => {
+      this.pending--;
+    };
+    promise.then(done, done);
+    return Promise.race([promise, this.deadline]);
+  }
+
+  /**
+   * Translate a script failure into the error explaining why it was stopped.
+   *
+   * @param error - The error raised while running the script, if any
+   * @param result - Partial result state captured from result()
+   * @returns The cancellation or limit error, or undefined if the script was
+   * neither cancelled nor stopped by a limit
+   */
+  getStopError(
+    error: unknown,
+    result: { called: boolean; value?: unknown },
+  ): ScriptCancelledError | ScriptLimitError | undefined {
+    if (this.cancelled) {
+      return new ScriptCancelledError(this.toolCallsCompleted);
+    }
+
+    if (
+      !this.violation &&
+      error instanceof Error &&
+      /not enough memory|out of memory/.test(error.message)
+    ) {
+      this.trip("memory");
+    }
+
+    if (!this.violation) {
+      return undefined;
+    }
+
+    return new ScriptLimitError(this.violation, this.limits, {
+      elapsedMs: Date.now() - this.startedAt,
+      instructionsExecuted:
+        this.instructionsAtViolation ?? this.ticks * this.engine.checkInterval,
+      memoryUsedBytes: this.engine.memoryUsed(),
+      toolCallsCompleted: this.toolCallsCompleted,
+      resultCalled: result.called,
+      result: result.value,
+    });
+  }
+
+  /**
+   * Remove the hook and timer. Must be called before the engine is closed.
+   */
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.cancelSignal?.removeEventListener("abort", this.onCancel);
+    this.engine.uninstall();
+  }
+
+  /**
+   * Called by the engine every checkInterval instructions
+   */
+  private check(): string | undefined {
+    this.ticks++;
+
+    if (!this.violation) {
+      if (
+        this.ticks * this.engine.checkInterval >
+        this.limits.maxInstructions
+      ) {
+        this.trip("instructions");
+      } else if (Date.now() - this.startedAt > this.limits.timeoutMs) {
+        this.trip("timeout");
+      }
+    }
+
+    if (this.cancelled) return "Script stopped: cancelled";
+    if (this.violation)
+      return `Script stopped: ${this.violation} limit exceeded`;
+    return undefined;
+  }
+
+  private trip(kind: ScriptLimitKind): void {
+    if (this.violation || this.cancelled) return;
+    this.violation = kind;
+    this.instructionsAtViolation = this.ticks * this.engine.checkInterval;
+    this.abortController.abort(
+      new Error(`Script stopped: ${kind} limit exceeded`),
+    );
+  }
+
+  private cancel(): void {
+    if (this.violation || this.cancelled) return;
+    this.cancelled = true;
+
+    const reason = new Error("Script stopped: cancelled");
+    this.rejectDeadline(reason);
+    this.abortController.abort(reason);
+  }
+}
+
+/**
+ * Let an ExecutionGuard control a Lua engine through a count hook.
+ *
+ * Once the guard asks to stop, the hook fires on every instruction so that
+ * scripts cannot swallow the error with pcall() and keep running.
+ *
+ * @param engine - The engine running the script
+ */
+export function guardLuaEngine(engine: LuaEngine): GuardedEngine {
+  const global = engine.global;
+  const lua = global.lua;
+  let hookPointer: number | undefined;
+
+  return {
+    checkInterval: HOOK_INSTRUCTION_INTERVAL,
+    install(maxMemoryBytes, check) {
+      global.setMemoryMax(maxMemoryBytes);
+
+      hookPointer = lua.module.addFunction((L: number) => {
+        const stop = check();
+        if (stop !== undefined) {
+          lua.lua_sethook(L, hookPointer!, LuaEventMasks.Count, 1);
+          lua.lua_pushstring(L, stop);
+          lua.lua_error(L);
+        }
+      }, "vii");
+
+      // Threads created later (including the one running the script) inherit this hook
+      lua.lua_sethook(
+        global.address,
+        hookPointer,
+        LuaEventMasks.Count,
+        HOOK_INSTRUCTION_INTERVAL,
+      );
+    },
+    uninstall() {
+      if (hookPointer !== undefined) {
+        lua.lua_sethook(global.address, null, 0, 0);
+        lua.module.removeFunction(hookPointer);
+        hookPointer = undefined;
+      }
+    },
+    memoryUsed: () => global.getMemoryUsed(),
+  };
+}
+
+/**
+ * Mark a promise handed to Lua as handled. A script may never await it, e.g.
+ * when it is stopped right after starting a call; rejections still reach Lua
+ * through :await().
+ */
+export function observed<T>(promise: Promise<T>): Promise<T> {
+  promise.catch(() => {});
+  return promise;
+}
@@ -1,5 +1,45 @@
 // Types
-export type { ILogger, ILuaRuntime, IMCPClientSession } from "./types.js";
+export type {
+  CompletedToolCall,
+  ILogger,
+  ILuaRuntime,
+  IMCPClientSession,
+  OutputValidationMode,
+  RuntimeOptions,
+  ScriptExecutionOptions,
+  ScriptLogEntry,
+  ScriptLogLevel,
+  ScriptProgress,
+  ScriptState,
+} from "./types.js";
+export type { ScriptErrorDetails, ScriptToolCall } from "./script-error.js";
+export type {
+  ScriptLimits,
+  ScriptLimitKind,
+  ScriptPartialState,
+} from "./limits.js";
+
+// Limits
+export {
+  DEFAULT_SCRIPT_LIMITS,
+  resolveScriptLimits,
+  ScriptCancelledError,
+  ScriptLimitError,
+} from "./limits.js";
+
+// Errors
+export {
+  ScriptAnalysisError,
+  ScriptError,
+  ToolCallError,
+} from "./script-error.js";
+
+// Logging
+export { DEFAULT_MAX_LOG_CHARS, DEFAULT_MAX_LOG_ENTRIES } from "./logs.js";
+
+// Engine pooling
+export { DEFAULT_ENGINE_POOL_SIZE } from "./engine-pool.js";
 
 // Implementation
 export { WasmoonRuntime } from "./runtime.js";
+export { QuickJSRuntime } from "./quickjs-runtime.js";
@@ -0,0 +1,362 @@
+import {
+  decorateProxy,
+  LUA_REGISTRYINDEX,
+  LuaType,
+  LuaTypeExtension,
+  type LuaEngine,
+  type LuaGlobal,
+  type LuaThread,
+} from "wasmoon";
+
+/**
+ * Metatable names of the json.null sentinel and the array/object markers
+ */
+export const JSON_NULL = "json.null";
+export const JSON_ARRAY = "json.array";
+export const JSON_OBJECT = "json.object";
+
+/**
+ * Stands for json.null in values pushed to Lua. Serializes as null in case it
+ * escapes fromLuaValue().
+ */
+const NULL_MARKER = Object.freeze({ toJSON: () => null });
+
+/**
+ * Stand for new tables marked with json.array() and json.object() in values
+ * pushed to Lua by toLuaTables()
+ */
+const EMPTY_ARRAY_MARKER = Object.freeze({ toJSON: () => [] });
+const EMPTY_OBJECT_MARKER = Object.freeze({ toJSON: () => ({}) });
+
+/**
+ * Empty objects converted from tables marked with json.object(). Tool
+ * arguments keep these as objects even where the input schema wants an array.
+ */
+const explicitObjects = new WeakSet<object>();
+
+/**
+ * Defines json.null and the markers. Their metatables are protected with
+ * __metatable, so getmetatable() returns the marker's name and scripts can
+ * neither change the shared metatables nor replace a table's marker.
+ */
+const JSON_PRELUDE = `
+local null = setmetatable({}, {
+  __name = "${JSON_NULL}",
+  __tostring = function()
+    return "null"
+  end,
+  __newindex = function()
+    error("json.null cannot be modified", 2)
+  end,
+  __metatable = "${JSON_NULL}",
+})
+
+local array_metatable = { __name = "${JSON_ARRAY}", __metatable = "${JSON_ARRAY}" }
+local object_metatable = { __name = "${JSON_OBJECT}", __metatable = "${JSON_OBJECT}" }
+
+local function mark(value, metatable, fn)
+  if value == nil then
+    value = {}
+  end
+  if type(value) ~= "table" then
+    error(fn .. "() expects a table", 3)
+  end
+  local marker = getmetatable(value)
+  if marker == fn then
+    return value
+  end
+  if marker == "${JSON_ARRAY}" or marker == "${JSON_OBJECT}" then
+    error(fn .. "() can't mark a table already marked with " .. marker .. "()", 3)
+  end
+  return setmetatable(value, metatable)
+end
+
+json = {
+  null = null,
+  array = function(value)
+    return mark(value, array_metatable, "json.array")
+  end,
+  object = function(value)
+    return mark(value, object_metatable, "json.object")
+  end,
+}
+
+return null, array_metatable, object_metatable
+`;
+
+/**
+ * Registry references to json.null and the marker metatables
+ */
+interface JsonReferences {
+  null: number;
+  array: number;
+  object: number;
+}
+
+/**
+ * Converts json.null and tables marked with json.array()/json.object() to
+ * JavaScript, and pushes null as nil, the json.null marker as json.null and
+ * the empty array/object markers as new marked tables.
+ */
+class JsonTypeExtension extends LuaTypeExtension<unknown> {
+  constructor(
+    thread: LuaGlobal,
+    private references: JsonReferences,
+  ) {
+    super(thread, JSON_NULL);
+  }
+
+  override isType(
+    _thread: LuaThread,
+    _index: number,
+    type: LuaType,
+    name?: string,
+  ): boolean {
+    return (
+      type === LuaType.Table &&
+      (name === JSON_NULL || name === JSON_ARRAY || name === JSON_OBJECT)
+    );
+  }
+
+  override getValue(
+    thread: LuaThread,
+    index: number,
+    userdata?: unknown,
+  ): unknown {
+    const name = thread.getMetatableName(index);
+    if (name === JSON_NULL) {
+      return null;
+    }
+
+    const seen = (userdata as Map<number, unknown> | undefined) ?? new Map();
+    const pointer = thread.lua.lua_topointer(thread.address, index);
+    if (seen.has(pointer)) {
+      return seen.get(pointer);
+    }
+
+    if (name === JSON_ARRAY) {
+      const array: unknown[] = [];
+      seen.set(pointer, array);
+      const length = thread.lua.lua_rawlen(thread.address, index);
+      for (let i = 1; i <= length; i++) {
+        thread.lua.lua_rawgeti(thread.address, index, BigInt(i));
+        array.push(thread.getValue(-1, undefined, seen));
+        thread.pop();
+      }
+      return array;
+    }
+
+    const object: Record<string, unknown> = {};
+    seen.set(pointer, object);
+    thread.lua.lua_pushnil(thread.address);
+    while (thread.lua.lua_next(thread.address, index)) {
+      object[thread.indexToString(-2)] = thread.getValue(-1, undefined, seen);
+      thread.pop();
+    }
+    if (Object.keys(object).length === 0) {
+      explicitObjects.add(object);
+    }
+    return object;
+  }
+
+  override pushValue(
+    thread: LuaThread,
+    decoratedValue: { target: unknown },
+  ): boolean {
+    // wasmoon has no handler for null itself; it reads as nil
+    if (decoratedValue.target === null) {
+      thread.lua.lua_pushnil(thread.address);
+      return true;
+    }
+    if (decoratedValue.target === NULL_MARKER) {
+      thread.lua.lua_rawgeti(
+        thread.address,
+        LUA_REGISTRYINDEX,
+        BigInt(this.references.null),
+      );
+      return true;
+    }
+
+    const metatable =
+      decoratedValue.target === EMPTY_ARRAY_MARKER
+        ? this.references.array
+        : decoratedValue.target === EMPTY_OBJECT_MARKER
+          ? this.references.object
+          : undefined;
+    if (metatable === undefined) {
+      return false;
+    }
+    thread.lua.lua_createtable(thread.address, 0, 0);
+    thread.lua.lua_rawgeti(
+      thread.address,
+      LUA_REGISTRYINDEX,
+      BigInt(metatable),
+    );
+    thread.lua.lua_setmetatable(thread.address, -2);
+    return true;
+  }
+
+  close(): void {}
+}
+
+/**
+ * Install the `json` table with the json.null sentinel and the
+ * json.array()/json.object() markers.
+ *
+ * @param engine - The engine to install into
+ */
+export async function installJson(engine: LuaEngine): Promise<void> {
+  // Keep references to json.null and the marker metatables, which the
+  // prelude returns, so that they can be pushed to Lua
+  const { lua, address } = engine.global;
+  engine.global.loadString(JSON_PRELUDE);
+  lua.lua_callk(address, 0, 3, 0, null);
+  const object = lua.luaL_ref(address, LUA_REGISTRYINDEX);
+  const array = lua.luaL_ref(address, LUA_REGISTRYINDEX);
+  const nullReference = lua.luaL_ref(address, LUA_REGISTRYINDEX);
+
+  engine.global.registerTypeExtension(
+    10,
+    new JsonTypeExtension(engine.global, {
+      null: nullReference,
+      array,
+      object,
+    }),
+  );
+}
+
+/**
+ * Prepare a JSON value, e.g. a tool result, for Lua.
+ *
+ * wasmoon hands JavaScript objects to Lua as proxies, so empty arrays and
+ * objects keep their type when a script passes them on. Nulls inside arrays
+ * become json.null so that scripts can see them; object fields that are null
+ * read as nil, so `if res.cursor then` works for a null cursor.
+ *
+ * @param value - A JSON value
+ * @returns A copy to hand to wasmoon
+ */
+export function toLuaValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      item === null ? NULL_MARKER : toLuaValue(item),
+    );
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toLuaValue(item)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Prepare a JSON value to be pushed to Lua as plain tables instead of
+ * proxies, following the rules of jsonToLuaTable(): object fields set to null
+ * are left out, nulls inside arrays become json.null, and empty arrays and
+ * objects are marked with json.array() and json.object().
+ *
+ * @param value - A JSON value
+ * @returns A value to hand to wasmoon
+ */
+export function toLuaTables(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return EMPTY_ARRAY_MARKER;
+    }
+    return decorateProxy(
+      value.map((item) => (item === null ? NULL_MARKER : toLuaTables(item))),
+      { proxy: false },
+    );
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== null);
+    if (entries.length === 0) {
+      return EMPTY_OBJECT_MARKER;
+    }
+    return decorateProxy(
+      Object.fromEntries(
+        entries.map(([key, item]) => [key, toLuaTables(item)]),
+      ),
+      { proxy: false },
+    );
+  }
+  return value;
+}
+
+/**
+ * Undo toLuaValue() for a value leaving Lua. Values a script got from a tool
+ * come back as the JavaScript objects behind their proxies.
+ *
+ * @param value - A value converted from Lua
+ * @returns The value with json.null replaced by null
+ */
+export function fromLuaValue(value: unknown): unknown {
+  if (value === NULL_MARKER) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromLuaValue);
+  }
+  // Keep the identity of empty objects marked with json.object()
+  if (isPlainObject(value) && !explicitObjects.has(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fromLuaValue(item)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Use a tool's input schema to decide whether empty tables in its arguments
+ * are arrays or objects.
+ *
+ * Lua has no way to tell {} from [], so an unmarked empty table converts to
+ * an empty object. Where the schema only allows an array, it becomes [].
+ * Tables marked with json.object() are left alone.
+ *
+ * @param value - Arguments converted from Lua, after fromLuaValue()
+ * @param schema - JSON Schema the value should match
+ * @returns The arguments with empty tables shaped by the schema
+ */
+export function shapeEmptyTables(value: unknown, schema: unknown): unknown {
+  if (!schema || typeof schema !== "object") {
+    return value;
+  }
+  const { type, properties, items } = schema as Record<string, unknown>;
+
+  if (Array.isArray(value)) {
+    return value.map((item) => shapeEmptyTables(item, items));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) {
+    const types = Array.isArray(type) ? type : [type];
+    const arrayOnly = types.includes("array") && !types.includes("object");
+    return arrayOnly && !explicitObjects.has(value) ? [] : value;
+  }
+
+  if (!properties || typeof properties !== "object") {
+    return value;
+  }
+  return Object.fromEntries(
+    entries.map(([key, item]) => [
+      key,
+      shapeEmptyTables(item, (properties as Record<string, unknown>)[key]),
+    ]),
+  );
+}
+
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
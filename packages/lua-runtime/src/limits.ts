@@ -0,0 +1,146 @@
+/**
+ * Resource limits applied to a single script execution.
+ */
+export interface ScriptLimits {
+  /** Wall-clock deadline for the whole script, in milliseconds */
+  timeoutMs: number;
+  /** Maximum number of Lua VM instructions the script may execute */
+  maxInstructions: number;
+  /** Maximum memory the Lua state may allocate, in bytes */
+  maxMemoryBytes: number;
+}
+
+/**
+ * Which limit stopped a script.
+ */
+export type ScriptLimitKind = "timeout" | "instructions" | "memory";
+
+/**
+ * Limits used when neither the gateway config nor the caller provides any.
+ */
+export const DEFAULT_SCRIPT_LIMITS: ScriptLimits = {
+  timeoutMs: 120_000,
+  maxInstructions: 100_000_000,
+  maxMemoryBytes: 128 * 1024 * 1024,
+};
+
+/**
+ * Resolve the effective limits for one execution.
+ *
+ * Per-call overrides can only tighten the base limits, never loosen them, so
+ * an agent cannot opt out of the limits an operator configured.
+ *
+ * @param base - The configured (global) limits
+ * @param overrides - Optional per-call limits
+ * @returns The limits to enforce for this execution
+ */
+export function resolveScriptLimits(
+  base: ScriptLimits,
+  overrides?: Partial<ScriptLimits>,
+): ScriptLimits {
+  return {
+    timeoutMs: Math.min(base.timeoutMs, overrides?.timeoutMs ?? Infinity),
+    maxInstructions: Math.min(
+      base.maxInstructions,
+      overrides?.maxInstructions ?? Infinity,
+    ),
+    maxMemoryBytes: Math.min(
+      base.maxMemoryBytes,
+      overrides?.maxMemoryBytes ?? Infinity,
+    ),
+  };
+}
+
+/**
+ * Snapshot of what a script had done when it was stopped.
+ */
+export interface ScriptPartialState {
+  elapsedMs: number;
+  instructionsExecuted: number;
+  memoryUsedBytes: number;
+  toolCallsCompleted: number;
+  resultCalled: boolean;
+  result?: unknown;
+}
+
+const MAX_PARTIAL_RESULT_LENGTH = 500;
+
+/**
+ * Error thrown when a script exceeds one of its execution limits.
+ * The message is written for the agent: it names the limit that was hit and
+ * summarizes the partial state so the script can be adjusted and retried.
+ */
+export class ScriptLimitError extends Error {
+  constructor(
+    readonly limit: ScriptLimitKind,
+    readonly limits: ScriptLimits,
+    readonly partialState: ScriptPartialState,
+  ) {
+    super(formatLimitMessage(limit, limits, partialState));
+    this.name = "ScriptLimitError";
+  }
+}
+
+/**
+ * Error thrown when a script is cancelled by its caller, e.g. because the
+ * downstream client sent notifications/cancelled for the execute request.
+ */
+export class ScriptCancelledError extends Error {
+  constructor(readonly toolCallsCompleted: number) {
+    super(
+      `Script execution was cancelled. Tool calls completed before cancellation: ${toolCallsCompleted}`,
+    );
+    this.name = "ScriptCancelledError";
+  }
+}
+
+function formatLimitMessage(
+  limit: ScriptLimitKind,
+  limits: ScriptLimits,
+  state: ScriptPartialState,
+): string {
+  const headline = {
+    timeout: `Script exceeded its execution time limit (${limits.timeoutMs}ms).`,
+    instructions: `Script exceeded its instruction limit (${limits.maxInstructions} instructions).`,
+    memory: `Script exceeded its memory limit (${formatBytes(limits.maxMemoryBytes)}).`,
+  }[limit];
+
+  const lines = [
+    headline,
+    "",
+    "Partial state when the script was stopped:",
+    `- Elapsed time: ${state.elapsedMs}ms`,
+    `- Instructions executed: ~${state.instructionsExecuted}`,
+    `- Script memory in use: ${formatBytes(state.memoryUsedBytes)}`,
+    `- Tool calls completed: ${state.toolCallsCompleted}`,
+  ];
+
+  if (state.resultCalled) {
+    let preview = JSON.stringify(state.result) ?? String(state.result);
+    if (preview.length > MAX_PARTIAL_RESULT_LENGTH) {
+      preview = `${preview.slice(0, MAX_PARTIAL_RESULT_LENGTH)}...`;
+    }
+    lines.push(`- Value passed to result(): ${preview}`);
+  } else {
+    lines.push("- result() had not been called");
+  }
+
+  lines.push(
+    "",
+    limit === "memory"
+      ? "Process data incrementally and keep only the fields you need."
+      : "Check for unbounded loops, reduce the amount of work per script, or split it across several execute calls.",
+  );
+
+  return lines.join("\n");
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} B`;
+}
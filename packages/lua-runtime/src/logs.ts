@@ -0,0 +1,107 @@
+import type { LuaEngine } from "wasmoon";
+import { fromLuaValue } from "./json.js";
+import type { ScriptLogEntry, ScriptLogLevel } from "./types.js";
+
+/**
+ * Maximum number of print()/log() messages delivered per execution
+ */
+export const DEFAULT_MAX_LOG_ENTRIES = 100;
+
+/**
+ * Maximum total length of the delivered messages, in characters
+ */
+export const DEFAULT_MAX_LOG_CHARS = 16_000;
+
+export const LOG_LEVELS: ReadonlySet<string> = new Set<ScriptLogLevel>([
+  "debug",
+  "info",
+  "warn",
+  "error",
+]);
+
+/**
+ * Install print() and log(level, message).
+ *
+ * Both are always defined; without a listener they do nothing. Output is
+ * bounded so that a chatty loop can't flood the caller: once the limits are
+ * reached, one warning is delivered and later messages are dropped.
+ *
+ * @param engine - The engine running the script
+ * @param onLog - Receives each message
+ */
+export function installLogging(
+  engine: LuaEngine,
+  onLog: ((entry: ScriptLogEntry) => void) | undefined,
+): void {
+  const emit = createLogEmitter(onLog);
+
+  engine.global.set("print", (...values: unknown[]) => {
+    emit("info", values.map(formatValue).join("\t"));
+  });
+
+  engine.global.set("log", (level: unknown, ...values: unknown[]) => {
+    if (typeof level !== "string" || !LOG_LEVELS.has(level)) {
+      throw new Error(
+        `log(level, message) expects a level of ${[...LOG_LEVELS].join(", ")}`,
+      );
+    }
+    emit(level as ScriptLogLevel, values.map(formatValue).join("\t"));
+  });
+}
+
+/**
+ * Deliver messages to a listener within the per-execution output bounds.
+ *
+ * @param onLog - Receives each message; without one, messages are dropped
+ * @returns A function that delivers one message
+ */
+export function createLogEmitter(
+  onLog: ((entry: ScriptLogEntry) => void) | undefined,
+): (level: ScriptLogLevel, message: string) => void {
+  let entries = 0;
+  let chars = 0;
+  let truncated = false;
+
+  return (level, message) => {
+    if (!onLog || truncated) return;
+
+    const remaining = DEFAULT_MAX_LOG_CHARS - chars;
+    if (entries >= DEFAULT_MAX_LOG_ENTRIES || remaining <= 0) {
+      truncated = true;
+      onLog({
+        level: "warn",
+        message: `Log output truncated: more than ${DEFAULT_MAX_LOG_ENTRIES} messages or ${DEFAULT_MAX_LOG_CHARS} characters`,
+      });
+      return;
+    }
+
+    const text =
+      message.length > remaining ? `${message.slice(0, remaining)}…` : message;
+    entries++;
+    chars += text.length;
+    onLog({ level, message: text });
+  };
+}
+
+/**
+ * Format a value like tostring(), except that tables are shown as JSON
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "nil";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "function") {
+    return "function";
+  }
+  if (typeof value === "object") {
+    try {
+      return JSON.stringify(fromLuaValue(value)) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
@@ -0,0 +1,156 @@
+import type { LuaEngine } from "wasmoon";
+import { observed } from "./execution-guard.js";
+
+/**
+ * Number of tasks parallel_map() runs at once when no concurrency is given.
+ */
+export const DEFAULT_PARALLEL_CONCURRENCY = 5;
+
+/**
+ * Lua side of the parallel primitives.
+ *
+ * Tool functions already return promises, so await_all()/await_any() only need
+ * to combine them in JavaScript and await the combined promise.
+ *
+ * parallel_map() runs each call of fn in its own coroutine. When fn calls
+ * :await(), wasmoon yields the pending promise out of that coroutine, which
+ * lets this scheduler start other tasks and resume whichever finishes first.
+ */
+const PARALLEL_PRELUDE = `
+local helpers = __parallel
+__parallel = nil
+
+-- The sandbox removes coroutine from the globals once this is installed
+local coroutine, math, pairs, error = coroutine, math, pairs, error
+
+local all, any, first, resolve = helpers.all, helpers.any, helpers.first, helpers.resolve
+
+function await_all(promises)
+  return all(promises):await()
+end
+
+function await_any(promises)
+  local settled = any(promises):await()
+  return settled.value, settled.index
+end
+
+function parallel_map(items, fn, concurrency)
+  local count = #items
+  concurrency = math.max(1, math.floor(concurrency or ${DEFAULT_PARALLEL_CONCURRENCY}))
+
+  local results = {}
+  local tasks = {}
+  local pending = {}
+  local next_item = 1
+  local running = 0
+  local completed = 0
+
+  local function step(index, ...)
+    local task = tasks[index]
+    local ok, value = coroutine.resume(task, ...)
+    if not ok then
+      error(value, 0)
+    end
+
+    if coroutine.status(task) == "dead" then
+      results[index] = value
+      tasks[index] = nil
+      pending[index] = nil
+      running = running - 1
+      completed = completed + 1
+    else
+      -- The task is waiting on a promise (or yielded without one)
+      if value == nil then
+        pending[index] = false
+      else
+        pending[index] = value
+      end
+    end
+  end
+
+  while completed < count do
+    while running < concurrency and next_item <= count do
+      local index = next_item
+      next_item = next_item + 1
+      tasks[index] = coroutine.create(function(item)
+        -- fn may return a promise instead of awaiting it itself
+        return resolve(fn(item, index)):await()
+      end)
+      running = running + 1
+      step(index, items[index])
+    end
+
+    local waiting, indices = {}, {}
+    for index, promise in pairs(pending) do
+      waiting[#waiting + 1] = promise
+      indices[#indices + 1] = index
+    end
+
+    if #waiting > 0 then
+      local settled = first(waiting):await()
+      step(indices[settled])
+    end
+  end
+
+  return results
+end
+`;
+
+/**
+ * Install await_all(), await_any() and parallel_map() as Lua globals.
+ *
+ * @param engine - The engine to install the primitives into
+ */
+export async function installParallelPrimitives(
+  engine: LuaEngine,
+): Promise<void> {
+  engine.global.set("__parallel", {
+    all: (promises: unknown[]) => observed(Promise.all(toArray(promises))),
+    any: (promises: unknown[]) => observed(firstSuccess(toArray(promises))),
+    // Resolves with the 1-based index of the first promise to settle
+    first: (promises: unknown[]) =>
+      Promise.race(
+        toArray(promises).map((promise, i) =>
+          Promise.resolve(promise).then(
+            () => i + 1,
+            () => i + 1,
+          ),
+        ),
+      ),
+    resolve: (value: unknown) => Promise.resolve(value),
+  });
+
+  await engine.doString(PARALLEL_PRELUDE);
+}
+
+/**
+ * Resolve with the value and 1-based index of the first promise to fulfill
+ */
+async function firstSuccess(
+  promises: unknown[],
+): Promise<{ value: unknown; index: number }> {
+  const entries = promises.map((promise, i) =>
+    Promise.resolve(promise).then((value) => ({ value, index: i + 1 })),
+  );
+  try {
+    return await Promise.any(entries);
+  } catch (error) {
+    const reasons = (error as AggregateError).errors ?? [];
+    throw new Error(
+      `All promises passed to await_any failed: ${reasons
+        .map((reason) =>
+          reason instanceof Error ? reason.message : String(reason),
+        )
+        .join("; ")}`,
+    );
+  }
+}
+
+/**
+ * Lua tables that are not plain sequences arrive as objects rather than arrays
+ */
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object") return Object.values(value);
+  throw new Error("Expected a list of promises");
+}
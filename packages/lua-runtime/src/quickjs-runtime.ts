@@ -0,0 +1,498 @@
+import {
+  newQuickJSWASMModule,
+  type QuickJSContext,
+  type QuickJSDeferredPromise,
+  type QuickJSHandle,
+  type QuickJSRuntime as QuickJSEngine,
+  type QuickJSWASMModule,
+} from "quickjs-emscripten";
+import type {
+  ILuaRuntime,
+  ILogger,
+  IMCPClientSession,
+  OutputValidationMode,
+  RuntimeOptions,
+  ScriptExecutionOptions,
+  ScriptLogLevel,
+} from "./types.js";
+import {
+  DEFAULT_SCRIPT_LIMITS,
+  resolveScriptLimits,
+  ScriptCancelledError,
+  ScriptLimitError,
+  type ScriptLimits,
+} from "./limits.js";
+import { ExecutionGuard, type GuardedEngine } from "./execution-guard.js";
+import { createClientRequests } from "./client-requests.js";
+import { createScriptState } from "./script-state.js";
+import { fromLuaValue } from "./json.js";
+import { createLogEmitter, LOG_LEVELS } from "./logs.js";
+import {
+  createScriptError,
+  SCRIPT_CHUNK_NAME,
+  ToolCallError,
+  type FailedToolCall,
+} from "./script-error.js";
+import { createReadResource } from "./resource-access.js";
+import {
+  createServerTable,
+  type ScriptValueConversion,
+} from "./server-table.js";
+import { sanitizeLuaIdentifier } from "@my-cool-proxy/mcp-utilities";
+
+/**
+ * QuickJS calls its interrupt handler about once per 10000 loop iterations
+ * and function calls
+ */
+const INTERRUPT_INTERVAL = 10_000;
+
+/**
+ * JavaScript values cross as JSON, so arguments pass through unchanged
+ */
+const JS_VALUE_CONVERSION: ScriptValueConversion = {
+  toArguments: (value) => value ?? {},
+  toScript: (value) => value,
+};
+
+/**
+ * Freezes `input` and everything in it
+ */
+const FREEZE_INPUT = `(function freeze(value) {
+  if (value !== null && typeof value === "object") {
+    Object.values(value).forEach(freeze);
+    Object.freeze(value);
+  }
+})(globalThis.input);`;
+
+type EvalResult = ReturnType<QuickJSContext["evalCode"]>;
+
+/**
+ * Runs JavaScript in a QuickJS engine compiled to WebAssembly, with the same
+ * globals as WasmoonRuntime: a table per server whose tool functions return
+ * promises, `result()`, `input`, `state`, logging, `read_resource()`,
+ * `sample()` and `elicit()`.
+ *
+ * The script is the body of an async function, so it can `await` calls and
+ * `return` its result. Every execution gets a fresh QuickJS runtime; they are
+ * cheap enough that this runtime doesn't pool them.
+ */
+export class QuickJSRuntime implements ILuaRuntime {
+  private module?: Promise<QuickJSWASMModule>;
+  private limits: ScriptLimits;
+  private outputValidation: OutputValidationMode;
+
+  /**
+   * @param logger Logger for runtime diagnostics
+   * @param limits Default execution limits, merged over DEFAULT_SCRIPT_LIMITS
+   * @param options Runtime behaviour shared by all executions
+   */
+  constructor(
+    private logger: ILogger,
+    limits?: Partial<ScriptLimits>,
+    options?: RuntimeOptions,
+  ) {
+    this.limits = { ...DEFAULT_SCRIPT_LIMITS, ...limits };
+    this.outputValidation = options?.outputValidation ?? "warn";
+  }
+
+  async executeScript(
+    script: string,
+    mcpServers: Map<string, IMCPClientSession>,
+    options?: ScriptExecutionOptions,
+  ): Promise<unknown> {
+    this.logger.debug(`Executing JavaScript:\n${script}`);
+
+    const finalResult: { called: boolean; value?: unknown } = {
+      called: false,
+    };
+    let failedCall: FailedToolCall | undefined;
+    this.module ??= newQuickJSWASMModule();
+    const module = await this.module;
+    const engine = module.newRuntime();
+    const context = engine.newContext();
+    const bridge = new HostBridge(engine, context);
+    const guard = new ExecutionGuard(
+      guardQuickJS(engine, context),
+      resolveScriptLimits(this.limits, options?.limits),
+      options?.signal,
+    );
+
+    try {
+      // Add a function to return the final result
+      bridge.setGlobal("result", (value: unknown) => {
+        finalResult.called = true;
+        finalResult.value = value;
+      });
+
+      // Let the script report its own progress; a no-op without a listener
+      bridge.setGlobal(
+        "progress",
+        (message: unknown, current: unknown, total: unknown) => {
+          options?.onProgress?.({
+            message: message === undefined ? undefined : String(message),
+            current: typeof current === "number" ? current : undefined,
+            total: typeof total === "number" ? total : undefined,
+          });
+        },
+      );
+
+      // print(), log() and console go to the caller instead of stdout
+      const emit = createLogEmitter(options?.onLog);
+      const logAt =
+        (level: ScriptLogLevel) =>
+        (...values: unknown[]) =>
+          emit(level, values.map(formatValue).join(" "));
+      bridge.setGlobal("print", logAt("info"));
+      bridge.setGlobal("log", (level: unknown, ...values: unknown[]) => {
+        if (typeof level !== "string" || !LOG_LEVELS.has(level)) {
+          throw new Error(
+            `log(level, message) expects a level of ${[...LOG_LEVELS].join(", ")}`,
+          );
+        }
+        logAt(level as ScriptLogLevel)(...values);
+      });
+      bridge.setGlobal("console", {
+        log: logAt("info"),
+        info: logAt("info"),
+        warn: logAt("warn"),
+        error: logAt("error"),
+        debug: logAt("debug"),
+      });
+
+      // Inject every server; the Lua tokenizer used to find the servers a
+      // Lua script refers to doesn't understand JavaScript
+      for (const [serverName, client] of mcpServers) {
+        try {
+          const tools = await client.listTools();
+          bridge.setGlobal(
+            sanitizeLuaIdentifier(serverName),
+            createServerTable(serverName, client, tools, {
+              logger: this.logger,
+              guard,
+              options,
+              outputValidation: this.outputValidation,
+              conversion: JS_VALUE_CONVERSION,
+              onCallFailed: (call) => {
+                failedCall = call;
+              },
+            }),
+          );
+        } catch (error) {
+          this.logger.error(
+            `Failed to inject MCP server '${serverName}':`,
+            error as Error,
+          );
+        }
+      }
+
+      // Read any namespaced resource URI, e.g. from a tool's resource_link
+      bridge.setGlobal(
+        "read_resource",
+        createReadResource(mcpServers, guard, options?.readResource),
+      );
+
+      // sample() and elicit() go to the downstream client
+      const { sample, elicit } = createClientRequests(options, guard);
+      bridge.setGlobal("sample", sample);
+      bridge.setGlobal("elicit", elicit);
+
+      // state.get/set/delete/keys persist between executions
+      bridge.setGlobal("state", createScriptState(options?.state));
+
+      // Structured input from the caller, so scripts never splice data into source
+      bridge.setGlobal("input", options?.input ?? {});
+      bridge.evaluate(FREEZE_INPUT);
+
+      guard.start();
+      // A tool call racing the deadline ends the wait even if the script
+      // swallows its error and never settles
+      const returned = await guard.wrap(bridge.run(script));
+
+      // The script may have caught a limit error right before finishing
+      const stopError = guard.getStopError(undefined, finalResult);
+      if (stopError) throw stopError;
+
+      return finalResult.called ? finalResult.value : returned;
+    } catch (error) {
+      const stopError =
+        error instanceof ScriptLimitError ||
+        error instanceof ScriptCancelledError
+          ? error
+          : guard.getStopError(error, finalResult);
+      if (stopError instanceof ScriptCancelledError) {
+        this.logger.info("JavaScript cancelled by the caller");
+        throw stopError;
+      }
+      if (stopError) {
+        this.logger.warn(
+          `JavaScript stopped: ${stopError.limit} limit exceeded`,
+        );
+        throw stopError;
+      }
+
+      this.logger.error("JavaScript execution failed", error as Error);
+
+      // Report the position, the failing tool call and any partial result
+      throw createScriptError(error, script, failedCall, finalResult);
+    } finally {
+      guard.dispose();
+      bridge.dispose();
+      try {
+        context.dispose();
+        engine.dispose();
+      } catch (error) {
+        // QuickJS aborts its WebAssembly module when objects outlive the
+        // runtime; later executions load a new one
+        this.logger.error("Failed to dispose QuickJS runtime", error as Error);
+        this.module = undefined;
+      }
+    }
+  }
+}
+
+/**
+ * Moves values between the host and a QuickJS context. Host functions become
+ * guest functions, and host promises guest promises that settle when the
+ * host's do.
+ */
+class HostBridge {
+  private readonly pending = new Set<QuickJSDeferredPromise>();
+  private disposed = false;
+
+  constructor(
+    private readonly engine: QuickJSEngine,
+    private readonly context: QuickJSContext,
+  ) {}
+
+  setGlobal(name: string, value: unknown): void {
+    const handle = this.toHandle(value);
+    this.context.setProp(this.context.global, name, handle);
+    handle.dispose();
+  }
+
+  /**
+   * Evaluate code that sets up the context
+   */
+  evaluate(code: string): void {
+    this.take(this.context.evalCode(code)).dispose();
+  }
+
+  /**
+   * Run the script as the body of an async function. The wrapper starts on
+   * the script's first line, so that line numbers in errors are the script's.
+   *
+   * @returns The value the script returned
+   */
+  async run(script: string): Promise<unknown> {
+    const promise = this.take(
+      this.context.evalCode(`(async () => {${script}\n})()`, SCRIPT_CHUNK_NAME),
+    );
+    const settled = this.context.resolvePromise(promise);
+    promise.dispose();
+    this.executePendingJobs();
+
+    const value = this.take(await settled);
+    try {
+      return this.context.dump(value);
+    } finally {
+      value.dispose();
+    }
+  }
+
+  /**
+   * Forget promises the script is still waiting for. Call this before the
+   * context is disposed.
+   */
+  dispose(): void {
+    this.disposed = true;
+    for (const deferred of this.pending) {
+      deferred.dispose();
+    }
+    this.pending.clear();
+  }
+
+  private take(result: EvalResult): QuickJSHandle {
+    if (result.error) {
+      const error = this.context.dump(result.error);
+      result.error.dispose();
+      throw toHostError(error);
+    }
+    return result.value;
+  }
+
+  private executePendingJobs(): void {
+    const result = this.engine.executePendingJobs();
+    // A job that fails rejects the script's promise; run() reports it there
+    result.error?.dispose();
+  }
+
+  private toHandle(value: unknown): QuickJSHandle {
+    const context = this.context;
+    if (value === undefined) return context.undefined;
+    if (value === null) return context.null;
+    if (typeof value === "boolean") return value ? context.true : context.false;
+    if (typeof value === "number") return context.newNumber(value);
+    if (typeof value === "string") return context.newString(value);
+    if (typeof value === "function") {
+      return this.newFunction(value as (...args: unknown[]) => unknown);
+    }
+    if (value instanceof Promise) return this.newPromise(value);
+    if (value instanceof Error) return this.newError(value);
+
+    if (Array.isArray(value)) {
+      const array = context.newArray();
+      value.forEach((item, index) => this.setProp(array, index, item));
+      return array;
+    }
+    if (typeof value === "object") {
+      const object = context.newObject();
+      for (const [key, item] of Object.entries(value)) {
+        this.setProp(object, key, item);
+      }
+      return object;
+    }
+    return context.newString(String(value));
+  }
+
+  private setProp(
+    target: QuickJSHandle,
+    key: string | number,
+    value: unknown,
+  ): void {
+    const handle = this.toHandle(value);
+    this.context.setProp(target, key, handle);
+    handle.dispose();
+  }
+
+  private newFunction(fn: (...args: unknown[]) => unknown): QuickJSHandle {
+    return this.context.newFunction(fn.name, (...argHandles) => {
+      try {
+        const args = argHandles.map((handle) => this.context.dump(handle));
+        return this.toHandle(fromLuaValue(fn(...args)));
+      } catch (error) {
+        return { error: this.newError(error) };
+      }
+    });
+  }
+
+  private newPromise(promise: Promise<unknown>): QuickJSHandle {
+    const deferred = this.context.newPromise();
+    this.pending.add(deferred);
+
+    const settle = (outcome: QuickJSHandle, resolved: boolean) => {
+      if (resolved) {
+        deferred.resolve(outcome);
+      } else {
+        deferred.reject(outcome);
+      }
+      outcome.dispose();
+      deferred.dispose();
+      this.pending.delete(deferred);
+      this.executePendingJobs();
+    };
+    promise.then(
+      (value) => {
+        if (this.disposed) return;
+        try {
+          settle(this.toHandle(fromLuaValue(value)), true);
+        } catch (error) {
+          settle(this.newError(error), false);
+        }
+      },
+      (error) => {
+        if (this.disposed) return;
+        settle(this.newError(error), false);
+      },
+    );
+
+    return deferred.handle;
+  }
+
+  /**
+   * Create a guest Error; a ToolCallError keeps its server, tool and content
+   */
+  private newError(error: unknown): QuickJSHandle {
+    const handle = this.context.newError(
+      error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: "Error", message: String(error) },
+    );
+    if (error instanceof ToolCallError) {
+      this.setProp(handle, "server", error.server);
+      this.setProp(handle, "tool", error.tool);
+      this.setProp(handle, "content", error.content);
+    }
+    return handle;
+  }
+}
+
+/**
+ * Let an ExecutionGuard control a QuickJS runtime through its interrupt
+ * handler and memory limit. QuickJS raises interrupts as an uncatchable
+ * `InternalError: interrupted`.
+ */
+function guardQuickJS(
+  engine: QuickJSEngine,
+  context: QuickJSContext,
+): GuardedEngine {
+  return {
+    checkInterval: INTERRUPT_INTERVAL,
+    install(maxMemoryBytes, check) {
+      engine.setMemoryLimit(maxMemoryBytes);
+      engine.setInterruptHandler(() => check() !== undefined);
+    },
+    uninstall() {
+      engine.removeInterruptHandler();
+    },
+    memoryUsed() {
+      try {
+        const handle = engine.computeMemoryUsage();
+        const usage = context.dump(handle) as { memory_used_size?: number };
+        handle.dispose();
+        return usage.memory_used_size ?? 0;
+      } catch {
+        return 0;
+      }
+    },
+  };
+}
+
+/**
+ * Turn an error the script threw into one createScriptError() understands:
+ * `script:<line>: <name>: <message>`, with the line taken from the stack
+ */
+function toHostError(error: unknown): Error {
+  if (error === null || typeof error !== "object" || !("message" in error)) {
+    return new Error(`Uncaught ${formatValue(error)}`);
+  }
+
+  const { name, message, stack, lineNumber } = error as {
+    name?: string;
+    message: string;
+    stack?: string;
+    lineNumber?: number;
+  };
+  const text = `${name ?? "Error"}: ${message}`;
+  const frame = new RegExp(`\\(${SCRIPT_CHUNK_NAME}:(\\d+)`).exec(stack ?? "");
+  const line = frame ? Number(frame[1]) : lineNumber;
+  return new Error(
+    line !== undefined ? `${SCRIPT_CHUNK_NAME}:${line}: ${text}` : text,
+  );
+}
+
+/**
+ * Format a value like console.log(), except that objects are shown as JSON
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "object" && value !== null) {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
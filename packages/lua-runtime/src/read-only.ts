@@ -0,0 +1,180 @@
+import {
+  isPlainObject,
+  JSON_ARRAY,
+  JSON_NULL,
+  JSON_OBJECT,
+  toLuaTables,
+} from "./json.js";
+import {
+  LuaType,
+  LuaTypeExtension,
+  type LuaEngine,
+  type LuaGlobal,
+  type LuaThread,
+} from "wasmoon";
+
+/**
+ * Metatable name of read-only tables
+ */
+export const READ_ONLY_TABLE = "read-only table";
+
+/**
+ * Returns a function that sets a global to a read-only copy of a table. The
+ * copy is a proxy whose fields can be read, iterated with pairs() or ipairs()
+ * and measured with #, but not assigned. The fields live in the metatable's
+ * __index table so that the proxy itself stays empty. The functions it relies
+ * on are captured as upvalues, so scripts can't change what it does.
+ *
+ * Marked tables are recognized by the name their protected metatable reports
+ * to getmetatable().
+ */
+const FREEZE_PRELUDE = `
+local next, type, tostring, error, rawset, getmetatable, setmetatable, G =
+  next, type, tostring, error, rawset, getmetatable, setmetatable, _G
+local markers = { ["${JSON_ARRAY}"] = json.array, ["${JSON_OBJECT}"] = json.object }
+
+local function freeze(value, path)
+  if type(value) ~= "table" then
+    return value
+  end
+  local marker = getmetatable(value)
+  if marker == "${JSON_NULL}" or marker == "${READ_ONLY_TABLE}" then
+    return value
+  end
+
+  local fields = {}
+  for key, item in next, value do
+    fields[key] = freeze(item, path .. "." .. tostring(key))
+  end
+  -- Keep json.array()/json.object() markers for the conversion to JavaScript
+  if markers[marker] then
+    markers[marker](fields)
+  end
+
+  return setmetatable({}, {
+    __name = "${READ_ONLY_TABLE}",
+    __index = fields,
+    __newindex = function()
+      error(path .. " is read-only", 2)
+    end,
+    __len = function()
+      return #fields
+    end,
+    __pairs = function()
+      return next, fields, nil
+    end,
+    __metatable = "${READ_ONLY_TABLE}",
+  })
+end
+
+return function(name, value)
+  rawset(G, name, freeze(value, name))
+end
+`;
+
+/**
+ * The function FREEZE_PRELUDE returns, for each engine
+ */
+const readOnlySetters = new WeakMap<
+  LuaEngine,
+  (name: string, value: unknown) => void
+>();
+
+/**
+ * Converts read-only tables back to JavaScript.
+ *
+ * wasmoon reads tables with lua_next, which would see the empty proxy, so
+ * this converts the table holding the fields instead. That keeps read-only
+ * values usable as tool arguments and in result().
+ */
+class ReadOnlyTableExtension extends LuaTypeExtension<unknown> {
+  constructor(thread: LuaGlobal) {
+    super(thread, READ_ONLY_TABLE);
+  }
+
+  override isType(
+    _thread: LuaThread,
+    _index: number,
+    type: LuaType,
+    name?: string,
+  ): boolean {
+    return type === LuaType.Table && name === READ_ONLY_TABLE;
+  }
+
+  override getValue(
+    thread: LuaThread,
+    index: number,
+    userdata?: unknown,
+  ): unknown {
+    thread.lua.luaL_getmetafield(thread.address, index, "__index");
+    try {
+      return thread.getValue(-1, undefined, userdata);
+    } finally {
+      thread.pop();
+    }
+  }
+
+  override pushValue(): boolean {
+    // Read-only tables are only created from Lua
+    return false;
+  }
+
+  close(): void {}
+}
+
+/**
+ * Register support for read-only tables on an engine. Must run after
+ * installJson(), since values are pushed with its markers.
+ *
+ * @param engine - The engine to register with
+ */
+export async function installReadOnlyTables(engine: LuaEngine): Promise<void> {
+  engine.global.registerTypeExtension(
+    10,
+    new ReadOnlyTableExtension(engine.global),
+  );
+  readOnlySetters.set(engine, await engine.doString(FREEZE_PRELUDE));
+}
+
+/**
+ * Set a global to a read-only copy of a JSON value. The value is pushed as
+ * tables rather than compiled as Lua source, with the same rules as the Lua
+ * snippets generated elsewhere (see toLuaTables), and frozen in Lua.
+ *
+ * @param engine - The engine to set the global on
+ * @param name - Name of the global
+ * @param value - JSON value
+ */
+export function setReadOnlyGlobal(
+  engine: LuaEngine,
+  name: string,
+  value: unknown,
+): void {
+  readOnlySetters.get(engine)!(name, toLuaTables(value));
+}
+
+/**
+ * Wrap a JavaScript object handed to Lua, such as a server table, so that
+ * scripts can read its fields but not assign or remove them. wasmoon passes
+ * objects to Lua as proxies that write through to the object, so the Lua
+ * freeze above doesn't apply. Nested plain objects are wrapped too.
+ *
+ * @param value - The object to wrap
+ * @param path - Name used in errors, e.g. `github`
+ */
+export function readOnlyObject<T extends object>(value: T, path: string): T {
+  const reject = (key: string | symbol): never => {
+    throw new Error(`${path}.${String(key)} is read-only`);
+  };
+  return new Proxy(value, {
+    get(target, key, receiver) {
+      const item = Reflect.get(target, key, receiver);
+      return typeof key === "string" && isPlainObject(item)
+        ? readOnlyObject(item, `${path}.${key}`)
+        : item;
+    },
+    set: (_target, key) => reject(key),
+    deleteProperty: (_target, key) => reject(key),
+    defineProperty: (_target, key) => reject(key),
+  });
+}
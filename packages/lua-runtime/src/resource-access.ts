@@ -0,0 +1,146 @@
+import {
+  namespaceGetPromptResultResources,
+  namespaceResource,
+  namespaceResourceUri,
+  parseResourceUri,
+} from "@my-cool-proxy/mcp-utilities";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { observed, type CallGuard } from "./execution-guard.js";
+import type { IMCPClientSession } from "./types.js";
+
+/**
+ * Build the `resources` and `prompts` tables added to a server table.
+ *
+ * Like tool calls, every function returns a promise that the script unwraps
+ * with :await(). Resource URIs in results are namespaced the same way as in
+ * tool results, so they can be passed straight to read_resource().
+ *
+ * @param serverName - Original (non-sanitized) server name
+ * @param client - Session for the server
+ * @param guard - Guard of the running script
+ */
+export function createServerResourceApi(
+  serverName: string,
+  client: IMCPClientSession,
+  guard: CallGuard,
+): { resources: Record<string, unknown>; prompts: Record<string, unknown> } {
+  return {
+    resources: {
+      list: () =>
+        observed(
+          guard.wrap(
+            client
+              .listResources()
+              .then((resources) =>
+                resources.map((resource) =>
+                  namespaceResource(serverName, resource),
+                ),
+              ),
+          ),
+        ),
+      read: (uri: unknown) => {
+        if (typeof uri !== "string") {
+          throw new Error(
+            `${serverName}.resources.read(uri) expects a string URI`,
+          );
+        }
+        // Accept URIs this server returned in namespaced form
+        const parsed = parseResourceUri(uri);
+        const originalUri =
+          parsed?.serverName === serverName ? parsed.originalUri : uri;
+        return observed(readResource(serverName, client, originalUri, guard));
+      },
+    },
+    prompts: {
+      list: () => observed(guard.wrap(client.listPrompts())),
+      get: (name: unknown, args?: unknown) => {
+        if (typeof name !== "string") {
+          throw new Error(
+            `${serverName}.prompts.get(name, args) expects a string name`,
+          );
+        }
+        return observed(
+          guard.wrap(
+            client
+              .getPrompt(
+                { name, arguments: toPromptArguments(args) },
+                { signal: guard.signal },
+              )
+              .then((result) =>
+                namespaceGetPromptResultResources(serverName, result),
+              ),
+          ),
+        );
+      },
+    },
+  };
+}
+
+/**
+ * Build the global read_resource(uri) function, which reads a namespaced
+ * `mcp://{server-name}/{uri}` URI from any server available to the script.
+ *
+ * @param mcpServers - Servers available to the script, by original name
+ * @param guard - Guard of the running script
+ * @param readHosted - Reads URIs of other servers, such as resources the
+ * gateway hosts itself
+ */
+export function createReadResource(
+  mcpServers: Map<string, IMCPClientSession>,
+  guard: CallGuard,
+  readHosted?: (uri: string) => Promise<ReadResourceResult>,
+): (uri: unknown) => Promise<ReadResourceResult> {
+  return (uri: unknown) => {
+    const parsed = typeof uri === "string" ? parseResourceUri(uri) : null;
+    if (!parsed) {
+      throw new Error(
+        `Invalid resource URI: '${String(uri)}'. Expected format: mcp://{server-name}/{uri}`,
+      );
+    }
+
+    const client = mcpServers.get(parsed.serverName);
+    if (!client && readHosted) {
+      return observed(guard.wrap(readHosted(uri as string)));
+    }
+    if (!client) {
+      const available = Array.from(mcpServers.keys()).join(", ");
+      throw new Error(
+        `Server '${parsed.serverName}' not found. Available servers: ${available || "none"}`,
+      );
+    }
+
+    return observed(
+      readResource(parsed.serverName, client, parsed.originalUri, guard),
+    );
+  };
+}
+
+async function readResource(
+  serverName: string,
+  client: IMCPClientSession,
+  uri: string,
+  guard: CallGuard,
+): Promise<ReadResourceResult> {
+  const result = await guard.wrap(
+    client.readResource({ uri }, { signal: guard.signal }),
+  );
+  return {
+    ...result,
+    contents: result.contents.map((content) => ({
+      ...content,
+      uri: namespaceResourceUri(serverName, content.uri),
+    })),
+  };
+}
+
+/**
+ * Prompt arguments are string-valued in MCP; stringify whatever Lua passed
+ */
+function toPromptArguments(args: unknown): Record<string, string> | undefined {
+  if (!args || typeof args !== "object") {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [key, String(value)]),
+  );
+}
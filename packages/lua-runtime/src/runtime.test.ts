@@ -1,11 +1,22 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { LuaFactory } from "wasmoon";
 import { WasmoonRuntime } from "./runtime.js";
+import { QuickJSRuntime } from "./quickjs-runtime.js";
+import { MAX_STRING_REP_BYTES, SAFE_GLOBALS } from "./sandbox.js";
+import { ScriptCancelledError, ScriptLimitError } from "./limits.js";
+import { DEFAULT_MAX_LOG_ENTRIES } from "./logs.js";
+import { ScriptAnalysisError, ScriptError } from "./script-error.js";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import * as z from "zod";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import type { ILogger, IMCPClientSession } from "./types.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ILogger, IMCPClientSession, ScriptState } from "./types.js";
 
 // Mock logger factory
 const createMockLogger = (): ILogger => ({
@@ -30,6 +41,34 @@ class TestMCPClientSession implements IMCPClientSession {
     return result.tools;
   }
 
+  async listResources() {
+    const result = await this.client.listResources();
+    return result.resources;
+  }
+
+  async readResource(
+    params: { uri: string },
+    options?: { signal?: AbortSignal },
+  ) {
+    return this.client.readResource(params, options);
+  }
+
+  async listPrompts() {
+    const result = await this.client.listPrompts();
+    return result.prompts;
+  }
+
+  async getPrompt(
+    params: { name: string; arguments?: Record<string, string> },
+    options?: { signal?: AbortSignal },
+  ) {
+    return this.client.getPrompt(params, options);
+  }
+
+  getServerCapabilities() {
+    return this.client.getServerCapabilities();
+  }
+
   get experimental() {
     return this.client.experimental as IMCPClientSession["experimental"];
   }
@@ -47,6 +86,7 @@ async function createTestServer(
     description: string;
     handler: (args: Record<string, unknown>) => Promise<CallToolResult>;
   }>,
+  setup?: (server: McpServer) => void,
 ): Promise<{ server: McpServer; client: IMCPClientSession }> {
   const server = new McpServer(
     {
@@ -75,6 +115,8 @@ async function createTestServer(
     );
   }
 
+  setup?.(server);
+
   // Create linked transports
   const [clientTransport, serverTransport] =
     InMemoryTransport.createLinkedPair();
@@ -129,9 +171,10 @@ describe("WasmoonRuntime", () => {
       expect(result).toBe(42);
     });
 
-    it("should provide helpful error for shadowed result function", async () => {
+    it("should reject assigning the global result function", async () => {
+      // Assigning the global is not caught by the pre-flight checks
       const script = `
-        local result = github.search_issues({ query = "test" }):await()
+        result = github.search_issues({ query = "test" }):await()
         result(result)  -- This tries to call the returned data as function
       `;
 
@@ -155,13 +198,11 @@ describe("WasmoonRuntime", () => {
         .executeScript(script, new Map([["github", client]]))
         .catch((err) => err);
 
-      expect(error).toBeInstanceOf(Error);
-      expect((error as Error).message).toContain(
-        "TypeError: self is not a function",
-      );
-      expect((error as Error).message).toContain(
-        "HINT: You may have shadowed the global 'result' function",
-      );
+      expect(error).toBeInstanceOf(ScriptError);
+      expect((error as ScriptError).details).toMatchObject({
+        line: 2,
+        message: "result is read-only",
+      });
     });
 
     it("should execute Lua math operations", async () => {
@@ -285,9 +326,280 @@ describe("WasmoonRuntime", () => {
       const result = await runtime.executeScript(script, new Map());
       expect(result).toBe(4);
     });
+
+    describe("regressions", () => {
+      it.each([
+        "load",
+        "loadstring",
+        "dofile",
+        "loadfile",
+        "require",
+        "package",
+        "collectgarbage",
+        "coroutine",
+        "rawset",
+        "warn",
+        "os",
+        "io",
+        "debug",
+        "string.dump",
+        'getmetatable("").__index.dump',
+      ])("should not expose %s", async (name) => {
+        await expect(
+          runtime.executeScript(`result(${name} == nil)`, new Map()),
+        ).resolves.toBe(true);
+      });
+
+      it("should only define allow-listed globals and the execution's own", async () => {
+        const names = await runtime.executeScript(
+          `
+          local names = {}
+          for name in pairs(_G) do names[#names + 1] = name end
+          result(names)
+        `,
+          new Map(),
+        );
+
+        expect((names as string[]).sort()).toEqual(
+          [
+            ...SAFE_GLOBALS,
+            "print",
+            "log",
+            "progress",
+            "read_resource",
+            "sample",
+            "elicit",
+            "state",
+          ].sort(),
+        );
+      });
+
+      it("should keep parallel_map working without the coroutine global", async () => {
+        await expect(
+          runtime.executeScript(
+            "result(parallel_map({ 1, 2, 3 }, function(n) return n * 2 end))",
+            new Map(),
+          ),
+        ).resolves.toEqual([2, 4, 6]);
+      });
+
+      it.each([
+        ["result = 1", "result is read-only"],
+        ["_G.result = nil", "result is read-only"],
+        ["setmetatable(_G, nil)", "cannot change a protected metatable"],
+        ["github = {}", "github is read-only"],
+        ["github.search = print", "github.search is read-only"],
+        ["github.resources.list = print", "github.resources.list is read-only"],
+        ["setmetatable(github, {})", "bad argument #1 to 'setmetatable'"],
+        ["github.search = nil", "github.search is read-only"],
+      ])("should reject %s", async (script, message) => {
+        const { server, client } = await createTestServer("github", [
+          {
+            name: "search",
+            description: "Search",
+            handler: async () => ({ content: [] }),
+          },
+        ]);
+        cleanupFns.push(async () => {
+          await client.close();
+          await server.close();
+        });
+
+        await expect(
+          runtime.executeScript(
+            // Refer to github so that it is injected
+            `local _ = github\n${script}`,
+            new Map([["github", client]]),
+          ),
+        ).rejects.toThrow(message);
+      });
+
+      it("should not let a script change the json markers of the next one", async () => {
+        const createEngine = vi.spyOn(LuaFactory.prototype, "createEngine");
+
+        await runtime.executeScript(
+          `
+          for _, value in ipairs({ json.array(), json.object(), json.null }) do
+            local metatable = getmetatable(value)
+            if type(metatable) == "table" then
+              metatable.__name = nil
+            end
+            pcall(setmetatable, value, nil)
+          end
+          json.array = function(t) return t or {} end
+          result(true)
+        `,
+          new Map(),
+        );
+        await new Promise((resolve) => setImmediate(resolve));
+
+        const result = await runtime.executeScript(
+          "result({ ids = json.array(), meta = json.object(), values = { json.null } })",
+          new Map(),
+        );
+
+        expect(result).toEqual({ ids: [], meta: {}, values: [null] });
+        expect(createEngine).toHaveBeenCalledTimes(1);
+        createEngine.mockRestore();
+      });
+
+      it("should not leave protected globals to the next script", async () => {
+        const { server, client } = await createTestServer("github", [
+          {
+            name: "search",
+            description: "Search",
+            handler: async () => ({ content: [] }),
+          },
+        ]);
+        cleanupFns.push(async () => {
+          await client.close();
+          await server.close();
+        });
+
+        await runtime.executeScript(
+          "result(github ~= nil)",
+          new Map([["github", client]]),
+        );
+        await new Promise((resolve) => setImmediate(resolve));
+
+        await expect(
+          runtime.executeScript("result(rawget(_G, 'github'))", new Map()),
+        ).resolves.toBeNull();
+        await expect(
+          runtime.executeScript(
+            "local name = 'git' .. 'hub'\nresult(_G[name] == nil)",
+            new Map(),
+          ),
+        ).resolves.toBe(true);
+      });
+
+      it.each([
+        'string.rep("x", 2^40)',
+        '("ab"):rep(1e8)',
+        'string.rep("", 1e9, ("x"):rep(1024))',
+      ])("should refuse to build huge strings with %s", async (call) => {
+        await expect(
+          runtime.executeScript(`result(${call})`, new Map()),
+        ).rejects.toThrow(`the limit is ${MAX_STRING_REP_BYTES}`);
+      });
+
+      it("should still repeat strings within the limit", async () => {
+        await expect(
+          runtime.executeScript('result(string.rep("ab", 3, "-"))', new Map()),
+        ).resolves.toBe("ab-ab-ab");
+      });
+
+      it("should stop strings that grow by concatenation at the memory limit", async () => {
+        const error = await runtime
+          .executeScript(
+            'local s = "x"\nfor i = 1, 64 do s = s .. s end\nresult(#s)',
+            new Map(),
+            { limits: { maxMemoryBytes: 8 * 1024 * 1024 } },
+          )
+          .catch((err) => err);
+
+        expect(error).toBeInstanceOf(ScriptLimitError);
+        expect((error as ScriptLimitError).limit).toBe("memory");
+      });
+
+      it("should stop loops inside metamethods called from C", async () => {
+        const error = await runtime
+          .executeScript(
+            `
+            local looping = setmetatable({}, {
+              __tostring = function() while true do end end,
+            })
+            result(tostring(looping))
+          `,
+            new Map(),
+            { limits: { maxInstructions: 100_000 } },
+          )
+          .catch((err) => err);
+
+        expect(error).toBeInstanceOf(ScriptLimitError);
+        expect((error as ScriptLimitError).limit).toBe("instructions");
+      });
+
+      it("should stop loops inside sort comparators", async () => {
+        const error = await runtime
+          .executeScript(
+            `
+            local items = { 3, 1, 2 }
+            table.sort(items, function(a, b) while true do end end)
+          `,
+            new Map(),
+            { limits: { timeoutMs: 200 } },
+          )
+          .catch((err) => err);
+
+        expect(error).toBeInstanceOf(ScriptLimitError);
+      });
+    });
   });
 
   describe("MCP server injection", () => {
+    async function createSearchAndFetchServers() {
+      const search = await createTestServer("search", [
+        {
+          name: "query",
+          description: "Search",
+          handler: async () => ({ content: [{ type: "text", text: "[]" }] }),
+        },
+      ]);
+      const fetch = await createTestServer("fetch", [
+        {
+          name: "get_page",
+          description: "Fetch a page",
+          handler: async () => ({ content: [{ type: "text", text: "page" }] }),
+        },
+      ]);
+      cleanupFns.push(async () => {
+        for (const { server, client } of [search, fetch]) {
+          await client.close();
+          await server.close();
+        }
+      });
+      return new Map([
+        ["search", search.client],
+        ["fetch", fetch.client],
+      ]);
+    }
+
+    it("should only list the tools of servers the script refers to", async () => {
+      const servers = await createSearchAndFetchServers();
+      const listFetchTools = vi.spyOn(servers.get("fetch")!, "listTools");
+
+      const result = await runtime.executeScript(
+        "result(search.query({}):await())",
+        servers,
+      );
+      expect(result).toEqual([]);
+      expect(listFetchTools).not.toHaveBeenCalled();
+    });
+
+    it("should inject every server when the script uses _G", async () => {
+      const servers = await createSearchAndFetchServers();
+
+      const result = await runtime.executeScript(
+        'result(_G["fetch"].get_page({}):await().content[1].text)',
+        servers,
+      );
+      expect(result).toBe("page");
+    });
+
+    it("should suggest tools of servers the script doesn't refer to", async () => {
+      const servers = await createSearchAndFetchServers();
+
+      const error = await runtime
+        .executeScript("result(search.get_page({}):await())", servers)
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ScriptAnalysisError);
+      expect((error as ScriptAnalysisError).diagnostics[0]).toMatchObject({
+        severity: "error",
+        suggestion: "fetch.get_page",
+      });
+    });
+
     it("should inject MCP server as global", async () => {
       const { server, client } = await createTestServer("test-server", [
         {
@@ -635,6 +947,113 @@ describe("WasmoonRuntime", () => {
       expect(logger.error).toHaveBeenCalled();
     });
 
+    it("should report the line, column and code frame of a syntax error", async () => {
+      const error = await runtime
+        .executeScript("local a = 1\nlocal b = (a + )\nresult(b)", new Map())
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptError);
+      const { details } = error as ScriptError;
+      expect(details.message).toBe("unexpected symbol near ')'");
+      expect(details.line).toBe(2);
+      expect(details.column).toBe(16);
+      expect(details.codeFrame).toBe(
+        [
+          "  1 | local a = 1",
+          "> 2 | local b = (a + )",
+          "    |                ^",
+          "  3 | result(b)",
+        ].join("\n"),
+      );
+      expect((error as Error).message).toContain("Line 2, column 16:");
+    });
+
+    it("should report runtime errors with the value passed to result()", async () => {
+      const script = [
+        "result({ partial = true })",
+        "local issue = nil",
+        "local title = issue.title",
+      ].join("\n");
+
+      const error = await runtime
+        .executeScript(script, new Map())
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptError);
+      const { details } = error as ScriptError;
+      expect(details).toMatchObject({
+        message: "attempt to index a nil value (local 'issue')",
+        line: 3,
+        column: 15,
+        resultCalled: true,
+        result: { partial: true },
+      });
+      expect(details.toolCall).toBeUndefined();
+    });
+
+    it("should report the tool call that raised the error", async () => {
+      const { server, client } = await createTestServer("github", [
+        {
+          name: "get-issue",
+          description: "Get an issue",
+          // An invalid result shape makes the call itself reject
+          handler: async () =>
+            ({ content: "not a list" }) as unknown as CallToolResult,
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const error = await runtime
+        .executeScript(
+          "local ok = true\nlocal issue = github.get_issue({ id = 7 }):await()",
+          new Map([["github", client]]),
+        )
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptError);
+      const { details } = error as ScriptError;
+      expect(details.line).toBe(2);
+      expect(details.toolCall).toEqual({
+        server: "github",
+        tool: "get-issue",
+        args: { id: 7 },
+      });
+      expect(details.resultCalled).toBe(false);
+      expect((error as Error).message).toContain(
+        'The error came from the call to github.get-issue with arguments: {"id":7}',
+      );
+    });
+
+    it("should not blame a tool call whose error the script caught", async () => {
+      const { server, client } = await createTestServer("github", [
+        {
+          name: "get-issue",
+          description: "Get an issue",
+          handler: async () =>
+            ({ content: "not a list" }) as unknown as CallToolResult,
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const error = await runtime
+        .executeScript(
+          'pcall(function() return github.get_issue({}):await() end)\nerror("later failure")',
+          new Map([["github", client]]),
+        )
+        .catch((err) => err);
+
+      const { details } = error as ScriptError;
+      expect(details.message).toBe("later failure");
+      expect(details.line).toBe(2);
+      expect(details.toolCall).toBeUndefined();
+    });
+
     it("should continue if one server fails to load tools", async () => {
       const { server, client } = await createTestServer("good-server", [
         {
@@ -663,7 +1082,7 @@ describe("WasmoonRuntime", () => {
 
       const script = `
         -- Good server should still be accessible
-        result(good_server ~= nil)
+        result(good_server ~= nil and bad_server == nil)
       `;
 
       const result = await runtime.executeScript(script, servers);
@@ -810,4 +1229,2267 @@ describe("WasmoonRuntime", () => {
       });
     });
   });
+
+  describe("execution limits", () => {
+    it("should stop infinite loops with the instruction limit", async () => {
+      const error = await runtime
+        .executeScript("while true do end", new Map(), {
+          limits: { maxInstructions: 100_000 },
+        })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptLimitError);
+      expect((error as ScriptLimitError).limit).toBe("instructions");
+      expect((error as ScriptLimitError).message).toContain(
+        "instruction limit",
+      );
+    });
+
+    it("should stop infinite loops with the time limit", async () => {
+      const error = await runtime
+        .executeScript("while true do end", new Map(), {
+          limits: { timeoutMs: 100 },
+        })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptLimitError);
+      expect((error as ScriptLimitError).limit).toBe("timeout");
+      expect((error as ScriptLimitError).message).toContain(
+        "execution time limit (100ms)",
+      );
+    });
+
+    it("should not let pcall swallow a limit error", async () => {
+      const script = `
+        while true do
+          pcall(function()
+            while true do end
+          end)
+        end
+      `;
+
+      const error = await runtime
+        .executeScript(script, new Map(), {
+          limits: { maxInstructions: 100_000 },
+        })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptLimitError);
+      expect((error as ScriptLimitError).limit).toBe("instructions");
+    });
+
+    it("should stop scripts that exceed the memory limit", async () => {
+      const script = `
+        local t = {}
+        for i = 1, 1e9 do
+          t[i] = string.rep("x", 1000) .. i
+        end
+      `;
+
+      const error = await runtime
+        .executeScript(script, new Map(), {
+          limits: { maxMemoryBytes: 4 * 1024 * 1024 },
+        })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptLimitError);
+      expect((error as ScriptLimitError).limit).toBe("memory");
+    });
+
+    it("should time out while awaiting a slow tool call", async () => {
+      const { server, client } = await createTestServer("slow", [
+        {
+          name: "wait",
+          description: "Never finishes in time",
+          handler: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 2000));
+            return { content: [{ type: "text" as const, text: "late" }] };
+          },
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const error = await runtime
+        .executeScript(
+          "result(slow.wait({}):await())",
+          new Map([["slow", client]]),
+          { limits: { timeoutMs: 200 } },
+        )
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptLimitError);
+      expect((error as ScriptLimitError).limit).toBe("timeout");
+    });
+
+    it("should report partial state in the limit error", async () => {
+      const { server, client } = await createTestServer("api", [
+        {
+          name: "ping",
+          description: "Ping",
+          handler: async () => ({
+            content: [{ type: "text" as const, text: "pong" }],
+          }),
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const script = `
+        api.ping({}):await()
+        result({ pages = 1 })
+        while true do end
+      `;
+
+      const error = (await runtime
+        .executeScript(script, new Map([["api", client]]), {
+          limits: { maxInstructions: 100_000 },
+        })
+        .catch((err) => err)) as ScriptLimitError;
+
+      expect(error.partialState.toolCallsCompleted).toBe(1);
+      expect(error.partialState.resultCalled).toBe(true);
+      expect(error.partialState.result).toEqual({ pages: 1 });
+      expect(error.message).toContain("Tool calls completed: 1");
+      expect(error.message).toContain('result(): {"pages":1}');
+    });
+
+    it("should only allow per-call limits to tighten configured limits", async () => {
+      const strictRuntime = new WasmoonRuntime(logger, {
+        maxInstructions: 100_000,
+      });
+
+      const error = await strictRuntime
+        .executeScript("while true do end", new Map(), {
+          limits: { maxInstructions: 1_000_000_000 },
+        })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptLimitError);
+      expect((error as ScriptLimitError).limits.maxInstructions).toBe(100_000);
+    });
+
+    it("should run normal scripts within the default limits", async () => {
+      const script = `
+        local sum = 0
+        for i = 1, 10000 do
+          sum = sum + i
+        end
+        result(sum)
+      `;
+
+      const result = await runtime.executeScript(script, new Map());
+      expect(result).toBe(50005000);
+    });
+  });
+
+  describe("parallel tool calls", () => {
+    // Tool that echoes its value back after the requested delay
+    async function createDelayServer(
+      onCall?: (args: Record<string, unknown>) => void,
+    ) {
+      const { server, client } = await createTestServer("api", [
+        {
+          name: "delay",
+          description: "Echo a value after a delay",
+          handler: async (args) => {
+            onCall?.(args);
+            await new Promise((resolve) =>
+              setTimeout(resolve, Number(args.ms ?? 0)),
+            );
+            if (args.fail) {
+              // Invalid result shape makes the call itself reject
+              return {
+                content: `failed ${args.value}`,
+              } as unknown as CallToolResult;
+            }
+            return {
+              content: [
+                { type: "text" as const, text: JSON.stringify(args.value) },
+              ],
+            };
+          },
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return new Map([["api", client]]);
+    }
+
+    it("should await all promises concurrently and keep their order", async () => {
+      const servers = await createDelayServer();
+      const script = `
+        result(await_all({
+          api.delay({ value = 1, ms = 150 }),
+          api.delay({ value = 2, ms = 50 }),
+          api.delay({ value = 3, ms = 100 }),
+        }))
+      `;
+
+      const startedAt = Date.now();
+      const result = await runtime.executeScript(script, servers);
+
+      expect(result).toEqual([1, 2, 3]);
+      expect(Date.now() - startedAt).toBeLessThan(300);
+    });
+
+    it("should fail await_all when any call fails", async () => {
+      const servers = await createDelayServer();
+      const script = `
+        result(await_all({
+          api.delay({ value = 1 }),
+          api.delay({ value = 2, fail = true }),
+        }))
+      `;
+
+      await expect(runtime.executeScript(script, servers)).rejects.toThrow(
+        "Invalid tools/call result",
+      );
+    });
+
+    it("should return the first successful result and its index from await_any", async () => {
+      const servers = await createDelayServer();
+      const script = `
+        local value, index = await_any({
+          api.delay({ value = "slow", ms = 200 }),
+          api.delay({ value = "broken", fail = true }),
+          api.delay({ value = "fast", ms = 20 }),
+        })
+        result({ value = value, index = index })
+      `;
+
+      const result = await runtime.executeScript(script, servers);
+      expect(result).toEqual({ value: "fast", index: 3 });
+    });
+
+    it("should fail await_any when every call fails", async () => {
+      const servers = await createDelayServer();
+      const script = `
+        await_any({
+          api.delay({ value = 1, fail = true }),
+          api.delay({ value = 2, fail = true }),
+        })
+      `;
+
+      await expect(runtime.executeScript(script, servers)).rejects.toThrow(
+        "All promises passed to await_any failed",
+      );
+    });
+
+    it("should map items in parallel and return results in input order", async () => {
+      const servers = await createDelayServer();
+      const script = `
+        local delays = { 120, 40, 80, 10 }
+        result(parallel_map(delays, function(ms, i)
+          local value = api.delay({ value = i * 10, ms = ms }):await()
+          return value + 1
+        end, 4))
+      `;
+
+      const startedAt = Date.now();
+      const result = await runtime.executeScript(script, servers);
+
+      expect(result).toEqual([11, 21, 31, 41]);
+      expect(Date.now() - startedAt).toBeLessThan(250);
+    });
+
+    it("should accept functions that return promises from parallel_map", async () => {
+      const servers = await createDelayServer();
+      const script = `
+        result(parallel_map({ "a", "b" }, function(item)
+          return api.delay({ value = item })
+        end))
+      `;
+
+      const result = await runtime.executeScript(script, servers);
+      expect(result).toEqual(["a", "b"]);
+    });
+
+    it("should bound the number of concurrent calls in parallel_map", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const servers = await createDelayServer(() => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        setTimeout(() => inFlight--, 30);
+      });
+      const script = `
+        local items = {}
+        for i = 1, 8 do items[i] = i end
+        result(parallel_map(items, function(item)
+          return api.delay({ value = item, ms = 30 }):await()
+        end, 2))
+      `;
+
+      const result = await runtime.executeScript(script, servers);
+
+      expect(result).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it("should propagate errors raised inside parallel_map", async () => {
+      const servers = await createDelayServer();
+      const script = `
+        parallel_map({ 1, 2, 3 }, function(item)
+          if item == 2 then
+            error("bad item " .. item)
+          end
+          return api.delay({ value = item }):await()
+        end)
+      `;
+
+      await expect(runtime.executeScript(script, servers)).rejects.toThrow(
+        "bad item 2",
+      );
+    });
+
+    it("should enforce execution limits inside parallel_map tasks", async () => {
+      const error = await runtime
+        .executeScript(
+          "parallel_map({ 1, 2 }, function() while true do end end)",
+          new Map(),
+          { limits: { maxInstructions: 100_000 } },
+        )
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptLimitError);
+      expect((error as ScriptLimitError).limit).toBe("instructions");
+    });
+
+    it("should return an empty table when parallel_map has no items", async () => {
+      const result = await runtime.executeScript(
+        "result(#parallel_map({}, function(item) return item end))",
+        new Map(),
+      );
+      expect(result).toBe(0);
+    });
+  });
+
+  describe("cancellation", () => {
+    // Cancellation is observed whenever the script yields to JavaScript,
+    // e.g. while awaiting a tool call
+    async function createPingServer(onPing?: () => void) {
+      const { server, client } = await createTestServer("api", [
+        {
+          name: "ping",
+          description: "Ping",
+          handler: async () => {
+            onPing?.();
+            // The in-memory transport only uses microtasks; let timers run
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            return { content: [{ type: "text" as const, text: "pong" }] };
+          },
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return new Map([["api", client]]);
+    }
+
+    it("should stop a running script when the signal is aborted", async () => {
+      const controller = new AbortController();
+      let pings = 0;
+      // Abort once some calls have completed, however long setup took
+      const servers = await createPingServer(() => {
+        if (++pings === 3) controller.abort();
+      });
+
+      const error = await runtime
+        .executeScript("while true do api.ping({}):await() end", servers, {
+          signal: controller.signal,
+        })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptCancelledError);
+      expect(
+        (error as ScriptCancelledError).toolCallsCompleted,
+      ).toBeGreaterThan(0);
+    });
+
+    it("should not let pcall swallow a cancellation", async () => {
+      const servers = await createPingServer();
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+
+      const script = `
+        while true do
+          pcall(function()
+            api.ping({}):await()
+          end)
+        end
+      `;
+
+      const error = await runtime
+        .executeScript(script, servers, { signal: controller.signal })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptCancelledError);
+    });
+
+    it("should cancel in-flight tool calls on the upstream server", async () => {
+      const controller = new AbortController();
+      let upstreamSignal: AbortSignal | undefined;
+      const { server, client } = await createTestServer("slow", [], (s) =>
+        s.registerTool(
+          "wait",
+          { description: "Waits until cancelled" },
+          async (extra) => {
+            upstreamSignal = extra.signal;
+            setTimeout(() => controller.abort(), 10);
+            await new Promise((resolve) => setTimeout(resolve, 2000));
+            return { content: [{ type: "text" as const, text: "late" }] };
+          },
+        ),
+      );
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const startedAt = Date.now();
+      const error = await runtime
+        .executeScript(
+          "result(slow.wait({}):await())",
+          new Map([["slow", client]]),
+          { signal: controller.signal },
+        )
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptCancelledError);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      await vi.waitFor(() => expect(upstreamSignal?.aborted).toBe(true));
+    });
+
+    it("should not run a script whose signal is already aborted", async () => {
+      const handler = vi.fn(async () => ({
+        content: [{ type: "text" as const, text: "ok" }],
+      }));
+      const { server, client } = await createTestServer("api", [
+        { name: "ping", description: "Ping", handler },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const error = await runtime
+        .executeScript("api.ping({}):await()", new Map([["api", client]]), {
+          signal: AbortSignal.abort(),
+        })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptCancelledError);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("progress", () => {
+    it("should report progress() calls from the script", async () => {
+      const onProgress = vi.fn();
+
+      await runtime.executeScript(
+        `
+          progress("Loading", 1, 2)
+          progress("Done")
+        `,
+        new Map(),
+        { onProgress },
+      );
+
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        message: "Loading",
+        current: 1,
+        total: 2,
+      });
+      expect(onProgress).toHaveBeenNthCalledWith(2, {
+        message: "Done",
+        current: undefined,
+        total: undefined,
+      });
+    });
+
+    it("should allow progress() without a listener", async () => {
+      const result = await runtime.executeScript(
+        'progress("Loading", 1, 2); result("ok")',
+        new Map(),
+      );
+      expect(result).toBe("ok");
+    });
+
+    it("should relay upstream progress labelled with server and tool", async () => {
+      const { server, client } = await createTestServer(
+        "data-server",
+        [],
+        (s) =>
+          s.registerTool(
+            "long-task",
+            { description: "Reports progress" },
+            async (extra) => {
+              const progressToken = extra._meta?.progressToken;
+              if (progressToken !== undefined) {
+                await extra.sendNotification({
+                  method: "notifications/progress",
+                  params: {
+                    progressToken,
+                    progress: 1,
+                    total: 2,
+                    message: "half",
+                  },
+                });
+              }
+              return { content: [{ type: "text" as const, text: "done" }] };
+            },
+          ),
+      );
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      const onProgress = vi.fn();
+
+      await runtime.executeScript(
+        "data_server.long_task({}):await()",
+        new Map([["data-server", client]]),
+        { onProgress },
+      );
+
+      await vi.waitFor(() =>
+        expect(onProgress).toHaveBeenCalledWith({
+          message: "half",
+          current: 1,
+          total: 2,
+          server: "data-server",
+          tool: "long-task",
+        }),
+      );
+    });
+  });
+
+  describe("resources and prompts", () => {
+    async function createDocsServer() {
+      const { server, client } = await createTestServer(
+        "docs-server",
+        [
+          {
+            name: "find",
+            description: "Returns a link to a document",
+            handler: async () => ({
+              content: [
+                {
+                  type: "resource_link" as const,
+                  uri: "file:///readme.md",
+                  name: "readme",
+                },
+              ],
+            }),
+          },
+        ],
+        (s) => {
+          s.registerResource(
+            "readme",
+            "file:///readme.md",
+            { mimeType: "text/markdown" },
+            async (uri) => ({
+              contents: [{ uri: uri.href, text: "# Hello" }],
+            }),
+          );
+          s.registerPrompt(
+            "greet",
+            { argsSchema: { name: z.string() } },
+            ({ name }) => ({
+              messages: [
+                {
+                  role: "user" as const,
+                  content: { type: "text" as const, text: `Hello ${name}` },
+                },
+              ],
+            }),
+          );
+        },
+      );
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return new Map([["docs-server", client]]);
+    }
+
+    it("should list resources with namespaced URIs", async () => {
+      const servers = await createDocsServer();
+
+      const result = await runtime.executeScript(
+        "result(docs_server.resources.list():await())",
+        servers,
+      );
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          name: "readme",
+          uri: "mcp://docs-server/file:///readme.md",
+        }),
+      ]);
+    });
+
+    it("should read a resource by its original or namespaced URI", async () => {
+      const servers = await createDocsServer();
+      const script = `
+        local a = docs_server.resources.read("file:///readme.md"):await()
+        local b = docs_server.resources.read("mcp://docs-server/file:///readme.md"):await()
+        result({ a = a.contents[1], b = b.contents[1] })
+      `;
+
+      const result = await runtime.executeScript(script, servers);
+
+      const expected = {
+        uri: "mcp://docs-server/file:///readme.md",
+        text: "# Hello",
+      };
+      expect(result).toEqual({ a: expected, b: expected });
+    });
+
+    it("should read a resource_link returned by a tool with read_resource", async () => {
+      const servers = await createDocsServer();
+      const script = `
+        local link = docs_server.find({}):await().content[1]
+        result(read_resource(link.uri):await().contents[1].text)
+      `;
+
+      const result = await runtime.executeScript(script, servers);
+      expect(result).toBe("# Hello");
+    });
+
+    it("should namespace tool result URIs unless the server is in-process", async () => {
+      const { server, client } = await createTestServer("links", [
+        {
+          name: "find",
+          description: "Returns a link that looks namespaced",
+          handler: async () => ({
+            content: [
+              {
+                type: "resource_link" as const,
+                uri: "mcp://docs-server/file:///readme.md",
+                name: "readme",
+              },
+            ],
+          }),
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      // The same session, reporting itself as in-process like a lua server
+      const inProcess = Object.assign(Object.create(client), {
+        inProcess: true,
+      }) as IMCPClientSession;
+      const script = "result(links.find({}):await().content[1].uri)";
+
+      await expect(
+        runtime.executeScript(script, new Map([["links", client]])),
+      ).resolves.toBe("mcp://links/mcp://docs-server/file:///readme.md");
+      await expect(
+        runtime.executeScript(script, new Map([["links", inProcess]])),
+      ).resolves.toBe("mcp://docs-server/file:///readme.md");
+    });
+
+    it("should reject read_resource URIs for unknown servers", async () => {
+      const servers = await createDocsServer();
+
+      await expect(
+        runtime.executeScript(
+          'read_resource("mcp://missing/file:///x"):await()',
+          servers,
+        ),
+      ).rejects.toThrow("Server 'missing' not found");
+      await expect(
+        runtime.executeScript('read_resource("file:///x"):await()', servers),
+      ).rejects.toThrow("Invalid resource URI");
+    });
+
+    it("should list and get prompts", async () => {
+      const servers = await createDocsServer();
+      const script = `
+        local prompts = docs_server.prompts.list():await()
+        local prompt = docs_server.prompts.get("greet", { name = "Ada" }):await()
+        result({ name = prompts[1].name, text = prompt.messages[1].content.text })
+      `;
+
+      const result = await runtime.executeScript(script, servers);
+      expect(result).toEqual({ name: "greet", text: "Hello Ada" });
+    });
+
+    it("should keep a tool that is named like the resources table", async () => {
+      const { server, client } = await createTestServer("api", [
+        {
+          name: "resources",
+          description: "A tool called resources",
+          handler: async () => ({
+            content: [{ type: "text" as const, text: '"tool"' }],
+          }),
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const result = await runtime.executeScript(
+        "result(api.resources({}):await())",
+        new Map([["api", client]]),
+      );
+      expect(result).toBe("tool");
+    });
+
+    it("should read URIs of other servers through the readResource option", async () => {
+      const readResource = vi.fn(async (uri: string) => ({
+        contents: [{ uri, text: '{"rows":[1,2,3]}' }],
+      }));
+
+      const value = await runtime.executeScript(
+        `
+        local doc = read_resource("mcp://gateway/results/abc"):await()
+        result(json.decode(doc.contents[1].text).rows[2])
+      `,
+        new Map(),
+        { readResource },
+      );
+
+      expect(value).toBe(2);
+      expect(readResource).toHaveBeenCalledWith("mcp://gateway/results/abc");
+    });
+  });
+
+  describe("sampling and elicitation", () => {
+    it("should send sample() requests to the sample handler", async () => {
+      const sample = vi.fn(async () => ({
+        role: "assistant" as const,
+        content: { type: "text" as const, text: "A summary" },
+        model: "test-model",
+      }));
+      const script = `
+        local response = sample({
+          messages = { "Summarize this", { role = "assistant", content = "Sure" } },
+          maxTokens = 200,
+          systemPrompt = "Be brief",
+        }):await()
+        result(response.content.text)
+      `;
+
+      const result = await runtime.executeScript(script, new Map(), {
+        sample,
+      });
+
+      expect(result).toBe("A summary");
+      expect(sample).toHaveBeenCalledWith({
+        messages: [
+          { role: "user", content: { type: "text", text: "Summarize this" } },
+          { role: "assistant", content: { type: "text", text: "Sure" } },
+        ],
+        maxTokens: 200,
+        systemPrompt: "Be brief",
+      });
+    });
+
+    it("should default maxTokens and accept a single message string", async () => {
+      const sample = vi.fn(async () => ({
+        role: "assistant" as const,
+        content: { type: "text" as const, text: "ok" },
+        model: "test-model",
+      }));
+
+      await runtime.executeScript(
+        'sample({ messages = "Hi" }):await()',
+        new Map(),
+        { sample },
+      );
+
+      expect(sample).toHaveBeenCalledWith({
+        messages: [{ role: "user", content: { type: "text", text: "Hi" } }],
+        maxTokens: 1024,
+      });
+    });
+
+    it("should send elicit() requests as form requests", async () => {
+      const elicit = vi.fn(async () => ({
+        action: "accept" as const,
+        content: { confirmed: true },
+      }));
+      const script = `
+        local answer = elicit({
+          message = "Delete 3 issues?",
+          schema = { properties = { confirmed = { type = "boolean" } } },
+        }):await()
+        result(answer)
+      `;
+
+      const result = await runtime.executeScript(script, new Map(), {
+        elicit,
+      });
+
+      expect(result).toEqual({
+        action: "accept",
+        content: { confirmed: true },
+      });
+      expect(elicit).toHaveBeenCalledWith({
+        message: "Delete 3 issues?",
+        requestedSchema: {
+          type: "object",
+          properties: { confirmed: { type: "boolean" } },
+        },
+      });
+    });
+
+    it("should raise a clear error when the client lacks a capability", async () => {
+      await expect(
+        runtime.executeScript('sample({ messages = "Hi" })', new Map()),
+      ).rejects.toThrow("sample() is not available");
+      await expect(
+        runtime.executeScript('elicit({ message = "Sure?" })', new Map()),
+      ).rejects.toThrow("elicit() is not available");
+    });
+
+    it("should reject malformed requests", async () => {
+      const sample = vi.fn();
+
+      await expect(
+        runtime.executeScript("sample({ messages = {} })", new Map(), {
+          sample,
+        }),
+      ).rejects.toThrow("at least one message");
+      expect(sample).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("state", () => {
+    const createState = (): ScriptState => {
+      const values = new Map<string, unknown>();
+      return {
+        get: (key) => values.get(key),
+        set: (key, value) => void values.set(key, value),
+        delete: (key) => values.delete(key),
+        keys: () => Array.from(values.keys()),
+      };
+    };
+
+    it("should persist values between executions sharing a store", async () => {
+      const state = createState();
+
+      await runtime.executeScript(
+        'state.set("cursor", { page = 2, seen = { "a", "b" } })',
+        new Map(),
+        { state },
+      );
+      const result = await runtime.executeScript(
+        `
+        local cursor = state.get("cursor")
+        result({ page = cursor.page, seen = #cursor.seen, keys = state.keys() })
+      `,
+        new Map(),
+        { state },
+      );
+
+      expect(result).toEqual({ page: 2, seen: 2, keys: ["cursor"] });
+    });
+
+    it("should delete keys with delete() or by setting nil", async () => {
+      const state = createState();
+      state.set("a", 1);
+      state.set("b", 2);
+
+      const result = await runtime.executeScript(
+        `
+        local existed = state.delete("a")
+        state.set("b", nil)
+        result({ existed = existed, missing = state.get("b") == nil })
+      `,
+        new Map(),
+        { state },
+      );
+
+      expect(result).toEqual({ existed: true, missing: true });
+      expect(state.keys()).toEqual([]);
+    });
+
+    it("should surface store errors as Lua errors", async () => {
+      const state = createState();
+      state.set = () => {
+        throw new Error("Session state quota exceeded");
+      };
+
+      const result = await runtime.executeScript(
+        `
+        local ok, err = pcall(state.set, "big", "value")
+        result({ ok = ok, err = tostring(err) })
+      `,
+        new Map(),
+        { state },
+      );
+
+      expect(result).toMatchObject({ ok: false });
+      expect((result as { err: string }).err).toContain("quota exceeded");
+    });
+
+    it("should raise a clear error without a store", async () => {
+      await expect(
+        runtime.executeScript('state.get("a")', new Map()),
+      ).rejects.toThrow("state is not available");
+    });
+  });
+
+  describe("input", () => {
+    it("should expose input as a Lua table", async () => {
+      const result = await runtime.executeScript(
+        `
+        local total = 0
+        for _, n in ipairs(input.numbers) do
+          total = total + n
+        end
+        local keys = 0
+        for _ in pairs(input.options) do
+          keys = keys + 1
+        end
+        result({
+          title = input.title,
+          count = #input.numbers,
+          total = total,
+          keys = keys,
+          dashed = input.options["user-id"],
+        })
+      `,
+        new Map(),
+        {
+          input: {
+            title: 'Say "hi"\n',
+            numbers: [1, 2, 3],
+            options: { "user-id": 7, verbose: true },
+          },
+        },
+      );
+
+      expect(result).toEqual({
+        title: 'Say "hi"\n',
+        count: 3,
+        total: 6,
+        keys: 2,
+        dashed: 7,
+      });
+    });
+
+    it("should accept keys that are Lua keywords or not identifiers", async () => {
+      const result = await runtime.executeScript(
+        'result({ ["goto"] = input["goto"], ["end"] = input["end"], dashed = input["a]] .. b"] })',
+        new Map(),
+        { input: { goto: 1, end: 2, "a]] .. b": 3 } },
+      );
+
+      expect(result).toEqual({ goto: 1, end: 2, dashed: 3 });
+    });
+
+    it("should default to an empty table", async () => {
+      const result = await runtime.executeScript(
+        "result(input.missing == nil)",
+        new Map(),
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it("should reject assignments to input", async () => {
+      await expect(
+        runtime.executeScript('input.query = "changed"', new Map(), {
+          input: { query: "bug" },
+        }),
+      ).rejects.toThrow("input is read-only");
+      await expect(
+        runtime.executeScript("input.filters.labels[1] = 'x'", new Map(), {
+          input: { filters: { labels: ["bug"] } },
+        }),
+      ).rejects.toThrow("input.filters.labels is read-only");
+    });
+
+    it("should reject replacing input", async () => {
+      await expect(
+        runtime.executeScript("input = {}", new Map(), {
+          input: { query: "bug" },
+        }),
+      ).rejects.toThrow("input is read-only");
+    });
+
+    it("should pass input tables to tools and result() as plain values", async () => {
+      const handler = vi.fn(async (args: Record<string, unknown>) => ({
+        content: [{ type: "text" as const, text: JSON.stringify(args) }],
+      }));
+      const { server, client } = await createTestServer("server", [
+        { name: "search", description: "Search", handler },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const input = { query: "bug", labels: ["a", "b"] };
+      const result = await runtime.executeScript(
+        `
+        server.search(input):await()
+        result(input)
+      `,
+        new Map([["server", client]]),
+        { input },
+      );
+
+      expect(handler).toHaveBeenCalledWith(input);
+      expect(result).toEqual(input);
+    });
+  });
+
+  describe("JSON values", () => {
+    async function createEchoServer(
+      handler: (args: Record<string, unknown>) => Promise<CallToolResult>,
+    ) {
+      const { server, client } = await createTestServer("api", [
+        { name: "echo", description: "Echo", handler },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return new Map([["api", client]]);
+    }
+
+    it("should send json.null and marked empty tables to tools", async () => {
+      const handler = vi.fn(async () => ({
+        content: [{ type: "text" as const, text: "ok" }],
+      }));
+      const servers = await createEchoServer(handler);
+
+      await runtime.executeScript(
+        `
+        api.echo({
+          cursor = json.null,
+          tags = json.array(),
+          meta = json.object(),
+          values = { 1, json.null, 3 },
+        }):await()
+        result(true)
+      `,
+        servers,
+      );
+
+      expect(handler).toHaveBeenCalledWith({
+        cursor: null,
+        tags: [],
+        meta: {},
+        values: [1, null, 3],
+      });
+    });
+
+    it("should protect the marker metatables", async () => {
+      const result = await runtime.executeScript(
+        `
+        local ok, err = pcall(json.object, json.array())
+        result({
+          array = getmetatable(json.array()),
+          object = getmetatable(json.object()),
+          null = getmetatable(json.null),
+          same = json.array(json.array({ 1 }))[1],
+          remark = err,
+          replace = select(2, pcall(setmetatable, json.array(), nil)),
+        })
+      `,
+        new Map(),
+      );
+
+      expect(result).toEqual({
+        array: "json.array",
+        object: "json.object",
+        null: "json.null",
+        same: 1,
+        remark: expect.stringContaining(
+          "json.object() can't mark a table already marked with json.array()",
+        ),
+        replace: "cannot change a protected metatable",
+      });
+    });
+
+    it("should use the tool's input schema for empty tables", async () => {
+      const handler = vi.fn(async (args: Record<string, unknown>) => ({
+        content: [{ type: "text" as const, text: JSON.stringify(args) }],
+      }));
+      const { server, client } = await createTestServer("api", [], (s) => {
+        s.registerTool(
+          "search",
+          {
+            description: "Search",
+            inputSchema: {
+              ids: z.array(z.string()),
+              filter: z.record(z.string(), z.unknown()),
+            },
+          },
+          handler,
+        );
+      });
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const result = await runtime.executeScript(
+        "result(api.search({ ids = {}, filter = {} }):await())",
+        new Map([["api", client]]),
+      );
+
+      expect(result).toEqual({ ids: [], filter: {} });
+    });
+
+    it("should keep empty tables and nulls from tool results", async () => {
+      const servers = await createEchoServer(async () => ({
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              items: [],
+              meta: {},
+              values: [1, null, 3],
+              cursor: null,
+            }),
+          },
+        ],
+      }));
+
+      const result = await runtime.executeScript(
+        `
+        local res = api.echo({}):await()
+        result({
+          count = #res.values,
+          second_is_null = res.values[2] == json.null,
+          text = tostring(res.values[2]),
+          cursor_is_nil = res.cursor == nil,
+          original = res,
+        })
+      `,
+        servers,
+      );
+
+      expect(result).toEqual({
+        count: 3,
+        second_is_null: true,
+        text: "null",
+        cursor_is_nil: true,
+        // Passing the table on keeps the upstream value as it was
+        original: { items: [], meta: {}, values: [1, null, 3], cursor: null },
+      });
+    });
+
+    it("should keep markers in read-only input", async () => {
+      const result = await runtime.executeScript(
+        "result({ input = input, is_null = input.values[1] == json.null })",
+        new Map(),
+        { input: { ids: [], values: [null, 2] } },
+      );
+
+      expect(result).toEqual({
+        input: { ids: [], values: [null, 2] },
+        is_null: true,
+      });
+    });
+  });
+
+  describe("standard library", () => {
+    it("should encode and decode JSON", async () => {
+      const result = await runtime.executeScript(
+        `
+        local decoded = json.decode('{"name":"a","tags":[],"values":[1,null]}')
+        result({
+          name = decoded.name,
+          second_is_null = decoded.values[2] == json.null,
+          encoded = json.encode({ ids = json.array(), n = 1 }),
+          roundtrip = json.encode(decoded),
+        })
+      `,
+        new Map(),
+      );
+
+      expect(result).toMatchObject({
+        name: "a",
+        second_is_null: true,
+        roundtrip: '{"name":"a","tags":[],"values":[1,null]}',
+      });
+      expect(JSON.parse((result as { encoded: string }).encoded)).toEqual({
+        ids: [],
+        n: 1,
+      });
+    });
+
+    it("should raise a Lua error for invalid JSON", async () => {
+      await expect(
+        runtime.executeScript('json.decode("{oops")', new Map()),
+      ).rejects.toThrow("json.decode() failed");
+    });
+
+    it("should provide base64, time and uuid()", async () => {
+      const result = await runtime.executeScript(
+        `
+        result({
+          encoded = base64.encode("héllo"),
+          decoded = base64.decode(base64.encode("héllo")),
+          now = time.now(),
+          iso = time.iso(0),
+          parsed = time.parse("1970-01-01T00:00:01Z"),
+          id = uuid(),
+        })
+      `,
+        new Map(),
+      );
+
+      expect(result).toMatchObject({
+        encoded: Buffer.from("héllo").toString("base64"),
+        decoded: "héllo",
+        iso: "1970-01-01T00:00:00.000Z",
+        parsed: 1000,
+      });
+      const { now, id } = result as { now: number; id: string };
+      expect(Math.abs(now - Date.now())).toBeLessThan(5000);
+      expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it("should add string helpers usable as methods", async () => {
+      const result = await runtime.executeScript(
+        `
+        local line = "  a,b,,c  "
+        result({
+          parts = line:trim():split(","),
+          words = string.split(" one  two "),
+          starts = line:trim():startswith("a,"),
+          ends = ("file.json"):endswith(".json"),
+        })
+      `,
+        new Map(),
+      );
+
+      expect(result).toEqual({
+        parts: ["a", "b", "", "c"],
+        words: ["one", "two"],
+        starts: true,
+        ends: true,
+      });
+    });
+
+    it("should add table helpers", async () => {
+      const result = await runtime.executeScript(
+        `
+        local items = { 1, 2, 3, 4 }
+        local doubled = table.map(items, function(n) return n * 2 end)
+        local even = table.filter(items, function(n) return n % 2 == 0 end)
+        local sum = table.reduce(items, function(acc, n) return acc + n end, 0)
+        local keys = table.keys({ a = 1, b = 2 })
+        table.sort(keys)
+        result({
+          doubled = doubled,
+          even = even,
+          sum = sum,
+          keys = table.concat(keys, ","),
+          indexed = table.map({ "x", "y" }, function(v, i) return v .. i end),
+        })
+      `,
+        new Map(),
+      );
+
+      expect(result).toEqual({
+        doubled: [2, 4, 6, 8],
+        even: [2, 4],
+        sum: 10,
+        keys: "a,b",
+        indexed: ["x1", "y2"],
+      });
+    });
+  });
+
+  describe("logging", () => {
+    it("should deliver print() and log() output", async () => {
+      const onLog = vi.fn();
+
+      await runtime.executeScript(
+        `
+        print("fetched", 3, "pages", { done = true }, nil)
+        log("warn", "rate limited")
+        result(true)
+      `,
+        new Map(),
+        { onLog },
+      );
+
+      expect(onLog.mock.calls.map(([entry]) => entry)).toEqual([
+        { level: "info", message: 'fetched\t3\tpages\t{"done":true}\tnil' },
+        { level: "warn", message: "rate limited" },
+      ]);
+    });
+
+    it("should deliver output written before a failure", async () => {
+      const onLog = vi.fn();
+
+      await expect(
+        runtime.executeScript(
+          'log("info", "step 1 done")\nerror("step 2 failed")',
+          new Map(),
+          { onLog },
+        ),
+      ).rejects.toThrow("step 2 failed");
+      expect(onLog).toHaveBeenCalledWith({
+        level: "info",
+        message: "step 1 done",
+      });
+    });
+
+    it("should bound the output", async () => {
+      const onLog = vi.fn();
+
+      await runtime.executeScript(
+        "for i = 1, 500 do print(i) end result(true)",
+        new Map(),
+        { onLog },
+      );
+
+      expect(onLog).toHaveBeenCalledTimes(DEFAULT_MAX_LOG_ENTRIES + 1);
+      expect(onLog).toHaveBeenLastCalledWith({
+        level: "warn",
+        message: expect.stringContaining("Log output truncated"),
+      });
+    });
+
+    it("should reject unknown log levels", async () => {
+      await expect(
+        runtime.executeScript('log("loud", "hi")', new Map()),
+      ).rejects.toThrow("log(level, message) expects a level");
+    });
+  });
+
+  describe("pre-flight analysis", () => {
+    async function createUserServer(onCall: () => void) {
+      const { server, client } = await createTestServer("data-server", [
+        {
+          name: "get-user",
+          description: "Get a user",
+          handler: async () => {
+            onCall();
+            return { content: [{ type: "text", text: '{"name":"Ada"}' }] };
+          },
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return new Map([["data-server", client]]);
+    }
+
+    async function analysisError(script: string, onCall = vi.fn()) {
+      const servers = await createUserServer(onCall);
+      const error = await runtime
+        .executeScript(script, servers)
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ScriptAnalysisError);
+      expect(onCall).not.toHaveBeenCalled();
+      return error as ScriptAnalysisError;
+    }
+
+    it("should not run a script that calls an unknown tool", async () => {
+      const onCall = vi.fn();
+      const error = await analysisError(
+        `data_server.get_user({}):await()
+        result(data_server.get_usr({}):await())`,
+        onCall,
+      );
+
+      expect(error.diagnostics).toEqual([
+        {
+          severity: "error",
+          message:
+            "Server 'data_server' has no tool 'get_usr'; did you mean data_server.get_user?",
+          line: 2,
+          column: 28,
+          suggestion: "data_server.get_user",
+        },
+      ]);
+      expect(error.message).toContain("The script was not run");
+    });
+
+    it("should suggest the server for a misspelled server name", async () => {
+      const error = await analysisError(
+        "result(data_servr.get_user({}):await())",
+      );
+
+      expect(error.diagnostics[0]).toMatchObject({
+        severity: "error",
+        line: 1,
+        column: 8,
+        suggestion: "data_server.get_user",
+      });
+    });
+
+    it("should not run a script that calls a shadowed result()", async () => {
+      const error = await analysisError(`
+        local result = data_server.get_user({}):await()
+        result(result)
+      `);
+
+      expect(error.diagnostics.map((d) => [d.severity, d.line])).toEqual([
+        ["warning", 2],
+        ["error", 3],
+      ]);
+      expect(error.diagnostics[1]!.message).toContain(
+        "the local 'result' declared on line 2 shadows it",
+      );
+    });
+
+    it("should keep a repeat body's locals visible in its until condition", async () => {
+      const { server, client } = await createTestServer("git", [
+        {
+          name: "status",
+          description: "Show the working tree status",
+          handler: async () => ({ content: [] }),
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+
+      const value = await runtime.executeScript(
+        `
+        local count = 0
+        repeat
+          local gip = { done = count > 0 }
+          count = count + 1
+        until gip.done
+        result(count)
+      `,
+        new Map([["git", client]]),
+      );
+
+      expect(value).toBe(2);
+    });
+
+    it("should not report a local as a misspelled server outside its scope", async () => {
+      const servers = await createUserServer(vi.fn());
+
+      const execution = runtime.executeScript(
+        `
+        do local data_servr = {} end
+        result(data_servr.get_user)
+      `,
+        servers,
+      );
+
+      await expect(execution).rejects.not.toBeInstanceOf(ScriptAnalysisError);
+      await expect(execution).rejects.toThrow("attempt to index");
+    });
+
+    it("should report unawaited calls as warnings and still run", async () => {
+      const onCall = vi.fn();
+      const onLog = vi.fn();
+      const servers = await createUserServer(onCall);
+
+      const value = await runtime.executeScript(
+        `data_server.get_user({})
+        local user = data_server.get_user({}):await()
+        result(user.name)`,
+        servers,
+        { onLog },
+      );
+
+      expect(value).toBe("Ada");
+      expect(onLog).toHaveBeenCalledWith({
+        level: "warn",
+        message: expect.stringMatching(
+          /^Line 1, column 13: The promise returned by data_server\.get_user\(\.\.\.\) is never awaited/,
+        ),
+      });
+    });
+
+    it("should accept scripts that use locals, globals and promises", async () => {
+      const onLog = vi.fn();
+      const servers = await createUserServer(vi.fn());
+
+      const value = await runtime.executeScript(
+        `
+        local helpers = {}
+        function helpers.upper(s) return s:upper() end
+        counter = 0
+        local pending = data_server.get_user({ id = 1 })
+        local users = await_all({ pending, data_server.get_user({ id = 2 }) })
+        for _, user in ipairs(users) do counter = counter + 1 end
+        local function name(data_server) return data_server.name end
+        result(helpers.upper(name(users[1])) .. string.format(" %d", counter))
+      `,
+        servers,
+        { onLog },
+      );
+
+      expect(value).toBe("ADA 2");
+      expect(onLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("argument validation", () => {
+    async function createIssueServer() {
+      const handler = vi.fn(async (args: Record<string, unknown>) => ({
+        content: [{ type: "text" as const, text: JSON.stringify(args) }],
+      }));
+      const { server, client } = await createTestServer("github", [], (s) => {
+        s.registerTool(
+          "get_issue",
+          {
+            description: "Get an issue",
+            inputSchema: {
+              repo: z.string(),
+              id: z.number().int(),
+              state: z.enum(["open", "closed"]).optional(),
+            },
+          },
+          handler,
+        );
+      });
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return { handler, servers: new Map([["github", client]]) };
+    }
+
+    it("should raise a Lua error listing missing and invalid fields", async () => {
+      const { handler, servers } = await createIssueServer();
+
+      const result = await runtime.executeScript(
+        `
+        local ok, err = pcall(function()
+          return github.get_issue({ id = "7", state = "draft" }):await()
+        end)
+        result(tostring(err))
+      `,
+        servers,
+      );
+
+      expect(result).toContain("Invalid arguments for github.get_issue:");
+      expect(result).toContain("- repo: required string is missing");
+      expect(result).toContain("- id: expected integer, got string");
+      expect(result).toContain(
+        '- state: expected one of "open", "closed", got "draft"',
+      );
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should round floats within rounding error of an integer", async () => {
+      const { handler, servers } = await createIssueServer();
+
+      await runtime.executeScript(
+        'result(github.get_issue({ repo = "octo/app", id = 0.1 * 30 }):await())',
+        servers,
+      );
+
+      expect(handler.mock.calls[0]![0]).toEqual({ repo: "octo/app", id: 3 });
+      await expect(
+        runtime.executeScript(
+          'github.get_issue({ repo = "octo/app", id = 2.5 }):await()',
+          servers,
+        ),
+      ).rejects.toThrow("id: expected integer, got number 2.5");
+    });
+
+    it("should report the invalid call in the script error", async () => {
+      const { servers } = await createIssueServer();
+
+      const error = await runtime
+        .executeScript(
+          "local a = 1\ngithub.get_issue({ id = 1 }):await()",
+          servers,
+        )
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptError);
+      expect((error as ScriptError).details).toMatchObject({
+        line: 2,
+        toolCall: { server: "github", tool: "get_issue", args: { id: 1 } },
+      });
+    });
+  });
+
+  describe("output validation", () => {
+    // McpServer validates its own output, so use the low-level server to
+    // return content that doesn't match the advertised schema
+    async function createDriftingServer(structuredContent: unknown) {
+      const server = new Server(
+        { name: "users", version: "1.0.0" },
+        { capabilities: { tools: {} } },
+      );
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: [
+          {
+            name: "get_user",
+            inputSchema: { type: "object" },
+            outputSchema: {
+              type: "object",
+              properties: { id: { type: "integer" }, name: { type: "string" } },
+              required: ["id", "name"],
+            },
+          },
+        ],
+      }));
+      server.setRequestHandler(CallToolRequestSchema, async () => ({
+        content: [
+          { type: "text", text: JSON.stringify(structuredContent) ?? "" },
+        ],
+        ...(structuredContent !== undefined && { structuredContent }),
+      }));
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      // The client keeps the SDK's own output validation, which the
+      // runtime's calls don't go through
+      const client = new Client(
+        { name: "test-client", version: "1.0.0" },
+        { capabilities: {} },
+      );
+      await client.connect(clientTransport);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return new Map([["users", new TestMCPClientSession(client, "users")]]);
+    }
+
+    const script = "result(users.get_user({}):await())";
+
+    it("should log mismatches and return the content", async () => {
+      const servers = await createDriftingServer({ id: "7" });
+      const onLog = vi.fn();
+
+      const value = await runtime.executeScript(script, servers, { onLog });
+
+      expect(value).toEqual({ id: "7" });
+      const message =
+        "users.get_user returned structuredContent that does not match its outputSchema: " +
+        "data must have required property 'name', data/id must be integer";
+      expect(logger.warn).toHaveBeenCalledWith(message);
+      expect(onLog).toHaveBeenCalledWith({ level: "warn", message });
+    });
+
+    it("should raise a Lua error in strict mode", async () => {
+      const servers = await createDriftingServer({ id: 7 });
+      const strict = new WasmoonRuntime(logger, undefined, {
+        outputValidation: "strict",
+      });
+
+      const value = await strict.executeScript(
+        `
+        local ok, err = pcall(function() return users.get_user({}):await() end)
+        result(tostring(err))
+      `,
+        servers,
+      );
+
+      expect(value).toContain(
+        "users.get_user returned structuredContent that does not match its outputSchema: data must have required property 'name'",
+      );
+    });
+
+    it("should treat missing structuredContent as a mismatch", async () => {
+      const servers = await createDriftingServer(undefined);
+      const onLog = vi.fn();
+
+      await runtime.executeScript(script, servers, { onLog });
+
+      expect(onLog).toHaveBeenCalledWith({
+        level: "warn",
+        message:
+          "users.get_user returned structuredContent that does not match its outputSchema: no structuredContent was returned",
+      });
+    });
+
+    it("should not check output when validation is off", async () => {
+      const servers = await createDriftingServer({ id: "7" });
+      const off = new WasmoonRuntime(logger, undefined, {
+        outputValidation: "off",
+      });
+
+      await expect(off.executeScript(script, servers)).resolves.toEqual({
+        id: "7",
+      });
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tool errors", () => {
+    async function createFailingServer() {
+      const { server, client } = await createTestServer("github", [
+        {
+          name: "get-issue",
+          description: "Get an issue",
+          handler: async () => ({
+            content: [{ type: "text", text: "Issue 7 not found" }],
+            isError: true,
+          }),
+        },
+      ]);
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return new Map([["github", client]]);
+    }
+
+    it("should raise error results as a Lua error the script can catch", async () => {
+      const servers = await createFailingServer();
+
+      const value = await runtime.executeScript(
+        `
+        local ok, err = pcall(function()
+          return github.get_issue({ id = 7 }):await()
+        end)
+        result({
+          ok = ok,
+          server = err.server,
+          tool = err.tool,
+          message = err.message,
+          text = err.content[1].text,
+          description = tostring(err),
+        })
+      `,
+        servers,
+      );
+
+      expect(value).toEqual({
+        ok: false,
+        server: "github",
+        tool: "get-issue",
+        message: "Issue 7 not found",
+        text: "Issue 7 not found",
+        description: "github.get-issue failed: Issue 7 not found",
+      });
+    });
+
+    it("should report each finished tool call with its outcome", async () => {
+      const servers = await createFailingServer();
+      const onToolCall = vi.fn();
+
+      await runtime.executeScript(
+        "pcall(function() return github.get_issue({ id = 7 }):await() end)",
+        servers,
+        { onToolCall },
+      );
+
+      expect(onToolCall).toHaveBeenCalledOnce();
+      expect(onToolCall).toHaveBeenCalledWith({
+        server: "github",
+        tool: "get-issue",
+        args: { id: 7 },
+        durationMs: expect.any(Number),
+        error: "Issue 7 not found",
+      });
+    });
+
+    it("should report an uncaught error result as the failing tool call", async () => {
+      const servers = await createFailingServer();
+
+      const error = await runtime
+        .executeScript(
+          "local issue = github.get_issue({ id = 7 }):await()\nresult(issue.title)",
+          servers,
+        )
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ScriptError);
+      expect((error as ScriptError).details).toMatchObject({
+        line: 1,
+        toolCall: { server: "github", tool: "get-issue", args: { id: 7 } },
+      });
+      expect((error as Error).message).toContain(
+        "github.get-issue failed: Issue 7 not found",
+      );
+    });
+
+    it("should return the whole result for raw calls", async () => {
+      const servers = await createFailingServer();
+
+      const value = await runtime.executeScript(
+        `
+        local res = github.get_issue({ id = 7 }, { raw = true }):await()
+        result({ isError = res.isError, text = res.content[1].text })
+      `,
+        servers,
+      );
+
+      expect(value).toEqual({ isError: true, text: "Issue 7 not found" });
+      await expect(
+        runtime.executeScript(
+          "github.get_issue({ id = 7 }, { rwa = true }):await()",
+          servers,
+        ),
+      ).rejects.toThrow(
+        "github.get_issue(args, options) got unknown option 'rwa'",
+      );
+    });
+  });
+
+  describe("call options", () => {
+    async function createFlakyServer(slowCalls: number) {
+      let calls = 0;
+      const handler = vi.fn(
+        async (_args: Record<string, unknown>, extra: { _meta?: unknown }) => {
+          calls++;
+          if (calls <= slowCalls) {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+          }
+          return {
+            content: [
+              { type: "text" as const, text: JSON.stringify({ calls }) },
+            ],
+            structuredContent: { calls, meta: extra._meta ?? null },
+          };
+        },
+      );
+      const { server, client } = await createTestServer("api", [], (s) => {
+        s.registerTool(
+          "fetch",
+          { description: "Fetch", inputSchema: z.object({}).passthrough() },
+          handler,
+        );
+      });
+      cleanupFns.push(async () => {
+        await client.close();
+        await server.close();
+      });
+      return { handler, servers: new Map([["api", client]]) };
+    }
+
+    it("should fail a call that exceeds its timeout", async () => {
+      const { servers } = await createFlakyServer(1);
+
+      const value = await runtime.executeScript(
+        `
+        local ok, err = pcall(function()
+          return api.fetch({}, { timeout = 50 }):await()
+        end)
+        result(tostring(err))
+      `,
+        servers,
+      );
+
+      expect(value).toContain("api.fetch timed out after 50 ms");
+    });
+
+    it("should retry failed calls with backoff", async () => {
+      const { handler, servers } = await createFlakyServer(2);
+      const onLog = vi.fn();
+
+      const value = await runtime.executeScript(
+        "result(api.fetch({}, { timeout = 50, retries = 2, backoff = 10 }):await())",
+        servers,
+        { onLog },
+      );
+
+      expect(value).toEqual({ calls: 3, meta: null });
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(onLog).toHaveBeenCalledWith({
+        level: "warn",
+        message:
+          "api.fetch failed (api.fetch timed out after 50 ms); retry 2 of 2 in 20 ms",
+      });
+    });
+
+    it("should send meta as the request's _meta", async () => {
+      const { servers } = await createFlakyServer(0);
+
+      const value = await runtime.executeScript(
+        'result(api.fetch({}, { meta = { traceId = "abc" } }):await())',
+        servers,
+      );
+
+      expect(value).toEqual({ calls: 1, meta: { traceId: "abc" } });
+    });
+
+    it("should add the execution's toolCallMeta to each call's _meta", async () => {
+      const { servers } = await createFlakyServer(0);
+
+      const value = await runtime.executeScript(
+        'result(api.fetch({}, { meta = { chain = {}, traceId = "abc" } }):await())',
+        servers,
+        { toolCallMeta: { chain: ["a.b"] } },
+      );
+
+      expect(value).toEqual({
+        calls: 1,
+        meta: { chain: ["a.b"], traceId: "abc" },
+      });
+    });
+
+    it("should reject invalid options at the call", async () => {
+      const { handler, servers } = await createFlakyServer(0);
+
+      await expect(
+        runtime.executeScript("api.fetch({}, { retries = 9 })", servers),
+      ).rejects.toThrow(
+        "api.fetch(args, options) expects retries to be an integer from 0 to 5",
+      );
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("content helpers", () => {
+    it("should build MCP content blocks", async () => {
+      const value = await runtime.executeScript(
+        `
+        result({
+          mcp.text("Report"),
+          mcp.image("iVBORw0KGgo=", "image/png"),
+          mcp.audio("UklGRg==", "audio/wav"),
+          mcp.resource_link("mcp://docs/file:///a.md", "a.md", { mimeType = "text/markdown" }),
+          mcp.embedded_resource({ uri = "mcp://docs/file:///b.md", text = "# B" }),
+        })
+      `,
+        new Map(),
+      );
+
+      expect(value).toEqual([
+        { type: "text", text: "Report" },
+        { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" },
+        { type: "audio", data: "UklGRg==", mimeType: "audio/wav" },
+        {
+          type: "resource_link",
+          uri: "mcp://docs/file:///a.md",
+          name: "a.md",
+          mimeType: "text/markdown",
+        },
+        {
+          type: "resource",
+          resource: { uri: "mcp://docs/file:///b.md", text: "# B" },
+        },
+      ]);
+    });
+
+    it("should raise an error for invalid arguments", async () => {
+      await expect(
+        runtime.executeScript('mcp.image("iVBORw0KGgo=")', new Map()),
+      ).rejects.toThrow(
+        "mcp.image(data, mimeType) expects mimeType to be a string, got undefined",
+      );
+      await expect(
+        runtime.executeScript(
+          'mcp.resource_link("file:///a", "a", { size_bytes = 3 })',
+          new Map(),
+        ),
+      ).rejects.toThrow("got unknown field 'size_bytes'");
+    });
+  });
+
+  describe("engine pool", () => {
+    const nextTick = () => new Promise((resolve) => setImmediate(resolve));
+
+    it("should reuse engines without leaking changes between scripts", async () => {
+      const createEngine = vi.spyOn(LuaFactory.prototype, "createEngine");
+
+      await runtime.executeScript(
+        `
+        leaked = "secret"
+        string.upper = nil
+        getmetatable("").__index = { len = function() return 0 end }
+        setmetatable(string, { __index = function() return 1 end })
+        result(true)
+      `,
+        new Map(),
+      );
+      await nextTick();
+
+      const result = await runtime.executeScript(
+        'result({ leaked == nil, ("abc"):upper(), ("abc"):len(), string.undefined_name == nil })',
+        new Map(),
+      );
+      expect(result).toEqual([true, "ABC", 3, true]);
+      expect(createEngine).toHaveBeenCalledTimes(1);
+      createEngine.mockRestore();
+    });
+
+    it("should only reuse an engine within its session", async () => {
+      const createEngine = vi.spyOn(LuaFactory.prototype, "createEngine");
+
+      await runtime.executeScript("result(1)", new Map(), { sessionId: "a" });
+      await nextTick();
+      await runtime.executeScript("result(2)", new Map(), { sessionId: "b" });
+      await nextTick();
+      await runtime.executeScript("result(3)", new Map(), { sessionId: "a" });
+
+      expect(createEngine).toHaveBeenCalledTimes(2);
+      createEngine.mockRestore();
+    });
+
+    it("should close the engine idle the longest when the pool is full", async () => {
+      const createEngine = vi.spyOn(LuaFactory.prototype, "createEngine");
+      runtime = new WasmoonRuntime(logger, undefined, { enginePoolSize: 1 });
+
+      for (const sessionId of ["a", "b", "a"]) {
+        await runtime.executeScript("result(1)", new Map(), { sessionId });
+        await nextTick();
+      }
+
+      expect(createEngine).toHaveBeenCalledTimes(3);
+      createEngine.mockRestore();
+    });
+
+    it("should not reuse an engine whose script was stopped", async () => {
+      const createEngine = vi.spyOn(LuaFactory.prototype, "createEngine");
+
+      await runtime
+        .executeScript("while true do end", new Map(), {
+          limits: { maxInstructions: 100_000 },
+        })
+        .catch(() => {});
+      await nextTick();
+      await runtime.executeScript("result(1)", new Map());
+
+      expect(createEngine).toHaveBeenCalledTimes(2);
+      createEngine.mockRestore();
+    });
+
+    it("should create an engine for every script when the pool size is 0", async () => {
+      const createEngine = vi.spyOn(LuaFactory.prototype, "createEngine");
+      runtime = new WasmoonRuntime(logger, undefined, { enginePoolSize: 0 });
+
+      await runtime.executeScript("result(1)", new Map());
+      await nextTick();
+      await runtime.executeScript("result(2)", new Map());
+
+      expect(createEngine).toHaveBeenCalledTimes(2);
+      createEngine.mockRestore();
+    });
+  });
+});
+
+describe("QuickJSRuntime", () => {
+  let runtime: QuickJSRuntime;
+  let logger: ILogger;
+  const cleanupFns: Array<() => Promise<void>> = [];
+
+  beforeEach(() => {
+    logger = createMockLogger();
+    runtime = new QuickJSRuntime(logger);
+  });
+
+  afterEach(async () => {
+    for (const cleanup of cleanupFns) {
+      await cleanup();
+    }
+    cleanupFns.length = 0;
+  });
+
+  async function createIssueServer() {
+    const { server, client } = await createTestServer("github", [
+      {
+        name: "get-issue",
+        description: "Get an issue",
+        handler: async (args) =>
+          args.id === 7
+            ? {
+                content: [{ type: "text", text: "Issue 7 not found" }],
+                isError: true,
+              }
+            : {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({ id: args.id, title: "Bug" }),
+                  },
+                ],
+              },
+      },
+    ]);
+    cleanupFns.push(async () => {
+      await client.close();
+      await server.close();
+    });
+    return new Map([["github", client]]);
+  }
+
+  it("should report finished tool calls", async () => {
+    const servers = await createIssueServer();
+    const onToolCall = vi.fn();
+
+    await runtime.executeScript(
+      "return github.get_issue({ id: 1 });",
+      servers,
+      { onToolCall },
+    );
+
+    expect(onToolCall).toHaveBeenCalledWith({
+      server: "github",
+      tool: "get-issue",
+      args: { id: 1 },
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("should return the value the script returns or passes to result()", async () => {
+    await expect(
+      runtime.executeScript("return [1, 2, 3].map((n) => n * 2);", new Map()),
+    ).resolves.toEqual([2, 4, 6]);
+    await expect(
+      runtime.executeScript(
+        'result({ ok: true });\nreturn "ignored";',
+        new Map(),
+      ),
+    ).resolves.toEqual({ ok: true });
+  });
+
+  it("should await tool calls on the injected server objects", async () => {
+    const servers = await createIssueServer();
+
+    const value = await runtime.executeScript(
+      `
+      const [a, b] = await Promise.all([
+        github.get_issue({ id: 1 }),
+        github.get_issue({ id: 2 }),
+      ]);
+      return [a.title, b.id];
+    `,
+      servers,
+    );
+
+    expect(value).toEqual(["Bug", 2]);
+  });
+
+  it("should raise error results as errors the script can catch", async () => {
+    const servers = await createIssueServer();
+
+    const value = await runtime.executeScript(
+      `
+      try {
+        await github.get_issue({ id: 7 });
+      } catch (err) {
+        return { name: err.name, server: err.server, tool: err.tool, text: err.content[0].text };
+      }
+    `,
+      servers,
+    );
+
+    expect(value).toEqual({
+      name: "ToolCallError",
+      server: "github",
+      tool: "get-issue",
+      text: "Issue 7 not found",
+    });
+  });
+
+  it("should report the line and tool call of an uncaught error", async () => {
+    const servers = await createIssueServer();
+
+    const error = await runtime
+      .executeScript(
+        "const ok = await github.get_issue({ id: 1 });\nconst issue = await github.get_issue({ id: 7 });\nreturn issue.title;",
+        servers,
+      )
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ScriptError);
+    expect((error as ScriptError).details).toMatchObject({
+      line: 2,
+      message: "ToolCallError: Issue 7 not found",
+      toolCall: { server: "github", tool: "get-issue", args: { id: 7 } },
+    });
+  });
+
+  it("should report the line of syntax errors", async () => {
+    const error = await runtime
+      .executeScript("const a = 1;\nconst = 2;", new Map())
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ScriptError);
+    expect((error as ScriptError).details.line).toBe(2);
+    expect((error as ScriptError).details.message).toContain("SyntaxError");
+  });
+
+  it("should stop loops with the instruction limit even inside try/catch", async () => {
+    const error = await runtime
+      .executeScript(
+        "while (true) { try { while (true) {} } catch (e) {} }",
+        new Map(),
+        { limits: { maxInstructions: 1_000_000 } },
+      )
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ScriptLimitError);
+    expect((error as ScriptLimitError).limit).toBe("instructions");
+
+    // The runtime is still usable afterwards
+    await expect(runtime.executeScript("return 1;", new Map())).resolves.toBe(
+      1,
+    );
+  });
+
+  it("should stop scripts that wait forever with the time limit", async () => {
+    const error = await runtime
+      .executeScript("await new Promise(() => {});", new Map(), {
+        limits: { timeoutMs: 100 },
+      })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ScriptLimitError);
+    expect((error as ScriptLimitError).limit).toBe("timeout");
+  });
+
+  it("should stop scripts that exceed the memory limit", async () => {
+    const error = await runtime
+      .executeScript(
+        'const parts = []; while (true) { parts.push("x".repeat(1024)); }',
+        new Map(),
+        { limits: { maxMemoryBytes: 4 * 1024 * 1024 } },
+      )
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ScriptLimitError);
+    expect((error as ScriptLimitError).limit).toBe("memory");
+  });
+
+  it("should provide input, state and logging", async () => {
+    const values = new Map<string, unknown>();
+    const state: ScriptState = {
+      get: (key) => values.get(key),
+      set: (key, value) => void values.set(key, value),
+      delete: (key) => values.delete(key),
+      keys: () => Array.from(values.keys()),
+    };
+    const onLog = vi.fn();
+
+    const value = await runtime.executeScript(
+      `
+      "use strict";
+      console.log("query", input.query, { page: 1 });
+      log("warn", "careful");
+      state.set("seen", [input.query, null]);
+      try {
+        input.query = "changed";
+      } catch (err) {
+        return { query: input.query, seen: state.get("seen"), error: err.name };
+      }
+    `,
+      new Map(),
+      { input: { query: "bugs" }, state, onLog },
+    );
+
+    expect(value).toEqual({
+      query: "bugs",
+      seen: ["bugs", null],
+      error: "TypeError",
+    });
+    expect(onLog.mock.calls.map(([entry]) => entry)).toEqual([
+      { level: "info", message: 'query bugs {"page":1}' },
+      { level: "warn", message: "careful" },
+    ]);
+  });
 });
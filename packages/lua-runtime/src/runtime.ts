@@ -1,100 +1,350 @@
-import { LuaFactory, LuaEngine } from "wasmoon";
-import type { ILuaRuntime, ILogger, IMCPClientSession } from "./types.js";
+import { LuaFactory, LuaEngine, LuaType } from "wasmoon";
+import type {
+  ILuaRuntime,
+  ILogger,
+  IMCPClientSession,
+  OutputValidationMode,
+  RuntimeOptions,
+  ScriptExecutionOptions,
+} from "./types.js";
 import {
-  sanitizeLuaIdentifier,
-  namespaceCallToolResultResources,
-} from "@my-cool-proxy/mcp-utilities";
+  DEFAULT_SCRIPT_LIMITS,
+  resolveScriptLimits,
+  ScriptCancelledError,
+  ScriptLimitError,
+  type ScriptLimits,
+} from "./limits.js";
+import { ExecutionGuard, guardLuaEngine } from "./execution-guard.js";
+import { installParallelPrimitives } from "./parallel.js";
+import { installClientRequests } from "./client-requests.js";
+import { installScriptState } from "./script-state.js";
+import { installReadOnlyTables, setReadOnlyGlobal } from "./read-only.js";
 import {
-  takeResult,
-  type ResponseMessage,
-} from "@modelcontextprotocol/sdk/experimental";
+  fromLuaValue,
+  installJson,
+  shapeEmptyTables,
+  toLuaValue,
+} from "./json.js";
+import { installStdlib } from "./stdlib.js";
+import { installLogging } from "./logs.js";
+import { installContentHelpers } from "./content.js";
 import {
-  CallToolResultSchema,
-  type CallToolResult,
-} from "@modelcontextprotocol/sdk/types.js";
-import { inspect } from "node:util";
+  createScriptError,
+  SCRIPT_CHUNK_NAME,
+  ScriptAnalysisError,
+  type FailedToolCall,
+} from "./script-error.js";
+import { analyzeScript, referencedServers } from "./script-analysis.js";
+import { DEFAULT_ENGINE_POOL_SIZE, EnginePool } from "./engine-pool.js";
+import { createReadResource } from "./resource-access.js";
+import { installSandbox, type ProtectedGlobals } from "./sandbox.js";
+import {
+  createServerTable,
+  type ScriptValueConversion,
+} from "./server-table.js";
+import { sanitizeLuaIdentifier } from "@my-cool-proxy/mcp-utilities";
+
+/**
+ * Lua tables arrive without a way to tell {} from [], so empty tables in
+ * tool arguments are shaped by the tool's input schema
+ */
+const LUA_VALUE_CONVERSION: ScriptValueConversion = {
+  toArguments: (value, inputSchema) =>
+    shapeEmptyTables(fromLuaValue(value || {}), inputSchema),
+  toScript: toLuaValue,
+};
 
 export class WasmoonRuntime implements ILuaRuntime {
   private factory: LuaFactory;
+  private engines: EnginePool;
+  private protectedGlobals = new WeakMap<LuaEngine, ProtectedGlobals>();
+  private limits: ScriptLimits;
+  private outputValidation: OutputValidationMode;
 
-  constructor(private logger: ILogger) {
+  /**
+   * @param logger Logger for runtime diagnostics
+   * @param limits Default execution limits, merged over DEFAULT_SCRIPT_LIMITS
+   * @param options Runtime behaviour shared by all executions
+   */
+  constructor(
+    private logger: ILogger,
+    limits?: Partial<ScriptLimits>,
+    options?: RuntimeOptions,
+  ) {
     this.factory = new LuaFactory();
+    this.limits = { ...DEFAULT_SCRIPT_LIMITS, ...limits };
+    this.outputValidation = options?.outputValidation ?? "warn";
+    this.engines = new EnginePool(
+      () => this.createEngine(),
+      options?.enginePoolSize ?? DEFAULT_ENGINE_POOL_SIZE,
+    );
   }
 
   async executeScript(
     script: string,
     mcpServers: Map<string, IMCPClientSession>,
+    options?: ScriptExecutionOptions,
   ): Promise<unknown> {
     this.logger.debug(`Executing Lua script:\n${script}`);
 
-    let finalResult: unknown;
-    const engine = await this.createEngine((result: unknown) => {
-      finalResult = result;
+    const finalResult: { called: boolean; value?: unknown } = {
+      called: false,
+    };
+    let failedCall: FailedToolCall | undefined;
+    const engine = await this.engines.acquire(options?.sessionId);
+    const globals = this.protectedGlobals.get(engine)!;
+    const guard = new ExecutionGuard(
+      guardLuaEngine(engine),
+      resolveScriptLimits(this.limits, options?.limits),
+      options?.signal,
+    );
+
+    // Add a function to return the final result; scripts can't reassign it
+    globals.set("result", (res: unknown) => {
+      finalResult.called = true;
+      finalResult.value = fromLuaValue(res);
     });
 
+    // Let the script report its own progress; a no-op without a listener
+    engine.global.set(
+      "progress",
+      (message: unknown, current: unknown, total: unknown) => {
+        options?.onProgress?.({
+          message: message === undefined ? undefined : String(message),
+          current: typeof current === "number" ? current : undefined,
+          total: typeof total === "number" ? total : undefined,
+        });
+      },
+    );
+
+    // print() and log() go to the caller instead of stdout
+    installLogging(engine, options?.onLog);
+
     try {
-      // Inject MCP servers as Lua globals
-      await this.injectMCPServers(engine, mcpServers);
+      // Inject the MCP servers the script refers to as Lua globals; listing
+      // the tools of every server in a large session would cost more than
+      // most scripts take to run
+      const referenced = this.selectServers(engine, script, mcpServers);
+      const serverFields = await this.injectMCPServers(
+        globals,
+        referenced,
+        guard,
+        options,
+        (call) => {
+          failedCall = call;
+        },
+      );
+
+      // Read any namespaced resource URI, e.g. from a tool's resource_link
+      engine.global.set(
+        "read_resource",
+        createReadResource(mcpServers, guard, options?.readResource),
+      );
+
+      // sample() and elicit() go to the downstream client
+      installClientRequests(engine, options, guard);
 
-      await engine.doString(script);
-      return finalResult;
+      // state.get/set/delete/keys persist between executions
+      installScriptState(engine, options?.state);
+
+      // Structured input from the caller, so scripts never splice data into
+      // source; like result, scripts can't reassign it
+      setReadOnlyGlobal(engine, "input", options?.input ?? {});
+      globals.protect("input");
+
+      // Catch misspelled servers and tools before any call has side effects
+      await this.checkScript(
+        engine,
+        script,
+        serverFields,
+        new Map([...mcpServers].filter(([name]) => !referenced.has(name))),
+        options?.onLog,
+      );
+
+      guard.start();
+      await this.runScript(engine, script);
+
+      // The script may have swallowed a limit error with pcall() right before finishing
+      const stopError = guard.getStopError(undefined, finalResult);
+      if (stopError) throw stopError;
+
+      return finalResult.value;
     } catch (error) {
+      if (error instanceof ScriptAnalysisError) {
+        this.logger.info("Lua script rejected by pre-flight analysis");
+        throw error;
+      }
+
+      const stopError =
+        error instanceof ScriptLimitError ||
+        error instanceof ScriptCancelledError
+          ? error
+          : guard.getStopError(error, finalResult);
+      if (stopError instanceof ScriptCancelledError) {
+        this.logger.info("Lua script cancelled by the caller");
+        throw stopError;
+      }
+      if (stopError) {
+        this.logger.warn(
+          `Lua script stopped: ${stopError.limit} limit exceeded`,
+        );
+        throw stopError;
+      }
+
       this.logger.error("Lua script execution failed", error as Error);
 
-      // Check for common result() shadowing error
-      if (
-        error instanceof Error &&
-        error.message.includes("self is not a function")
-      ) {
-        const hint = `
-💡 HINT: You may have shadowed the global 'result' function with a local variable.
-❌ Incorrect: local result = someFunction():await()
-✅ Correct: local res = someFunction():await(); result(res)
-
-The 'result' function is global - don't use 'local result = ...' as this overwrites it.
-        `.trim();
-        this.logger.error(hint);
-        throw new Error(`${error.message}\n${hint}`);
+      // Report the position, the failing tool call and any partial result
+      const scriptError = createScriptError(
+        error,
+        script,
+        failedCall,
+        finalResult,
+      );
+      throw scriptError;
+    } finally {
+      guard.dispose();
+      globals.clear();
+      // A stopped script may have left Lua mid-call, and a callback of a
+      // request still in flight must not run in the next script
+      this.engines.release(
+        engine,
+        options?.sessionId,
+        () => !guard.stopped && guard.settled,
+      );
+    }
+  }
+
+  /**
+   * The servers a script refers to, by original name
+   */
+  private selectServers(
+    engine: LuaEngine,
+    script: string,
+    mcpServers: Map<string, IMCPClientSession>,
+  ): Map<string, IMCPClientSession> {
+    const luaNames = [...mcpServers.keys()].map(sanitizeLuaIdentifier);
+    const referenced = referencedServers(script, luaNames, (name) =>
+      isGlobal(engine, name),
+    );
+    if (!referenced) {
+      return mcpServers;
+    }
+    return new Map(
+      [...mcpServers].filter(([name]) =>
+        referenced.has(sanitizeLuaIdentifier(name)),
+      ),
+    );
+  }
+
+  /**
+   * Analyze the script before running it. Warnings go to the script's log;
+   * errors are thrown as a ScriptAnalysisError, so nothing runs.
+   *
+   * @param servers - Fields of the injected servers
+   * @param uninjected - Servers the script doesn't refer to; their tools are
+   * only listed when there are errors, so that suggestions can name them
+   */
+  private async checkScript(
+    engine: LuaEngine,
+    script: string,
+    servers: Map<string, ReadonlySet<string>>,
+    uninjected: Map<string, IMCPClientSession>,
+    onLog: ScriptExecutionOptions["onLog"],
+  ): Promise<void> {
+    const analyze = (fields: Map<string, ReadonlySet<string>>) =>
+      analyzeScript(script, {
+        servers: fields,
+        isGlobal: (name) => isGlobal(engine, name),
+      });
+
+    const allServers = new Map(servers);
+    for (const name of uninjected.keys()) {
+      allServers.set(sanitizeLuaIdentifier(name), new Set());
+    }
+    let diagnostics = analyze(allServers);
+
+    const hasErrors = () => diagnostics.some((d) => d.severity === "error");
+    if (hasErrors() && uninjected.size > 0) {
+      for (const [name, client] of uninjected) {
+        const tools = await client.listTools().catch(() => []);
+        allServers.set(
+          sanitizeLuaIdentifier(name),
+          new Set([
+            ...tools.map((tool) => sanitizeLuaIdentifier(tool.name)),
+            "resources",
+            "prompts",
+          ]),
+        );
       }
+      diagnostics = analyze(allServers);
+    }
+
+    if (hasErrors()) {
+      throw new ScriptAnalysisError(diagnostics);
+    }
+    for (const warning of diagnostics) {
+      onLog?.({
+        level: "warn",
+        message: `Line ${warning.line}, column ${warning.column}: ${warning.message}`,
+      });
+    }
+  }
 
-      throw error;
+  /**
+   * Run the script like engine.doString(), but under SCRIPT_CHUNK_NAME so
+   * that error positions refer to the script rather than to its first line.
+   */
+  private async runScript(engine: LuaEngine, script: string): Promise<void> {
+    const thread = engine.global.newThread();
+    const threadIndex = engine.global.getTop();
+    try {
+      thread.loadString(script, `=${SCRIPT_CHUNK_NAME}`);
+      await thread.run(0);
     } finally {
-      engine.global.close();
+      engine.global.remove(threadIndex);
     }
   }
 
-  private async createEngine(
-    resultCallback: (result: unknown) => void,
-  ): Promise<LuaEngine> {
-    const engine = await this.factory.createEngine();
+  /**
+   * Create a sandboxed engine with the globals every execution shares. The
+   * engine pool records this state and restores it between executions.
+   */
+  private async createEngine(): Promise<LuaEngine> {
+    // Allocation tracing is required for the memory limit
+    const engine = await this.factory.createEngine({ traceAllocations: true });
 
-    // Remove dangerous OS access
-    engine.global.set("os", undefined);
+    // Add json.null and the json.array()/json.object() markers
+    await installJson(engine);
 
-    // Remove file I/O
-    engine.global.set("io", undefined);
+    // Allow read-only tables to be passed back to JavaScript
+    await installReadOnlyTables(engine);
 
-    // Remove module loading capabilities
-    engine.global.set("require", undefined);
-    engine.global.set("dofile", undefined);
-    engine.global.set("loadfile", undefined);
-    engine.global.set("package", undefined);
+    // Add json.encode/decode, base64, time, string and table helpers, uuid()
+    installStdlib(engine);
 
-    // Remove debug facilities
-    engine.global.set("debug", undefined);
+    // Add await_all(), await_any() and parallel_map()
+    await installParallelPrimitives(engine);
 
-    // Add a function to return the final result
-    engine.global.set("result", (res: unknown) => {
-      resultCallback(res);
-    });
+    // Add mcp.text(), mcp.image() and the other content block constructors
+    installContentHelpers(engine);
+
+    // Remove every global that isn't on the allow-list, e.g. os, io, load
+    // and debug, and guard the globals scripts must not reassign
+    this.protectedGlobals.set(engine, await installSandbox(engine));
 
     return engine;
   }
 
   private async injectMCPServers(
-    engine: LuaEngine,
+    globals: ProtectedGlobals,
     mcpServers: Map<string, IMCPClientSession>,
-  ): Promise<void> {
+    guard: ExecutionGuard,
+    options: ScriptExecutionOptions | undefined,
+    onCallFailed: (call: FailedToolCall) => void,
+  ): Promise<Map<string, ReadonlySet<string>>> {
+    // Fields of each server table, for the pre-flight analysis
+    const serverFields = new Map<string, ReadonlySet<string>>();
+
     for (const [originalServerName, client] of mcpServers.entries()) {
       try {
         // Sanitize server name for Lua
@@ -103,79 +353,28 @@ The 'result' function is global - don't use 'local result = ...' as this overwri
         // List available tools from the MCP server
         const tools = await client.listTools();
 
-        // Create a Lua table for this server
-        const serverTable: Record<string, unknown> = {};
-
-        // Add each tool as a function on the server table
-        for (const tool of tools) {
-          const originalToolName = tool.name;
-          const sanitizedToolName = sanitizeLuaIdentifier(originalToolName);
-
-          // Capture original names in closure for MCP calls
-          serverTable[sanitizedToolName] = async (args: unknown) => {
-            try {
-              this.logger.debug(
-                `Calling ${originalServerName}.${originalToolName} ` +
-                  `(Lua: ${sanitizedServerName}.${sanitizedToolName}) with args: ${inspect(args)}`,
-              );
-
-              const result = await takeResult<
-                CallToolResult,
-                AsyncGenerator<ResponseMessage<CallToolResult>>
-              >(
-                client.experimental.tasks.callToolStream(
-                  {
-                    name: originalToolName,
-                    arguments: (args as Record<string, unknown>) || {},
-                  },
-                  CallToolResultSchema,
-                ) as AsyncGenerator<ResponseMessage<CallToolResult>>,
-              );
-
-              // IMPORTANT: Namespace resource URIs in tool results here!
-              // This MUST happen at the tool call level because:
-              // 1. We have the server context (originalServerName) here
-              // 2. Lua scripts can call tools from multiple servers
-              // 3. By the time results reach the gateway server, we've lost which
-              //    server each resource came from
-              // This ensures clients can directly use resource URIs from tool results
-              // without manual namespacing (e.g., file:///data.json becomes
-              // mcp://data-server/file:///data.json)
-              const namespacedResult = namespaceCallToolResultResources(
-                originalServerName,
-                result,
-              );
-
-              if (namespacedResult.structuredContent) {
-                // Directly return structured content as Lua table
-                return namespacedResult.structuredContent;
-              }
-
-              if (
-                namespacedResult.content.length === 1 &&
-                namespacedResult.content[0]?.type === "text"
-              ) {
-                // If single text content, attempt to parse as JSON
-                try {
-                  return JSON.parse(namespacedResult.content[0].text);
-                } catch {
-                  // ignored
-                }
-              }
-
-              return namespacedResult;
-            } catch (error) {
-              this.logger.error(
-                `Error calling ${originalServerName}.${originalToolName}:`,
-                error as Error,
-              );
-              throw error;
-            }
-          };
-        }
-
-        // Set the server table as a global in Lua using sanitized name
-        engine.global.set(sanitizedServerName, serverTable);
+        // Create a Lua table for this server, with a function for each tool
+        const serverTable = createServerTable(
+          originalServerName,
+          client,
+          tools,
+          {
+            logger: this.logger,
+            guard,
+            options,
+            outputValidation: this.outputValidation,
+            conversion: LUA_VALUE_CONVERSION,
+            onCallFailed,
+          },
+        );
+
+        // Set a read-only copy of the server table as a global in Lua
+        // using sanitized name
+        globals.set(sanitizedServerName, serverTable);
+        serverFields.set(
+          sanitizedServerName,
+          new Set(Object.keys(serverTable)),
+        );
 
         const nameInfo =
           sanitizedServerName !== originalServerName
@@ -192,5 +391,17 @@ The 'result' function is global - don't use 'local result = ...' as this overwri
         // Continue with other servers even if one fails
       }
     }
+
+    return serverFields;
   }
 }
+
+/**
+ * Whether a global is defined in the engine
+ */
+function isGlobal(engine: LuaEngine, name: string): boolean {
+  const { lua, address } = engine.global;
+  const type = lua.lua_getglobal(address, name);
+  engine.global.pop();
+  return type !== LuaType.Nil;
+}
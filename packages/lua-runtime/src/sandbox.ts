@@ -0,0 +1,163 @@
+import type { LuaEngine } from "wasmoon";
+import { isPlainObject } from "./json.js";
+import { readOnlyObject } from "./read-only.js";
+
+/**
+ * Globals a script may use. Anything else in a new engine, such as `load`,
+ * `collectgarbage`, `coroutine`, `rawset`, `os` or `io`, is removed once the
+ * runtime's own libraries are installed.
+ */
+export const SAFE_GLOBALS: readonly string[] = [
+  // Base library
+  "_G",
+  "_VERSION",
+  "assert",
+  "error",
+  "getmetatable",
+  "ipairs",
+  "next",
+  "pairs",
+  "pcall",
+  "rawequal",
+  "rawget",
+  "rawlen",
+  "select",
+  "setmetatable",
+  "tonumber",
+  "tostring",
+  "type",
+  "xpcall",
+  // Libraries without access to the host
+  "math",
+  "string",
+  "table",
+  "utf8",
+  // Installed by the runtime
+  "json",
+  "base64",
+  "time",
+  "uuid",
+  "await_all",
+  "await_any",
+  "parallel_map",
+  "mcp",
+];
+
+/**
+ * Longest string string.rep() may build, in bytes. The memory limit would
+ * stop a larger one too, but only after a single allocation of that size.
+ */
+export const MAX_STRING_REP_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Removes the globals that aren't allowed, replaces string.rep() and
+ * string.dump(), and guards _G so that protected globals can be read but not
+ * assigned. Protected globals live in a table behind _G's __index, which
+ * scripts can't reach: rawset is gone and the metatable is protected.
+ */
+const SANDBOX_PRELUDE = `
+local next, type, tostring, error, rawget, rawset =
+  next, type, tostring, error, rawget, rawset
+
+local allowed = {}
+for _, name in next, ${toLuaList(SAFE_GLOBALS)} do
+  allowed[name] = true
+end
+local removed = {}
+for name in next, _G do
+  if not allowed[name] then
+    removed[#removed + 1] = name
+  end
+end
+for _, name in next, removed do
+  _G[name] = nil
+end
+
+-- Bytecode can break out of the sandbox, so it can be neither loaded nor dumped
+string.dump = nil
+
+local rep = string.rep
+string.rep = function(s, n, sep)
+  if type(n) == "number" and n > 1 then
+    local size = #tostring(s) * n
+    if sep ~= nil then
+      size = size + #tostring(sep) * (n - 1)
+    end
+    if size > ${MAX_STRING_REP_BYTES} then
+      error("string.rep() would build a string of " .. size ..
+        " bytes; the limit is ${MAX_STRING_REP_BYTES}", 2)
+    end
+  end
+  return rep(s, n, sep)
+end
+
+local protected = {}
+setmetatable(_G, {
+  __index = protected,
+  __newindex = function(t, key, value)
+    if protected[key] ~= nil then
+      error(tostring(key) .. " is read-only", 2)
+    end
+    rawset(t, key, value)
+  end,
+  __metatable = false,
+})
+
+return {
+  set = function(name, value)
+    rawset(_G, name, nil)
+    protected[name] = value
+  end,
+  protect = function(name)
+    protected[name] = rawget(_G, name)
+    rawset(_G, name, nil)
+  end,
+  clear = function()
+    for name in next, protected do
+      protected[name] = nil
+    end
+  end,
+}
+`;
+
+/**
+ * Globals that scripts can read but not assign, such as `result` and the
+ * server tables
+ */
+export interface ProtectedGlobals {
+  /** Set a protected global; an object's fields become read-only too */
+  set(name: string, value: unknown): void;
+  /** Protect a global that was set in Lua, such as a read-only table */
+  protect(name: string): void;
+  /** Remove every protected global, e.g. before the engine is reused */
+  clear(): void;
+}
+
+/**
+ * Restrict an engine to SAFE_GLOBALS and guard its protected globals.
+ *
+ * Must run after the runtime's libraries are installed, since it removes
+ * every global not on the list. Code installed earlier that needs a removed
+ * function, such as parallel_map() and `coroutine`, keeps its own reference.
+ *
+ * @param engine - The engine to restrict
+ * @returns Access to the engine's protected globals
+ */
+export async function installSandbox(
+  engine: LuaEngine,
+): Promise<ProtectedGlobals> {
+  const globals = (await engine.doString(SANDBOX_PRELUDE)) as ProtectedGlobals;
+  return {
+    set: (name, value) =>
+      globals.set(
+        name,
+        isPlainObject(value) ? readOnlyObject(value, name) : value,
+      ),
+    protect: (name) => globals.protect(name),
+    clear: () => globals.clear(),
+  };
+}
+
+function toLuaList(names: readonly string[]): string {
+  return `{ ${names.map((name) => JSON.stringify(name)).join(", ")} }`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Outcome of checking a value against a JSON Schema
+ */
+export interface SchemaValidationResult {
+  /** The value with coercions applied */
+  value: unknown;
+  /** One entry per missing or invalid field, e.g. `id: expected integer, got string` */
+  problems: string[];
+}
+
+/**
+ * Tolerance for treating a computed float such as 0.1 * 30 as an integer
+ */
+const INTEGER_TOLERANCE = 1e-9;
+
+/**
+ * Check a value against the parts of JSON Schema that tool schemas rely on:
+ * `type`, `enum`, `const`, `required`, `properties`, `additionalProperties:
+ * false` and `items`. Composite keywords such as `anyOf` are not checked, so
+ * values they describe are accepted.
+ *
+ * Lua has a single number type, so where the schema asks for an integer, a
+ * float within rounding error of one (e.g. the result of a division) is
+ * rounded instead of rejected.
+ *
+ * @param value - The value to check, converted from Lua
+ * @param schema - JSON Schema the value should match
+ * @returns The coerced value and any problems found
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: unknown,
+): SchemaValidationResult {
+  const problems: string[] = [];
+  const coerced = check(value, schema, "", problems);
+  return { value: coerced, problems };
+}
+
+function check(
+  value: unknown,
+  schema: unknown,
+  path: string,
+  problems: string[],
+): unknown {
+  if (!schema || typeof schema !== "object") {
+    return value;
+  }
+  const {
+    type,
+    enum: allowed,
+    const: constant,
+    properties,
+    required,
+    additionalProperties,
+    items,
+  } = schema as Record<string, unknown>;
+  const label = path || "value";
+
+  const types =
+    typeof type === "string" ? [type] : Array.isArray(type) ? type : [];
+  if (types.length > 0) {
+    const matched = types.find((candidate) => matchesType(value, candidate));
+    if (matched === undefined) {
+      const rounded = Math.round(value as number);
+      if (
+        types.includes("integer") &&
+        typeof value === "number" &&
+        Math.abs(value - rounded) < INTEGER_TOLERANCE
+      ) {
+        value = rounded;
+      } else {
+        problems.push(
+          `${label}: expected ${types.join(" or ")}, got ${describe(value)}`,
+        );
+        return value;
+      }
+    }
+  }
+
+  if (
+    Array.isArray(allowed) &&
+    !allowed.some((option) => isEqual(option, value))
+  ) {
+    problems.push(
+      `${label}: expected one of ${allowed.map((option) => JSON.stringify(option)).join(", ")}, got ${JSON.stringify(value)}`,
+    );
+  }
+  if (constant !== undefined && !isEqual(constant, value)) {
+    problems.push(
+      `${label}: expected ${JSON.stringify(constant)}, got ${JSON.stringify(value)}`,
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      check(item, items, `${label}[${index + 1}]`, problems),
+    );
+  }
+
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const fieldSchemas = isObject(properties) ? properties : {};
+  const prefix = path ? `${path}.` : "";
+
+  if (Array.isArray(required)) {
+    for (const field of required) {
+      if (typeof field === "string" && value[field] === undefined) {
+        const expected = describeSchema(fieldSchemas[field]);
+        problems.push(
+          `${prefix}${field}: required${expected ? ` ${expected}` : ""} is missing`,
+        );
+      }
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (key in fieldSchemas) {
+      result[key] = check(item, fieldSchemas[key], `${prefix}${key}`, problems);
+    } else {
+      if (additionalProperties === false) {
+        problems.push(`${prefix}${key}: unexpected field`);
+      }
+      result[key] = item;
+    }
+  }
+  return result;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Name a value's JSON type, with the value itself for numbers
+ */
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return `number ${value}`;
+  return typeof value;
+}
+
+/**
+ * Name the type a schema expects, e.g. `integer` or `string or null`
+ */
+function describeSchema(schema: unknown): string | undefined {
+  if (!isObject(schema)) return undefined;
+  const { type } = schema;
+  if (typeof type === "string") return type;
+  if (Array.isArray(type)) return type.join(" or ");
+  return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
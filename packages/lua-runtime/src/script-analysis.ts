@@ -0,0 +1,814 @@
+/**
+ * A problem found in a script before running it
+ */
+export interface ScriptDiagnostic {
+  /** Errors stop the script from running; warnings are reported alongside */
+  severity: "error" | "warning";
+  message: string;
+  /** 1-based position in the script */
+  line: number;
+  column: number;
+  /** Close match for a misspelled reference, e.g. `data_server.get_user` */
+  suggestion?: string;
+}
+
+/**
+ * What the script can see when it starts
+ */
+export interface ScriptAnalysisContext {
+  /** Lua names of the injected servers and the fields of each server table */
+  servers: Map<string, ReadonlySet<string>>;
+  /** Whether a global other than a server is defined, e.g. `string` */
+  isGlobal: (name: string) => boolean;
+}
+
+/**
+ * Globals the runtime provides that a script is likely to rely on, so
+ * shadowing them with a local is reported
+ */
+const SCRIPT_GLOBALS: ReadonlySet<string> = new Set([
+  "result",
+  "input",
+  "state",
+  "json",
+  "progress",
+  "read_resource",
+  "sample",
+  "elicit",
+  "log",
+  "await_all",
+  "await_any",
+  "parallel_map",
+  "mcp",
+]);
+
+/**
+ * Server table fields that are not tool calls
+ */
+const NON_TOOL_FIELDS: ReadonlySet<string> = new Set(["resources", "prompts"]);
+
+const KEYWORDS: ReadonlySet<string> = new Set([
+  "and",
+  "break",
+  "do",
+  "else",
+  "elseif",
+  "end",
+  "false",
+  "for",
+  "function",
+  "goto",
+  "if",
+  "in",
+  "local",
+  "nil",
+  "not",
+  "or",
+  "repeat",
+  "return",
+  "then",
+  "true",
+  "until",
+  "while",
+]);
+
+/**
+ * Keywords after which a new statement starts
+ */
+const STATEMENT_KEYWORDS: ReadonlySet<string> = new Set([
+  "do",
+  "then",
+  "else",
+  "end",
+  "repeat",
+  "break",
+]);
+
+/**
+ * Keywords that are operators, so an expression continues after them
+ */
+const OPERATOR_KEYWORDS: ReadonlySet<string> = new Set(["and", "or", "not"]);
+
+const OPENING_SYMBOLS: ReadonlySet<string> = new Set(["(", "[", "{"]);
+const CLOSING_SYMBOLS: ReadonlySet<string> = new Set([")", "]", "}"]);
+
+/**
+ * Symbols that can follow a complete expression without continuing it
+ */
+const STATEMENT_SYMBOLS: ReadonlySet<string> = new Set([
+  ...CLOSING_SYMBOLS,
+  ";",
+  ",",
+  "=",
+  "::",
+]);
+
+const SYMBOLS = ["...", "..", "==", "~=", "<=", ">=", "<<", ">>", "//", "::"];
+
+interface Token {
+  type: "name" | "keyword" | "number" | "string" | "symbol";
+  value: string;
+  line: number;
+  column: number;
+}
+
+class LexError extends Error {}
+
+/**
+ * Check a script against the servers and tools it can call, without running
+ * it.
+ *
+ * This is a token-level check, not a full parse: syntax errors are left to
+ * Lua, and a script the tokenizer cannot read yields no diagnostics. It
+ * reports:
+ * - `server.tool` references to tools the server doesn't have (error)
+ * - fields of undefined globals, which are usually misspelled servers (error
+ *   when a server name is close, warning otherwise)
+ * - calling `result()` while a local shadows it (error)
+ * - tool calls whose promise is discarded, indexed or passed to result()
+ *   without `:await()` (warning)
+ * - locals that shadow a server or a runtime global (warning)
+ *
+ * @param script - The script source
+ * @param context - Servers and globals available to the script
+ * @returns Diagnostics in source order
+ */
+export function analyzeScript(
+  script: string,
+  context: ScriptAnalysisContext,
+): ScriptDiagnostic[] {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(script);
+  } catch (error) {
+    if (error instanceof LexError) return [];
+    throw error;
+  }
+  return new ScriptAnalyzer(tokens, context).analyze();
+}
+
+/**
+ * Find the servers a script may use, so that only those need their tools
+ * listed and their tables injected.
+ *
+ * A server counts as used when its Lua name appears as a name in the script,
+ * or when an undefined name is close enough to it to be a misspelling, so
+ * that the pre-flight analysis can still suggest its tools. Scripts that use
+ * `_G` or `_ENV`, or that the tokenizer cannot read, may reach any server.
+ *
+ * @param script - The script source
+ * @param servers - Lua names of the servers in the session
+ * @param isGlobal - Whether a global other than a server is defined
+ * @returns The Lua names of the servers to inject, or undefined for all
+ */
+export function referencedServers(
+  script: string,
+  servers: string[],
+  isGlobal: (name: string) => boolean,
+): Set<string> | undefined {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(script);
+  } catch (error) {
+    if (error instanceof LexError) return undefined;
+    throw error;
+  }
+
+  const referenced = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const previous = tokens[i - 1]?.value;
+    if (token.type !== "name" || previous === "." || previous === ":") {
+      continue;
+    }
+    if (token.value === "_G" || token.value === "_ENV") {
+      return undefined;
+    }
+    if (servers.includes(token.value)) {
+      referenced.add(token.value);
+    } else if (!isGlobal(token.value)) {
+      const server = closestMatch(token.value, servers);
+      if (server) referenced.add(server);
+    }
+  }
+  return referenced;
+}
+
+class ScriptAnalyzer {
+  private readonly diagnostics: ScriptDiagnostic[] = [];
+  // Innermost scope last; each maps a local's name to its line
+  private readonly scopes: Array<Map<string, number>> = [new Map()];
+  private readonly assignedGlobals: Set<string>;
+  private readonly localNames: Set<string>;
+  // Last token of each pending `until` condition, innermost last
+  private readonly untilEnds: number[] = [];
+  private loopsAwaitingDo = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly context: ScriptAnalysisContext,
+  ) {
+    this.assignedGlobals = collectAssignedGlobals(tokens);
+    this.localNames = collectLocalNames(tokens);
+  }
+
+  analyze(): ScriptDiagnostic[] {
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i]!;
+      if (token.type === "keyword") {
+        i = this.visitKeyword(i);
+      } else if (token.type === "name" && !this.isFieldName(i)) {
+        this.visitName(i);
+      }
+      this.closeRepeatScopes(i);
+    }
+    return this.diagnostics.sort(
+      (a, b) => a.line - b.line || a.column - b.column,
+    );
+  }
+
+  /**
+   * Track scopes and local declarations. Returns the index of the last token
+   * consumed.
+   */
+  private visitKeyword(i: number): number {
+    const token = this.tokens[i]!;
+    switch (token.value) {
+      case "local":
+        return this.declareLocals(i + 1);
+      case "function":
+        return this.openFunction(i + 1);
+      case "for":
+        this.scopes.push(new Map());
+        this.loopsAwaitingDo++;
+        return this.declareNames(i + 1);
+      case "while":
+        this.scopes.push(new Map());
+        this.loopsAwaitingDo++;
+        return i;
+      case "do":
+        if (this.loopsAwaitingDo > 0) {
+          this.loopsAwaitingDo--;
+        } else {
+          this.scopes.push(new Map());
+        }
+        return i;
+      case "if":
+      case "repeat":
+        this.scopes.push(new Map());
+        return i;
+      case "end":
+        if (this.scopes.length > 1) this.scopes.pop();
+        return i;
+      case "until":
+        // The body's locals stay visible in the condition
+        this.untilEnds.push(this.findExpressionEnd(i + 1));
+        return i;
+      default:
+        return i;
+    }
+  }
+
+  /**
+   * Close the scope of each `repeat` whose `until` condition ends at or before
+   * index i
+   */
+  private closeRepeatScopes(i: number): void {
+    while (
+      this.untilEnds.length > 0 &&
+      this.untilEnds[this.untilEnds.length - 1]! <= i
+    ) {
+      this.untilEnds.pop();
+      if (this.scopes.length > 1) this.scopes.pop();
+    }
+  }
+
+  /**
+   * `local function name` or `local a, b <const> = ...`
+   */
+  private declareLocals(i: number): number {
+    if (this.tokens[i]?.value === "function") {
+      const name = this.tokens[i + 1];
+      if (name?.type === "name") this.declare(name);
+      // Let the main loop open the function's scope
+      return i - 1;
+    }
+    return this.declareNames(i);
+  }
+
+  /**
+   * Declare a comma-separated list of names, skipping attributes such as
+   * `<const>`. Returns the index of the last name.
+   */
+  private declareNames(i: number): number {
+    let last = i - 1;
+    while (this.tokens[i]?.type === "name") {
+      this.declare(this.tokens[i]!);
+      last = i;
+      i++;
+      if (this.tokens[i]?.value === "<") {
+        i += 3;
+        last = i - 1;
+      }
+      if (this.tokens[i]?.value !== ",") break;
+      i++;
+    }
+    return last;
+  }
+
+  /**
+   * Skip the function name and declare the parameters in a new scope. Returns
+   * the index of the closing parenthesis.
+   */
+  private openFunction(i: number): number {
+    const scope = new Map<string, number>();
+    const line = this.tokens[i - 1]!.line;
+
+    while (
+      this.tokens[i]?.type === "name" ||
+      this.tokens[i]?.value === "." ||
+      this.tokens[i]?.value === ":"
+    ) {
+      if (this.tokens[i]!.value === ":") scope.set("self", line);
+      i++;
+    }
+
+    this.scopes.push(scope);
+    if (this.tokens[i]?.value !== "(") return i - 1;
+    i++;
+    while (i < this.tokens.length && this.tokens[i]!.value !== ")") {
+      if (this.tokens[i]!.type === "name") {
+        scope.set(this.tokens[i]!.value, this.tokens[i]!.line);
+      }
+      i++;
+    }
+    return i;
+  }
+
+  private declare(token: Token): void {
+    const name = token.value;
+    if (SCRIPT_GLOBALS.has(name) || this.context.servers.has(name)) {
+      const what = this.context.servers.has(name)
+        ? `the server '${name}'`
+        : `the global '${name}'`;
+      this.report(
+        "warning",
+        token,
+        `local '${name}' shadows ${what}; use another name${name === "result" ? ", e.g. 'res'" : ""}`,
+      );
+    }
+    this.scopes[this.scopes.length - 1]!.set(name, token.line);
+  }
+
+  private visitName(i: number): void {
+    const token = this.tokens[i]!;
+    const name = token.value;
+    const local = this.findLocal(name);
+    const next = this.tokens[i + 1];
+
+    if (name === "result" && local !== undefined && next?.value === "(") {
+      this.report(
+        "error",
+        token,
+        `result() is not callable here: the local 'result' declared on line ${local} shadows it; rename the local, e.g. to 'res'`,
+      );
+      return;
+    }
+
+    const field = this.tokens[i + 2];
+    if (
+      local !== undefined ||
+      next?.value !== "." ||
+      field?.type !== "name" ||
+      this.tokens[i + 3]?.value === "="
+    ) {
+      return;
+    }
+
+    const members = this.context.servers.get(name);
+    if (members) {
+      this.checkServerField(i, members);
+    } else if (
+      !this.context.isGlobal(name) &&
+      !this.assignedGlobals.has(name) &&
+      !this.localNames.has(name)
+    ) {
+      this.checkUndefinedGlobal(i);
+    }
+  }
+
+  /**
+   * `server.field`: the field must exist, and tool calls should be awaited
+   */
+  private checkServerField(i: number, members: ReadonlySet<string>): void {
+    const server = this.tokens[i]!.value;
+    const field = this.tokens[i + 2]!;
+
+    if (!members.has(field.value)) {
+      const suggestion = this.suggestTool(server, field.value);
+      this.report(
+        "error",
+        field,
+        `Server '${server}' has no tool '${field.value}'${suggestion ? `; did you mean ${suggestion}?` : ""}`,
+        suggestion,
+      );
+      return;
+    }
+
+    if (NON_TOOL_FIELDS.has(field.value)) return;
+    const end = this.findCallEnd(i + 3);
+    if (end === undefined) return;
+
+    const after = this.tokens[end + 1];
+    if (after?.value === ":" && this.tokens[end + 2]?.value === "await") {
+      return;
+    }
+
+    const call = `${server}.${field.value}(...)`;
+    if (after?.value === "." || after?.value === "[") {
+      this.report(
+        "warning",
+        field,
+        `${call} returns a promise; add :await() before reading fields from its result`,
+      );
+    } else if (
+      this.tokens[i - 1]?.value === "(" &&
+      this.tokens[i - 2]?.value === "result" &&
+      after?.value === ")"
+    ) {
+      this.report(
+        "warning",
+        field,
+        `${call} is passed to result() as a promise; add :await()`,
+      );
+    } else if (this.startsStatement(i)) {
+      this.report(
+        "warning",
+        field,
+        `The promise returned by ${call} is never awaited, so the script won't wait for the call or see its errors; add :await()`,
+      );
+    }
+  }
+
+  /**
+   * `name.field` where name is not defined anywhere: usually a misspelled server
+   */
+  private checkUndefinedGlobal(i: number): void {
+    const token = this.tokens[i]!;
+    const field = this.tokens[i + 2]!.value;
+    const server = closestMatch(token.value, [...this.context.servers.keys()]);
+
+    if (!server) {
+      this.report(
+        "warning",
+        token,
+        `'${token.value}' is not defined, so indexing it will fail; available servers: ${[...this.context.servers.keys()].join(", ") || "none"}`,
+      );
+      return;
+    }
+
+    const members = [...this.context.servers.get(server)!];
+    const tool = members.includes(field)
+      ? field
+      : (closestMatch(field, members) ?? field);
+    const suggestion = `${server}.${tool}`;
+    this.report(
+      "error",
+      token,
+      `Unknown server '${token.value}'; did you mean ${suggestion}?`,
+      suggestion,
+    );
+  }
+
+  /**
+   * Suggest a replacement for `server.tool`: the same tool on another server,
+   * or the closest tool name on any server
+   */
+  private suggestTool(server: string, tool: string): string | undefined {
+    for (const [other, members] of this.context.servers) {
+      if (members.has(tool)) return `${other}.${tool}`;
+    }
+
+    const sameServer = closestMatch(tool, [
+      ...this.context.servers.get(server)!,
+    ]);
+    if (sameServer) return `${server}.${sameServer}`;
+
+    const qualified = [...this.context.servers].flatMap(([other, members]) =>
+      [...members].map((member) => `${other}.${member}`),
+    );
+    return closestMatch(`${server}.${tool}`, qualified);
+  }
+
+  /**
+   * Find the last token of the call arguments starting at index i: `(...)`,
+   * a table constructor or a string
+   */
+  private findCallEnd(i: number): number | undefined {
+    const open = this.tokens[i];
+    if (open?.type === "string") return i;
+    const close = open?.value === "(" ? ")" : open?.value === "{" ? "}" : "";
+    if (!close) return undefined;
+
+    let depth = 0;
+    for (let j = i; j < this.tokens.length; j++) {
+      const value = this.tokens[j]!.value;
+      if (this.tokens[j]!.type !== "symbol") continue;
+      if (value === "(" || value === "{" || value === "[") depth++;
+      if (value === ")" || value === "}" || value === "]") depth--;
+      if (depth === 0) return value === close ? j : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the expression at index i is a statement of its own, i.e. the
+   * previous token ends a statement or expression rather than continuing one
+   */
+  /**
+   * Find the last token of the expression starting at index i, such as an
+   * `until` condition: the first operand at depth 0 that no operator, field,
+   * index or call continues
+   */
+  private findExpressionEnd(i: number): number {
+    let depth = 0;
+    for (let j = i; j < this.tokens.length; j++) {
+      const token = this.tokens[j]!;
+      if (token.type === "symbol" && OPENING_SYMBOLS.has(token.value)) {
+        depth++;
+        continue;
+      }
+      if (token.type === "keyword" && token.value === "function") {
+        depth++;
+        continue;
+      }
+      if (
+        (token.type === "symbol" && CLOSING_SYMBOLS.has(token.value)) ||
+        (token.type === "keyword" && token.value === "end")
+      ) {
+        depth--;
+      } else if (
+        token.type === "symbol" ||
+        OPERATOR_KEYWORDS.has(token.value)
+      ) {
+        continue;
+      }
+      if (depth > 0) continue;
+
+      const next = this.tokens[j + 1];
+      const continued =
+        next?.type === "string" ||
+        (next?.type === "symbol" && !STATEMENT_SYMBOLS.has(next.value)) ||
+        (next?.type === "keyword" &&
+          (next.value === "and" || next.value === "or"));
+      if (!continued || depth < 0) return j;
+    }
+    return this.tokens.length - 1;
+  }
+
+  private startsStatement(i: number): boolean {
+    const previous = this.tokens[i - 1];
+    if (!previous) return true;
+    if (previous.type === "keyword") {
+      return STATEMENT_KEYWORDS.has(previous.value);
+    }
+    if (previous.type === "symbol") {
+      return [";", ")", "]", "}"].includes(previous.value);
+    }
+    return true;
+  }
+
+  private isFieldName(i: number): boolean {
+    const previous = this.tokens[i - 1]?.value;
+    return previous === "." || previous === ":" || previous === "::";
+  }
+
+  private findLocal(name: string): number | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const line = this.scopes[i]!.get(name);
+      if (line !== undefined) return line;
+    }
+    return undefined;
+  }
+
+  private report(
+    severity: ScriptDiagnostic["severity"],
+    token: Token,
+    message: string,
+    suggestion?: string,
+  ): void {
+    this.diagnostics.push({
+      severity,
+      message,
+      line: token.line,
+      column: token.column,
+      ...(suggestion ? { suggestion } : {}),
+    });
+  }
+}
+
+/**
+ * Names the script assigns as globals (`name = ...` outside a table
+ * constructor, or `function name()`), so they don't count as undefined
+ */
+function collectAssignedGlobals(tokens: Token[]): Set<string> {
+  const names = new Set<string>();
+  let braces = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (token.value === "{" && token.type === "symbol") braces++;
+    if (token.value === "}" && token.type === "symbol") braces--;
+    if (token.type !== "name") continue;
+
+    const previous = tokens[i - 1];
+    const isFieldOrLocal =
+      previous?.value === "." ||
+      previous?.value === ":" ||
+      previous?.value === "local";
+    if (previous?.value === "function" && tokens[i - 2]?.value !== "local") {
+      names.add(token.value);
+    } else if (
+      !isFieldOrLocal &&
+      braces === 0 &&
+      tokens[i + 1]?.value === "="
+    ) {
+      names.add(token.value);
+    }
+  }
+  return names;
+}
+
+/**
+ * Names declared with `local` or as loop variables anywhere in the script.
+ * Scopes are only tracked approximately, so these are never reported as
+ * misspelled servers.
+ */
+function collectLocalNames(tokens: Token[]): Set<string> {
+  const names = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (
+      token.type !== "keyword" ||
+      (token.value !== "local" && token.value !== "for")
+    ) {
+      continue;
+    }
+    let j = tokens[i + 1]?.value === "function" ? i + 2 : i + 1;
+    while (tokens[j]?.type === "name") {
+      names.add(tokens[j]!.value);
+      j++;
+      if (tokens[j]?.value === "<") j += 3;
+      if (tokens[j]?.value !== ",") break;
+      j++;
+    }
+  }
+  return names;
+}
+
+/**
+ * The candidate closest to `target` by edit distance, ignoring case, if it is
+ * close enough to be a likely typo
+ */
+function closestMatch(
+  target: string,
+  candidates: string[],
+): string | undefined {
+  const maxDistance = Math.max(1, Math.floor(target.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(
+      target.toLowerCase(),
+      candidate.toLowerCase(),
+    );
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= maxDistance ? best : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Split Lua source into tokens, dropping whitespace and comments.
+ *
+ * @throws LexError for unterminated strings and comments
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advance = (to: number) => {
+    for (let i = index; i < to; i++) {
+      if (source[i] === "\n") {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    index = to;
+  };
+
+  // [[...]] or [==[...]==], starting at index; returns the end index
+  const longBracketEnd = (start: number): number | undefined => {
+    const open = /^\[(=*)\[/.exec(source.slice(start, start + 100));
+    if (!open) return undefined;
+    const close = source.indexOf(`]${open[1]}]`, start + open[0].length);
+    if (close === -1) throw new LexError("Unterminated long bracket");
+    return close + open[1]!.length + 2;
+  };
+
+  while (index < source.length) {
+    const char = source[index]!;
+
+    if (/\s/.test(char)) {
+      advance(index + 1);
+      continue;
+    }
+
+    if (source.startsWith("--", index)) {
+      const end = longBracketEnd(index + 2);
+      const lineEnd = source.indexOf("\n", index);
+      advance(end ?? (lineEnd === -1 ? source.length : lineEnd));
+      continue;
+    }
+
+    const token = { line, column: index - lineStart + 1 };
+
+    if (char === '"' || char === "'") {
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === "\n") throw new LexError("Unterminated string");
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      if (end >= source.length) throw new LexError("Unterminated string");
+      tokens.push({
+        ...token,
+        type: "string",
+        value: source.slice(index, end + 1),
+      });
+      advance(end + 1);
+      continue;
+    }
+
+    if (char === "[") {
+      const end = longBracketEnd(index);
+      if (end !== undefined) {
+        tokens.push({
+          ...token,
+          type: "string",
+          value: source.slice(index, end),
+        });
+        advance(end);
+        continue;
+      }
+    }
+
+    const rest = source.slice(index, index + 200);
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (name) {
+      const value = name[0];
+      tokens.push({
+        ...token,
+        type: KEYWORDS.has(value) ? "keyword" : "name",
+        value,
+      });
+      advance(index + value.length);
+      continue;
+    }
+
+    const number =
+      /^(?:0[xX][\da-fA-F]*(?:\.[\da-fA-F]*)?(?:[pP][+-]?\d+)?|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(
+        rest,
+      );
+    if (number) {
+      tokens.push({ ...token, type: "number", value: number[0] });
+      advance(index + number[0].length);
+      continue;
+    }
+
+    const symbol =
+      SYMBOLS.find((candidate) => source.startsWith(candidate, index)) ?? char;
+    tokens.push({ ...token, type: "symbol", value: symbol });
+    advance(index + symbol.length);
+  }
+
+  return tokens;
+}
@@ -0,0 +1,274 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ScriptDiagnostic } from "./script-analysis.js";
+
+/**
+ * Chunk name the script is loaded under, so that error positions in the
+ * script can be told apart from those in the runtime's own Lua helpers.
+ */
+export const SCRIPT_CHUNK_NAME = "script";
+
+/**
+ * A tool call made by the script
+ */
+export interface ScriptToolCall {
+  /** Original server name */
+  server: string;
+  /** Original tool name */
+  tool: string;
+  /** Arguments as sent to the server */
+  args: Record<string, unknown>;
+}
+
+/**
+ * What is known about a script failure, for the agent to correct the script.
+ */
+export interface ScriptErrorDetails {
+  /** The Lua error message, without position or stack traceback */
+  message: string;
+  /** 1-based line in the script, when the error came from the script */
+  line?: number;
+  /** 1-based column, when the message names the failing token or variable */
+  column?: number;
+  /** The lines around `line`, with the failing line marked */
+  codeFrame?: string;
+  /** The tool call that raised the error, if it came from a tool call */
+  toolCall?: ScriptToolCall;
+  resultCalled: boolean;
+  result?: unknown;
+}
+
+/**
+ * A failed tool call, remembered until the script finishes so that an error
+ * the script did not catch can be traced back to it
+ */
+export interface FailedToolCall extends ScriptToolCall {
+  error: unknown;
+}
+
+const CODE_FRAME_CONTEXT_LINES = 2;
+const MAX_PARTIAL_RESULT_LENGTH = 500;
+const MAX_ARGS_LENGTH = 500;
+
+/**
+ * Error thrown when a script fails with a Lua error. The message is written
+ * for the agent and `details` carries the same information as data.
+ */
+export class ScriptError extends Error {
+  constructor(readonly details: ScriptErrorDetails) {
+    super(formatScriptErrorMessage(details));
+    this.name = "ScriptError";
+  }
+}
+
+/**
+ * Error raised in the script when a tool returns a result with `isError`.
+ * Scripts can catch it with pcall() and read `server`, `tool`, `message` and
+ * `content` from the error value.
+ */
+export class ToolCallError extends Error {
+  constructor(
+    readonly server: string,
+    readonly tool: string,
+    readonly content: CallToolResult["content"],
+  ) {
+    const text = content
+      .flatMap((block) => (block.type === "text" ? [block.text] : []))
+      .join("\n");
+    super(text || "The tool returned an error result without a message");
+    this.name = "ToolCallError";
+  }
+
+  /**
+   * Used by tostring() in Lua and for uncaught errors
+   */
+  override toString(): string {
+    return `${this.server}.${this.tool} failed: ${this.message}`;
+  }
+
+  toJSON() {
+    return {
+      server: this.server,
+      tool: this.tool,
+      message: this.message,
+      content: this.content,
+    };
+  }
+}
+
+/**
+ * Error thrown when pre-flight analysis finds problems that would make the
+ * script fail, such as a call to a tool that doesn't exist. The script is not
+ * run. `diagnostics` also lists any warnings.
+ */
+export class ScriptAnalysisError extends Error {
+  constructor(readonly diagnostics: ScriptDiagnostic[]) {
+    super(formatAnalysisMessage(diagnostics));
+    this.name = "ScriptAnalysisError";
+  }
+}
+
+/**
+ * Build a ScriptError from an error raised while running a script.
+ *
+ * wasmoon reports Lua errors as `<chunk>:<line>: <message>` followed by a
+ * stack traceback. Errors thrown from JavaScript, such as a failed tool call,
+ * carry no position, so the line is taken from the first traceback frame in
+ * the script instead.
+ *
+ * @param error - The error raised by wasmoon
+ * @param script - The script source
+ * @param failedCall - The last tool call that failed, if any
+ * @param result - Partial result state captured from result()
+ */
+export function createScriptError(
+  error: unknown,
+  script: string,
+  failedCall: FailedToolCall | undefined,
+  result: { called: boolean; value?: unknown },
+): ScriptError {
+  const raw = error instanceof Error ? error.message : String(error);
+  const [head = "", traceback = ""] = raw.split(/\nstack traceback:\n/);
+
+  const position = new RegExp(`^${SCRIPT_CHUNK_NAME}:(\\d+): `);
+  let message = head;
+  let line: number | undefined;
+  const match = position.exec(head);
+  if (match) {
+    line = Number(match[1]);
+    message = head.slice(match[0].length);
+  } else {
+    const frame = new RegExp(`^\\s*${SCRIPT_CHUNK_NAME}:(\\d+):`, "m").exec(
+      traceback,
+    );
+    line = frame ? Number(frame[1]) : undefined;
+  }
+
+  const sourceLines = script.split(/\r?\n/);
+  const sourceLine = line !== undefined ? sourceLines[line - 1] : undefined;
+  const column =
+    sourceLine !== undefined ? findColumn(message, sourceLine) : undefined;
+
+  // Only blame the tool call if its error is the one that ended the script,
+  // not one the script caught with pcall() earlier
+  const callMessage =
+    failedCall?.error instanceof Error
+      ? failedCall.error.message
+      : String(failedCall?.error);
+  const toolCall =
+    failedCall && message.includes(callMessage)
+      ? {
+          server: failedCall.server,
+          tool: failedCall.tool,
+          args: failedCall.args,
+        }
+      : undefined;
+
+  return new ScriptError({
+    message,
+    line,
+    column,
+    codeFrame:
+      line !== undefined && sourceLine !== undefined
+        ? formatCodeFrame(sourceLines, line, column)
+        : undefined,
+    toolCall,
+    resultCalled: result.called,
+    result: result.called ? result.value : undefined,
+  });
+}
+
+/**
+ * Find the column of the token or variable a Lua error message names, e.g.
+ * `near 'then'` or `(local 'issue')`
+ */
+function findColumn(message: string, sourceLine: string): number | undefined {
+  const near = /near '([^']+)'/.exec(message);
+  if (near?.[1]) {
+    const index = sourceLine.indexOf(near[1]);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  const variable =
+    /\((?:local|global|field|method|upvalue|constant) '([A-Za-z_][A-Za-z0-9_]*)'\)/.exec(
+      message,
+    );
+  if (variable?.[1]) {
+    const index = sourceLine.search(new RegExp(`\\b${variable[1]}\\b`));
+    return index === -1 ? undefined : index + 1;
+  }
+
+  return undefined;
+}
+
+/**
+ * Show the lines around the failing line, marking it with `>` and the column
+ * with `^`
+ */
+function formatCodeFrame(
+  sourceLines: string[],
+  line: number,
+  column: number | undefined,
+): string {
+  const first = Math.max(1, line - CODE_FRAME_CONTEXT_LINES);
+  const last = Math.min(sourceLines.length, line + CODE_FRAME_CONTEXT_LINES);
+  const width = String(last).length;
+
+  const frame: string[] = [];
+  for (let number = first; number <= last; number++) {
+    const marker = number === line ? ">" : " ";
+    const gutter = String(number).padStart(width);
+    frame.push(`${marker} ${gutter} | ${sourceLines[number - 1]}`.trimEnd());
+    if (number === line && column !== undefined) {
+      frame.push(`  ${" ".repeat(width)} | ${" ".repeat(column - 1)}^`);
+    }
+  }
+  return frame.join("\n");
+}
+
+function formatScriptErrorMessage(details: ScriptErrorDetails): string {
+  let position = "";
+  if (details.line !== undefined) {
+    position =
+      details.column !== undefined
+        ? `Line ${details.line}, column ${details.column}: `
+        : `Line ${details.line}: `;
+  }
+
+  const lines = [`${position}${details.message}`];
+
+  if (details.codeFrame) {
+    lines.push("", details.codeFrame);
+  }
+
+  if (details.toolCall) {
+    const { server, tool, args } = details.toolCall;
+    lines.push(
+      "",
+      `The error came from the call to ${server}.${tool} with arguments: ${preview(args, MAX_ARGS_LENGTH)}`,
+    );
+  }
+
+  if (details.resultCalled) {
+    lines.push(
+      "",
+      `Value passed to result() before the error: ${preview(details.result, MAX_PARTIAL_RESULT_LENGTH)}`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function preview(value: unknown, maxLength: number): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+function formatAnalysisMessage(diagnostics: ScriptDiagnostic[]): string {
+  const lines = diagnostics.map(
+    (d) => `- Line ${d.line}, column ${d.column} (${d.severity}): ${d.message}`,
+  );
+  return [
+    "The script was not run because pre-flight checks found errors:",
+    ...lines,
+  ].join("\n");
+}
@@ -0,0 +1,58 @@
+import type { LuaEngine } from "wasmoon";
+import { fromLuaValue, toLuaValue } from "./json.js";
+import type { ScriptState } from "./types.js";
+
+/**
+ * Install the `state` table (get/set/delete/keys) backed by the given store.
+ *
+ * The table is always defined; without a store every function raises an
+ * error so the script learns why its state is missing.
+ *
+ * @param engine - The engine running the script
+ * @param state - Store for the current session, if any
+ */
+export function installScriptState(
+  engine: LuaEngine,
+  state: ScriptState | undefined,
+): void {
+  engine.global.set("state", createScriptState(state));
+}
+
+/**
+ * Build the `state` table without installing it, for engines other than Lua.
+ *
+ * @param state - Store for the current session, if any
+ */
+export function createScriptState(
+  state: ScriptState | undefined,
+): Record<string, (...args: unknown[]) => unknown> {
+  const store = (): ScriptState => {
+    if (!state) {
+      throw new Error(
+        "state is not available: this runtime was called without a session state store",
+      );
+    }
+    return state;
+  };
+
+  return {
+    get: (key: unknown) => toLuaValue(store().get(toKey("get", key))),
+    set: (key: unknown, value: unknown) => {
+      // Setting nil removes the key, like assigning nil to a table field
+      if (value === undefined || value === null) {
+        store().delete(toKey("set", key));
+        return;
+      }
+      store().set(toKey("set", key), fromLuaValue(value));
+    },
+    delete: (key: unknown) => store().delete(toKey("delete", key)),
+    keys: () => store().keys(),
+  };
+}
+
+function toKey(fn: string, key: unknown): string {
+  if (typeof key !== "string" || key.length === 0) {
+    throw new Error(`state.${fn}() expects a non-empty string key`);
+  }
+  return key;
+}
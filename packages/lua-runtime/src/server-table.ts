@@ -0,0 +1,352 @@
+import {
+  sanitizeLuaIdentifier,
+  namespaceCallToolResultResources,
+} from "@my-cool-proxy/mcp-utilities";
+import {
+  takeResult,
+  type ResponseMessage,
+} from "@modelcontextprotocol/sdk/experimental";
+import {
+  CallToolResultSchema,
+  type CallToolResult,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import type {
+  JsonSchemaType,
+  JsonSchemaValidator,
+} from "@modelcontextprotocol/sdk/validation";
+import { inspect } from "node:util";
+import type {
+  ILogger,
+  IMCPClientSession,
+  OutputValidationMode,
+  ScriptExecutionOptions,
+} from "./types.js";
+import { observed, type CallGuard } from "./execution-guard.js";
+import {
+  callWithRetries,
+  parseCallOptions,
+  type ToolCallOptions,
+} from "./call-options.js";
+import { createServerResourceApi } from "./resource-access.js";
+import { validateAgainstSchema } from "./schema-validation.js";
+import { ToolCallError, type FailedToolCall } from "./script-error.js";
+
+/**
+ * How values cross between a script engine and the host
+ */
+export interface ScriptValueConversion {
+  /** Turn the arguments a script passed to a tool into JSON for the call */
+  toArguments(value: unknown, inputSchema: unknown): unknown;
+  /** Turn a value returned to the script into the engine's representation */
+  toScript(value: unknown): unknown;
+}
+
+/**
+ * What a server table's functions need from the execution they belong to
+ */
+export interface ServerTableContext {
+  logger: ILogger;
+  guard: CallGuard;
+  options: ScriptExecutionOptions | undefined;
+  outputValidation: OutputValidationMode;
+  conversion: ScriptValueConversion;
+  /** Told about each failed call, so an uncaught error can be traced to it */
+  onCallFailed: (call: FailedToolCall) => void;
+}
+
+/**
+ * Build the table a script uses to reach a server: a function per tool,
+ * keyed by its sanitized name, plus `resources` and `prompts`.
+ *
+ * Tool functions take the arguments and optional call options and return a
+ * promise of the unwrapped result. Arguments are checked against the tool's
+ * input schema before the call, so invalid arguments are thrown at the call
+ * instead of by the upstream server.
+ *
+ * @param serverName - Original (non-sanitized) server name
+ * @param client - Session for the server
+ * @param tools - The server's tools
+ * @param context - The execution the table belongs to
+ */
+export function createServerTable(
+  serverName: string,
+  client: IMCPClientSession,
+  tools: Tool[],
+  context: ServerTableContext,
+): Record<string, unknown> {
+  const { logger, guard, options, conversion, onCallFailed } = context;
+  const luaServerName = sanitizeLuaIdentifier(serverName);
+  const serverTable: Record<string, unknown> = {};
+
+  for (const tool of tools) {
+    const toolName = tool.name;
+    const luaToolName = sanitizeLuaIdentifier(toolName);
+    const luaName = `${luaServerName}.${luaToolName}`;
+    // Like callToolStream(), run tools that support tasks as tasks
+    const runsAsTask =
+      !!client.getServerCapabilities()?.tasks?.requests?.tools?.call &&
+      (tool.execution?.taskSupport === "required" ||
+        tool.execution?.taskSupport === "optional");
+
+    // Capture original names in closure for MCP calls
+    const callTool = async (
+      toolArgs: Record<string, unknown>,
+      callOptions: ToolCallOptions,
+    ) => {
+      const startedAt = Date.now();
+      let reported = false;
+      const reportCall = (error?: string) => {
+        reported = true;
+        options?.onToolCall?.({
+          server: serverName,
+          tool: toolName,
+          args: toolArgs,
+          durationMs: Date.now() - startedAt,
+          ...(error !== undefined && { error }),
+        });
+      };
+
+      try {
+        logger.debug(
+          `Calling ${serverName}.${toolName} ` +
+            `(Lua: ${luaName}) with args: ${inspect(toolArgs)}`,
+        );
+
+        // Race the call against the script deadline so a slow upstream
+        // server can't hold the script past its time limit. The guard's
+        // signal sends notifications/cancelled upstream when the script
+        // is cancelled or stopped. The request is sent directly rather
+        // than with callToolStream(), which would reject output that
+        // doesn't match the outputSchema; checkOutput() below applies the
+        // output validation mode instead.
+        const result = await guard.wrap(
+          callWithRetries(
+            (signal) =>
+              takeResult<
+                CallToolResult,
+                AsyncGenerator<ResponseMessage<CallToolResult>>
+              >(
+                client.experimental.tasks.requestStream(
+                  {
+                    method: "tools/call",
+                    params: {
+                      name: toolName,
+                      arguments: toolArgs,
+                      ...((options?.toolCallMeta || callOptions.meta) && {
+                        // The execution's meta wins, so a script can't
+                        // replace what the caller passes on
+                        _meta: {
+                          ...callOptions.meta,
+                          ...options?.toolCallMeta,
+                        },
+                      }),
+                    },
+                  },
+                  CallToolResultSchema,
+                  {
+                    signal,
+                    task: runsAsTask ? {} : undefined,
+                    // Relay upstream progress labelled with its source
+                    onprogress: options?.onProgress
+                      ? (progress) =>
+                          options.onProgress!({
+                            message: progress.message,
+                            current: progress.progress,
+                            total: progress.total,
+                            server: serverName,
+                            tool: toolName,
+                          })
+                      : undefined,
+                  },
+                ) as AsyncGenerator<ResponseMessage<CallToolResult>>,
+              ),
+            callOptions,
+            guard.signal,
+            luaName,
+            (error, delayMs, retry) => {
+              const message =
+                `${luaName} failed (${error instanceof Error ? error.message : String(error)}); ` +
+                `retry ${retry} of ${callOptions.retries} in ${delayMs} ms`;
+              logger.warn(message);
+              options?.onLog?.({ level: "warn", message });
+            },
+          ),
+        );
+        guard.toolCallsCompleted++;
+
+        checkOutput(serverName, toolName, tool.outputSchema, result, context);
+        reportCall(
+          result.isError
+            ? new ToolCallError(serverName, toolName, result.content).message
+            : undefined,
+        );
+
+        // IMPORTANT: Namespace resource URIs in tool results here!
+        // This MUST happen at the tool call level because:
+        // 1. We have the server context (serverName) here
+        // 2. Scripts can call tools from multiple servers
+        // 3. By the time results reach the gateway server, we've lost which
+        //    server each resource came from
+        // This ensures clients can directly use resource URIs from tool results
+        // without manual namespacing (e.g., file:///data.json becomes
+        // mcp://data-server/file:///data.json). An in-process server's
+        // results were namespaced by its own script's calls, and any other
+        // server's URIs are namespaced even if they look namespaced, so
+        // they can't point at another server's resources.
+        const namespacedResult = client.inProcess
+          ? result
+          : namespaceCallToolResultResources(serverName, result);
+
+        if (callOptions.raw) {
+          // The script inspects the result itself, errors included
+          return conversion.toScript(namespacedResult);
+        }
+
+        if (namespacedResult.isError) {
+          throw new ToolCallError(
+            serverName,
+            toolName,
+            namespacedResult.content,
+          );
+        }
+
+        if (namespacedResult.structuredContent) {
+          // Directly return structured content
+          return conversion.toScript(namespacedResult.structuredContent);
+        }
+
+        if (
+          namespacedResult.content.length === 1 &&
+          namespacedResult.content[0]?.type === "text"
+        ) {
+          // If single text content, attempt to parse as JSON
+          try {
+            return conversion.toScript(
+              JSON.parse(namespacedResult.content[0].text),
+            );
+          } catch {
+            // ignored
+          }
+        }
+
+        return conversion.toScript(namespacedResult);
+      } catch (error) {
+        logger.error(
+          `Error calling ${serverName}.${toolName}:`,
+          error as Error,
+        );
+        if (!reported) {
+          reportCall(error instanceof Error ? error.message : String(error));
+        }
+        onCallFailed({
+          server: serverName,
+          tool: toolName,
+          args: toolArgs,
+          error,
+        });
+        throw error;
+      }
+    };
+
+    serverTable[luaToolName] = (args: unknown, opts: unknown) => {
+      const callOptions = parseCallOptions(opts, luaName);
+      const converted = conversion.toArguments(args, tool.inputSchema);
+
+      // Check the arguments here rather than leave it to the upstream
+      // server; throwing synchronously raises the error at the call
+      const { value: toolArgs, problems } = validateAgainstSchema(
+        converted,
+        tool.inputSchema,
+      );
+      if (problems.length > 0) {
+        const error = new Error(
+          `Invalid arguments for ${luaName}:\n` +
+            problems.map((problem) => `- ${problem}`).join("\n"),
+        );
+        onCallFailed({
+          server: serverName,
+          tool: toolName,
+          args: converted as Record<string, unknown>,
+          error,
+        });
+        throw error;
+      }
+
+      return observed(
+        callTool(toolArgs as Record<string, unknown>, callOptions),
+      );
+    };
+  }
+
+  // Add resources/prompts access; a tool with the same Lua name wins
+  const resourceApi = createServerResourceApi(serverName, client, guard);
+  for (const [key, value] of Object.entries(resourceApi)) {
+    if (key in serverTable) {
+      logger.debug(
+        `Server '${serverName}' has a tool named '${key}'; ${key} access is not available on its Lua table`,
+      );
+      continue;
+    }
+    serverTable[key] = value;
+  }
+
+  return serverTable;
+}
+
+/**
+ * Validates tool output with the SDK's Ajv validator, which the SDK client
+ * uses for its own calls
+ */
+const outputSchemaValidator = new AjvJsonSchemaValidator();
+
+/**
+ * Compiled validators, so that each outputSchema is compiled once
+ */
+const outputValidators = new WeakMap<object, JsonSchemaValidator<unknown>>();
+
+/**
+ * Check a tool's structuredContent against its outputSchema. A tool with an
+ * outputSchema that returns no structuredContent doesn't match either.
+ * Depending on the output validation mode, a mismatch is logged, also
+ * reported to the script's log, or thrown so that the script sees it as an
+ * error.
+ */
+function checkOutput(
+  serverName: string,
+  toolName: string,
+  outputSchema: Tool["outputSchema"],
+  result: CallToolResult,
+  context: ServerTableContext,
+): void {
+  const { outputValidation, logger, options } = context;
+  if (outputValidation === "off" || !outputSchema || result.isError) {
+    return;
+  }
+
+  let problem: string;
+  if (result.structuredContent === undefined) {
+    problem = "no structuredContent was returned";
+  } else {
+    let validator = outputValidators.get(outputSchema);
+    if (!validator) {
+      validator = outputSchemaValidator.getValidator(
+        outputSchema as JsonSchemaType,
+      );
+      outputValidators.set(outputSchema, validator);
+    }
+    const { valid, errorMessage } = validator(result.structuredContent);
+    if (valid) {
+      return;
+    }
+    problem = errorMessage ?? "";
+  }
+
+  const message = `${serverName}.${toolName} returned structuredContent that does not match its outputSchema: ${problem}`;
+  if (outputValidation === "strict") {
+    throw new Error(message);
+  }
+  logger.warn(message);
+  options?.onLog?.({ level: "warn", message });
+}
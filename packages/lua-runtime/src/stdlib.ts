@@ -0,0 +1,174 @@
+import { randomUUID } from "node:crypto";
+import type { LuaEngine } from "wasmoon";
+import { fromLuaValue, toLuaValue } from "./json.js";
+
+type LuaFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Install the script standard library: json.encode/decode, base64, time,
+ * string and table helpers and uuid().
+ *
+ * Everything is implemented in JavaScript so that scripts don't need the
+ * os/io libraries the sandbox removes. Must run after installJson().
+ *
+ * @param engine - The engine to install into
+ */
+export function installStdlib(engine: LuaEngine): void {
+  extendGlobalTable(engine, "json", {
+    encode: (value: unknown, indent?: unknown) => {
+      const encoded = JSON.stringify(
+        fromLuaValue(value),
+        null,
+        typeof indent === "number" ? indent : undefined,
+      );
+      if (encoded === undefined) {
+        throw new Error("json.encode() cannot encode a function or nil");
+      }
+      return encoded;
+    },
+    decode: (text: unknown) => {
+      const value = expectString("json.decode", text);
+      try {
+        return toLuaValue(JSON.parse(value));
+      } catch (error) {
+        throw new Error(`json.decode() failed: ${(error as Error).message}`);
+      }
+    },
+  });
+
+  engine.global.set("base64", {
+    encode: (text: unknown) =>
+      Buffer.from(expectString("base64.encode", text), "utf8").toString(
+        "base64",
+      ),
+    decode: (text: unknown) =>
+      Buffer.from(expectString("base64.decode", text), "base64").toString(
+        "utf8",
+      ),
+  });
+
+  engine.global.set("time", {
+    now: () => Date.now(),
+    iso: (ms?: unknown) =>
+      new Date(typeof ms === "number" ? ms : Date.now()).toISOString(),
+    parse: (text: unknown) => {
+      const ms = Date.parse(expectString("time.parse", text));
+      if (Number.isNaN(ms)) {
+        throw new Error(`time.parse() could not parse '${String(text)}'`);
+      }
+      return ms;
+    },
+  });
+
+  engine.global.set("uuid", () => randomUUID());
+
+  extendGlobalTable(engine, "string", {
+    split: (text: unknown, separator?: unknown) => {
+      const value = expectString("string.split", text);
+      if (separator === undefined || separator === null) {
+        const trimmed = value.trim();
+        return trimmed === "" ? [] : trimmed.split(/\s+/);
+      }
+      return value.split(expectString("string.split", separator));
+    },
+    trim: (text: unknown) => expectString("string.trim", text).trim(),
+    startswith: (text: unknown, prefix: unknown) =>
+      expectString("string.startswith", text).startsWith(
+        expectString("string.startswith", prefix),
+      ),
+    endswith: (text: unknown, suffix: unknown) =>
+      expectString("string.endswith", text).endsWith(
+        expectString("string.endswith", suffix),
+      ),
+  });
+
+  extendGlobalTable(engine, "table", {
+    map: (items: unknown, fn: unknown) => {
+      const callback = expectFunction("table.map", fn);
+      return mapEntries(items, (entries) =>
+        entries.map(([key, value]) => [key, callback(value, key)]),
+      );
+    },
+    filter: (items: unknown, fn: unknown) => {
+      const callback = expectFunction("table.filter", fn);
+      return mapEntries(items, (entries) =>
+        entries.filter(([key, value]) => isTruthy(callback(value, key))),
+      );
+    },
+    reduce: (items: unknown, fn: unknown, initial: unknown) => {
+      const callback = expectFunction("table.reduce", fn);
+      return toEntries(items).reduce(
+        (accumulator, [key, value]) => callback(accumulator, value, key),
+        initial,
+      );
+    },
+    keys: (items: unknown) => toEntries(items).map(([key]) => key),
+  });
+}
+
+/**
+ * Add fields to an existing global table such as `string` or `table`
+ */
+function extendGlobalTable(
+  engine: LuaEngine,
+  name: string,
+  fields: Record<string, LuaFunction>,
+): void {
+  const { lua, address } = engine.global;
+  lua.lua_getglobal(address, name);
+  for (const [key, value] of Object.entries(fields)) {
+    engine.global.setField(-1, key, value);
+  }
+  engine.global.pop();
+}
+
+/**
+ * Sequences arrive as arrays (keyed 1..n in Lua) and other tables as objects
+ */
+function toEntries(items: unknown): Array<[string | number, unknown]> {
+  if (Array.isArray(items)) {
+    return items.map((value, index) => [index + 1, value]);
+  }
+  if (items && typeof items === "object") {
+    return Object.entries(items);
+  }
+  throw new Error("Expected a table");
+}
+
+/**
+ * Transform a table's entries, returning a list for sequences and a table
+ * with the same keys otherwise
+ */
+function mapEntries(
+  items: unknown,
+  transform: (
+    entries: Array<[string | number, unknown]>,
+  ) => Array<[string | number, unknown]>,
+): unknown {
+  const entries = transform(toEntries(items));
+  if (Array.isArray(items)) {
+    return entries.map(([, value]) => value);
+  }
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Lua treats everything except nil and false as true
+ */
+function isTruthy(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== false;
+}
+
+function expectString(fn: string, value: unknown): string {
+  if (typeof value !== "string") {
+    throw new Error(`${fn}() expects a string, got ${typeof value}`);
+  }
+  return value;
+}
+
+function expectFunction(fn: string, value: unknown): LuaFunction {
+  if (typeof value !== "function") {
+    throw new Error(`${fn}() expects a function`);
+  }
+  return value as LuaFunction;
+}
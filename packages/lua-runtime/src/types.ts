@@ -1,4 +1,17 @@
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ServerCapabilities,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ScriptLimits } from "./limits.js";
+import type { ScriptToolCall } from "./script-error.js";
 
 /**
  * Minimal logger interface for the lua-runtime package
@@ -20,14 +33,68 @@ export interface IMCPClientSession {
    */
   listTools(): Promise<Tool[]>;
 
+  /**
+   * List available resources from the MCP server
+   */
+  listResources(): Promise<Resource[]>;
+
+  /**
+   * Read a resource by its original (non-namespaced) URI
+   */
+  readResource(
+    params: { uri: string },
+    options?: { signal?: AbortSignal },
+  ): Promise<ReadResourceResult>;
+
+  /**
+   * List available prompts from the MCP server
+   */
+  listPrompts(): Promise<Prompt[]>;
+
+  /**
+   * Get a prompt by its original (non-namespaced) name
+   */
+  getPrompt(
+    params: { name: string; arguments?: Record<string, string> },
+    options?: { signal?: AbortSignal },
+  ): Promise<GetPromptResult>;
+
+  /**
+   * Whether the server runs inside the host, such as the gateway's lua
+   * servers. Its tool results come from scripts whose own tool calls have
+   * namespaced their resource URIs already.
+   */
+  readonly inProcess?: boolean;
+
+  /**
+   * Capabilities the server reported when it connected
+   */
+  getServerCapabilities(): ServerCapabilities | undefined;
+
   /**
    * Access to experimental SDK features (tasks, etc.)
    */
   experimental: {
     tasks: {
-      callToolStream(
-        params: { name: string; arguments: Record<string, unknown> },
+      requestStream(
+        request: {
+          method: "tools/call";
+          params: {
+            name: string;
+            arguments: Record<string, unknown>;
+            _meta?: Record<string, unknown>;
+          };
+        },
         schema: unknown,
+        options?: {
+          signal?: AbortSignal;
+          onprogress?: (progress: {
+            progress: number;
+            total?: number;
+            message?: string;
+          }) => void;
+          task?: { ttl?: number };
+        },
       ): AsyncGenerator<unknown>;
     };
   };
@@ -38,6 +105,155 @@ export interface IMCPClientSession {
   close(): Promise<void>;
 }
 
+/**
+ * A progress update raised while a script runs, either by the script itself
+ * through progress() or by an upstream tool call.
+ */
+export interface ScriptProgress {
+  message?: string;
+  current?: number;
+  total?: number;
+  /** Original server name, set when the update came from a tool call */
+  server?: string;
+  /** Original tool name, set when the update came from a tool call */
+  tool?: string;
+}
+
+export type ScriptLogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A message written by the script with print() (level "info") or log()
+ */
+export interface ScriptLogEntry {
+  level: ScriptLogLevel;
+  message: string;
+}
+
+/**
+ * A tool call the script sent upstream, reported once it has finished
+ */
+export interface CompletedToolCall extends ScriptToolCall {
+  /** Time from the first attempt to the final outcome, in milliseconds */
+  durationMs: number;
+  /** Why the call failed, if it threw or returned an error result */
+  error?: string;
+}
+
+/**
+ * Key/value store exposed to scripts as `state`. Implementations decide the
+ * scope (e.g. one store per session) and enforce their own quotas by throwing.
+ */
+export interface ScriptState {
+  /** Get a stored value, or undefined if the key is not set */
+  get(key: string): unknown;
+  /** Store a copy of a JSON-serializable value */
+  set(key: string, value: unknown): void;
+  /** Remove a key; returns whether it existed */
+  delete(key: string): boolean;
+  /** List stored keys */
+  keys(): string[];
+}
+
+/**
+ * Per-call options for script execution
+ */
+export interface ScriptExecutionOptions {
+  /**
+   * Limits for this call. These can only tighten the runtime's configured
+   * limits, never loosen them.
+   */
+  limits?: Partial<ScriptLimits>;
+
+  /**
+   * Aborting this signal stops the script and cancels its in-flight tool
+   * calls on the upstream servers.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Receives progress reported by the script and by its upstream tool calls.
+   * Upstream servers are only asked for progress when this is set.
+   */
+  onProgress?: (progress: ScriptProgress) => void;
+
+  /**
+   * Receives print() and log() output. Output is bounded per execution;
+   * without a listener it is discarded.
+   */
+  onLog?: (entry: ScriptLogEntry) => void;
+
+  /**
+   * Told about each tool call sent upstream once it has finished, whether it
+   * succeeded or not. A call that was retried is reported once.
+   */
+  onToolCall?: (call: CompletedToolCall) => void;
+
+  /**
+   * Sends a sampling request to the downstream client. When omitted, the
+   * script's sample() raises an error explaining that sampling is unavailable.
+   */
+  sample?: (
+    params: CreateMessageRequest["params"],
+  ) => Promise<CreateMessageResult>;
+
+  /**
+   * Sends an elicitation request to the downstream client. When omitted, the
+   * script's elicit() raises an error explaining that elicitation is unavailable.
+   */
+  elicit?: (params: ElicitRequest["params"]) => Promise<ElicitResult>;
+
+  /**
+   * Store that persists between executions, exposed as `state`. When
+   * omitted, the state functions raise an error.
+   */
+  state?: ScriptState;
+
+  /**
+   * JSON object exposed to the script as the read-only global `input`.
+   * Defaults to an empty table.
+   */
+  input?: Record<string, unknown>;
+
+  /**
+   * Reads resources hosted by the caller. read_resource() uses it for
+   * namespaced URIs whose server is not one of the script's servers.
+   */
+  readResource?: (uri: string) => Promise<ReadResourceResult>;
+
+  /**
+   * Session the execution belongs to. A pooled engine is only reused by
+   * executions of the session it last ran for.
+   */
+  sessionId?: string;
+
+  /**
+   * Sent as the `_meta` of every upstream tool call, merged with the meta
+   * option of the call itself. These fields win on conflicts, so scripts
+   * can't replace them.
+   */
+  toolCallMeta?: Record<string, unknown>;
+}
+
+/**
+ * What to do when a tool's structuredContent does not match its outputSchema:
+ * - "off": don't check
+ * - "warn": log the mismatch and report it to the script's log (default)
+ * - "strict": fail the tool call, which the script sees as a Lua error
+ */
+export type OutputValidationMode = "off" | "warn" | "strict";
+
+/**
+ * Options that apply to every execution of a runtime
+ */
+export interface RuntimeOptions {
+  outputValidation?: OutputValidationMode;
+  /**
+   * Number of idle engines kept for later executions; 0 creates a new
+   * engine for every execution. Defaults to DEFAULT_ENGINE_POOL_SIZE.
+   */
+  enginePoolSize?: number;
+}
+
 /**
  * Interface for Lua runtime implementations
  */
@@ -46,10 +262,17 @@ export interface ILuaRuntime {
    * Execute a Lua script with injected MCP servers
    * @param script The Lua source code to execute
    * @param mcpServers Map of server name to client session
+   * @param options Optional per-call execution options
    * @returns The result returned by calling result() in Lua
+   * @throws ScriptLimitError if the script exceeds one of its limits
+   * @throws ScriptCancelledError if options.signal is aborted
+   * @throws ScriptAnalysisError if pre-flight analysis finds errors; the
+   * script is not run
+   * @throws ScriptError if the script fails with a Lua error
    */
   executeScript(
     script: string,
     mcpServers: Map<string, IMCPClientSession>,
+    options?: ScriptExecutionOptions,
   ): Promise<unknown>;
 }
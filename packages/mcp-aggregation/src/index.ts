@@ -5,6 +5,7 @@ export type {
   IMCPClientManager,
   IMCPClientSession,
   ILuaRuntime,
+  ScriptLanguage,
   ServerListItem,
   ToolInfo,
 } from "./types.js";
@@ -12,5 +13,9 @@ export type {
 // Services
 export { MCPFormatterService } from "./mcp-formatter-service.js";
 export { ToolDiscoveryService } from "./tool-discovery-service.js";
-export { ResourceAggregationService } from "./resource-aggregation-service.js";
+export {
+  GATEWAY_RESOURCE_SERVER,
+  MAX_GATEWAY_RESOURCES_PER_SESSION,
+  ResourceAggregationService,
+} from "./resource-aggregation-service.js";
 export { PromptAggregationService } from "./prompt-aggregation-service.js";
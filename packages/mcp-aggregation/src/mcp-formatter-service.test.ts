@@ -118,6 +118,38 @@ describe("MCPFormatterService", () => {
       expect(result).toContain("x = 42");
       expect(result).toContain("y = 42");
     });
+
+    it("should generate a JavaScript usage example", () => {
+      const tool = {
+        name: "search",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string" },
+            tags: { type: "array" },
+          },
+          required: ["query", "tags"],
+        },
+      };
+
+      const result = formatter.formatToolDetails(
+        "docs",
+        "search",
+        tool,
+        "javascript",
+      );
+
+      expect(result).toContain(
+        [
+          "Usage Example:",
+          "  const res = await docs.search({",
+          '    query: "example",',
+          "    tags: [],",
+          "  });",
+          "  result(res);",
+        ].join("\n"),
+      );
+    });
   });
 
   describe("generateExampleArgs", () => {
@@ -174,5 +206,27 @@ describe("MCPFormatterService", () => {
       expect(result).toHaveLength(1);
       expect(result[0]).toContain("required_field");
     });
+
+    it("should quote field names that aren't identifiers", () => {
+      const schema = {
+        properties: {
+          "user-id": { type: "number" },
+          end: { type: "boolean" },
+          $ref: { type: "string" },
+        },
+        required: ["user-id", "end", "$ref"],
+      };
+
+      expect(formatter.generateExampleArgs(schema)).toEqual([
+        '["user-id"] = 42,',
+        '["end"] = true,',
+        '["$ref"] = "example",',
+      ]);
+      expect(formatter.generateExampleArgs(schema, "javascript")).toEqual([
+        '"user-id": 42,',
+        "end: true,",
+        '$ref: "example",',
+      ]);
+    });
   });
 });
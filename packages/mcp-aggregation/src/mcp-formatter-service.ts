@@ -1,5 +1,9 @@
-import { formatSchema } from "@my-cool-proxy/mcp-utilities";
-import type { ServerListItem, ToolInfo } from "./types.js";
+import {
+  formatSchema,
+  jsonToLuaTable,
+  sanitizeLuaIdentifier,
+} from "@my-cool-proxy/mcp-utilities";
+import type { ScriptLanguage, ServerListItem, ToolInfo } from "./types.js";
 
 export class MCPFormatterService {
   formatServerList(
@@ -97,6 +101,7 @@ export class MCPFormatterService {
       inputSchema?: unknown;
       outputSchema?: unknown;
     },
+    language: ScriptLanguage = "lua",
   ): string {
     const lines = [`Server: ${luaServerName}`, `Tool: ${luaToolName}`, ""];
 
@@ -129,22 +134,33 @@ export class MCPFormatterService {
     }
 
     lines.push("Usage Example:");
-    lines.push(`  local res = ${luaServerName}.${luaToolName}({`);
-
-    const exampleArgs = this.generateExampleArgs(tool.inputSchema);
-    if (exampleArgs.length > 0) {
-      lines.push(...exampleArgs.map((arg) => `    ${arg}`));
+    const exampleArgs = this.generateExampleArgs(tool.inputSchema, language);
+    if (language === "javascript") {
+      lines.push(`  const res = await ${luaServerName}.${luaToolName}({`);
+      if (exampleArgs.length > 0) {
+        lines.push(...exampleArgs.map((arg) => `    ${arg}`));
+      } else {
+        lines.push("    // No required parameters");
+      }
+      lines.push("  });", "  result(res);");
     } else {
-      lines.push("    -- No required parameters");
+      lines.push(`  local res = ${luaServerName}.${luaToolName}({`);
+      if (exampleArgs.length > 0) {
+        lines.push(...exampleArgs.map((arg) => `    ${arg}`));
+      } else {
+        lines.push("    -- No required parameters");
+      }
+      lines.push("  }):await(); result(res)");
     }
-
-    lines.push("  }):await(); result(res)");
     lines.push("");
 
     return lines.join("\n");
   }
 
-  generateExampleArgs(schema: unknown): string[] {
+  generateExampleArgs(
+    schema: unknown,
+    language: ScriptLanguage = "lua",
+  ): string[] {
     if (!schema || typeof schema !== "object") {
       return [];
     }
@@ -166,15 +182,44 @@ export class MCPFormatterService {
     )) {
       if (required.has(fieldName)) {
         const fieldSchemaObj = fieldSchema as { type?: string };
-        const exampleValue = this.getExampleValue(fieldSchemaObj.type);
-        args.push(`${fieldName} = ${exampleValue},`);
+        const exampleValue = this.getExampleValue(
+          fieldSchemaObj.type,
+          language,
+        );
+        args.push(
+          language === "javascript"
+            ? `${this.formatJavaScriptKey(fieldName)}: ${exampleValue},`
+            : `${this.formatLuaKey(fieldName)} = ${exampleValue},`,
+        );
       }
     }
 
     return args;
   }
 
-  private getExampleValue(type?: string): string {
+  /**
+   * Field names that aren't identifiers, e.g. `user-id`, are quoted
+   */
+  private formatJavaScriptKey(fieldName: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(fieldName)
+      ? fieldName
+      : JSON.stringify(fieldName);
+  }
+
+  /**
+   * Field names that aren't identifiers or are keywords, e.g. `user-id` or
+   * `end`, are written as `["user-id"]`
+   */
+  private formatLuaKey(fieldName: string): string {
+    return sanitizeLuaIdentifier(fieldName) === fieldName
+      ? fieldName
+      : `[${jsonToLuaTable(fieldName)}]`;
+  }
+
+  private getExampleValue(
+    type: string | undefined,
+    language: ScriptLanguage,
+  ): string {
     switch (type) {
       case "string":
         return '"example"';
@@ -183,7 +228,7 @@ export class MCPFormatterService {
       case "boolean":
         return "true";
       case "array":
-        return "{}";
+        return language === "javascript" ? "[]" : "{}";
       case "object":
         return "{}";
       default:
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { ResourceAggregationService } from "./resource-aggregation-service.js";
+import {
+  MAX_GATEWAY_RESOURCES_PER_SESSION,
+  ResourceAggregationService,
+} from "./resource-aggregation-service.js";
 import type { IMCPClientManager, IMCPClientSession, ILogger } from "./types.js";
 import type {
   Resource,
@@ -223,4 +226,56 @@ describe("ResourceAggregationService", () => {
       expect(mockClient.listResources).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe("gateway resources", () => {
+    it("should list and read resources hosted by the gateway per session", async () => {
+      const resource = service.addGatewayResource(
+        "session-123",
+        "results/abc",
+        { name: "results/abc", mimeType: "application/json" },
+        '{"rows":[]}',
+      );
+
+      expect(resource).toEqual({
+        uri: "mcp://gateway/results/abc",
+        name: "results/abc",
+        mimeType: "application/json",
+      });
+      expect((await service.listResources("session-123")).resources).toEqual([
+        resource,
+      ]);
+      expect(await service.readResource(resource.uri, "session-123")).toEqual({
+        contents: [
+          {
+            uri: "mcp://gateway/results/abc",
+            mimeType: "application/json",
+            text: '{"rows":[]}',
+          },
+        ],
+      });
+      await expect(
+        service.readResource(resource.uri, "other-session"),
+      ).rejects.toThrow("not found in session 'other-session'");
+
+      service.deleteGatewayResources("session-123");
+      expect((await service.listResources("session-123")).resources).toEqual(
+        [],
+      );
+    });
+
+    it("should drop the oldest resources beyond the per-session limit", async () => {
+      for (let i = 0; i <= MAX_GATEWAY_RESOURCES_PER_SESSION; i++) {
+        service.addGatewayResource(
+          "session-123",
+          `results/${i}`,
+          { name: `results/${i}` },
+          "x",
+        );
+      }
+
+      const { resources } = await service.listResources("session-123");
+      expect(resources).toHaveLength(MAX_GATEWAY_RESOURCES_PER_SESSION);
+      expect(resources[0]!.uri).toBe("mcp://gateway/results/1");
+    });
+  });
 });
@@ -2,6 +2,7 @@ import type {
   ListResourcesResult,
   ReadResourceResult,
   Resource,
+  TextResourceContents,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   namespaceResource,
@@ -16,8 +17,28 @@ import type {
   ICacheService,
 } from "./types.js";
 
+/**
+ * Server name under which the gateway serves resources of its own, e.g.
+ * `mcp://gateway/results/<id>`. These take precedence over an upstream server
+ * with the same name.
+ */
+export const GATEWAY_RESOURCE_SERVER = "gateway";
+
+/**
+ * Number of gateway resources kept per session; adding one more drops the
+ * oldest
+ */
+export const MAX_GATEWAY_RESOURCES_PER_SESSION = 20;
+
+interface GatewayResource {
+  resource: Resource;
+  text: string;
+}
+
 export class ResourceAggregationService {
   private cache: ICacheService<Resource[]>;
+  // Session ID -> namespaced URI -> resource, in insertion order
+  private gatewayResources = new Map<string, Map<string, GatewayResource>>();
 
   constructor(
     private clientPool: IMCPClientManager,
@@ -30,19 +51,21 @@ export class ResourceAggregationService {
   async listResources(sessionId: string): Promise<ListResourcesResult> {
     const session = sessionId || "default";
 
+    const hosted = this.listGatewayResources(session);
+
     const cached = this.cache.get(session);
     if (cached) {
       this.logger.debug(
         `Returning cached resource list for session '${session}'`,
       );
-      return { resources: cached };
+      return { resources: [...cached, ...hosted] };
     }
 
     const clients = this.clientPool.getClientsBySession(session);
 
     if (clients.size === 0) {
       this.logger.info(`No clients available for session '${session}'`);
-      return { resources: [] };
+      return { resources: hosted };
     }
 
     const resourcePromises = Array.from(clients.entries()).map(
@@ -83,7 +106,7 @@ export class ResourceAggregationService {
       `Aggregated ${allResources.length} resources from ${clients.size} servers for session '${session}'`,
     );
 
-    return { resources: allResources };
+    return { resources: [...allResources, ...hosted] };
   }
 
   async readResource(
@@ -101,6 +124,10 @@ export class ResourceAggregationService {
 
     const { serverName, originalUri } = parsed;
 
+    if (serverName === GATEWAY_RESOURCE_SERVER) {
+      return this.readGatewayResource(uri, session);
+    }
+
     const clients = this.clientPool.getClientsBySession(session);
     const client = clients.get(serverName) as IMCPClientSession | undefined;
 
@@ -136,12 +163,82 @@ export class ResourceAggregationService {
     }
   }
 
+  /**
+   * Serve a resource from the gateway itself for the rest of the session,
+   * such as a tool result too large to return inline.
+   *
+   * @param sessionId - Session the resource belongs to
+   * @param path - Path under `mcp://gateway/`, e.g. `results/<id>`
+   * @param resource - Name, MIME type and other metadata of the resource
+   * @param text - The resource contents
+   * @returns The resource, with its namespaced URI
+   */
+  addGatewayResource(
+    sessionId: string,
+    path: string,
+    resource: Omit<Resource, "uri">,
+    text: string,
+  ): Resource {
+    const session = sessionId || "default";
+    const uri = namespaceResourceUri(GATEWAY_RESOURCE_SERVER, path);
+    const hosted: Resource = { ...resource, uri };
+
+    const resources =
+      this.gatewayResources.get(session) ?? new Map<string, GatewayResource>();
+    resources.delete(uri);
+    resources.set(uri, { resource: hosted, text });
+    for (const oldest of resources.keys()) {
+      if (resources.size <= MAX_GATEWAY_RESOURCES_PER_SESSION) break;
+      resources.delete(oldest);
+      this.logger.debug(`Dropped gateway resource '${oldest}'`);
+    }
+    this.gatewayResources.set(session, resources);
+
+    this.logger.debug(
+      `Added gateway resource '${uri}' for session '${session}'`,
+    );
+    return hosted;
+  }
+
+  /**
+   * Drop the gateway resources of a closed session
+   */
+  deleteGatewayResources(sessionId: string): void {
+    this.gatewayResources.delete(sessionId || "default");
+  }
+
   handleResourceListChanged(serverName: string, sessionId: string): void {
     this.logger.info(
       `Resource list changed for server '${serverName}' in session '${sessionId}'`,
     );
     this.cache.delete(sessionId);
   }
+
+  private listGatewayResources(session: string): Resource[] {
+    return Array.from(
+      this.gatewayResources.get(session)?.values() ?? [],
+      ({ resource }) => resource,
+    );
+  }
+
+  private readGatewayResource(
+    uri: string,
+    session: string,
+  ): ReadResourceResult {
+    const hosted = this.gatewayResources.get(session)?.get(uri);
+    if (!hosted) {
+      throw new Error(
+        `Resource '${uri}' not found in session '${session}'. Gateway resources only last for the session and the oldest are dropped after ${MAX_GATEWAY_RESOURCES_PER_SESSION}.`,
+      );
+    }
+
+    const contents: TextResourceContents = {
+      uri,
+      text: hosted.text,
+      ...(hosted.resource.mimeType && { mimeType: hosted.resource.mimeType }),
+    };
+    return { contents: [contents] };
+  }
 }
 
 export default ResourceAggregationService;
@@ -245,7 +245,11 @@ describe("ToolDiscoveryService", () => {
         "session-123",
       );
 
-      expect(mockLuaRuntime.executeScript).toHaveBeenCalled();
+      expect(mockLuaRuntime.executeScript).toHaveBeenCalledWith(
+        expect.any(String),
+        clientsMap,
+        { sessionId: "session-123" },
+      );
       expect(result.isError).toBeUndefined();
       expect((result.content[0] as { text: string }).text).toContain(
         "Tool executed",
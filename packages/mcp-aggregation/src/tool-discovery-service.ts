@@ -1,10 +1,14 @@
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { sanitizeLuaIdentifier } from "@my-cool-proxy/mcp-utilities";
+import {
+  jsonToLuaTable,
+  sanitizeLuaIdentifier,
+} from "@my-cool-proxy/mcp-utilities";
 import type {
   IMCPClientManager,
   IMCPClientSession,
   ILogger,
   ILuaRuntime,
+  ScriptLanguage,
   ServerListItem,
 } from "./types.js";
 import { MCPFormatterService } from "./mcp-formatter-service.js";
@@ -22,37 +26,6 @@ export class ToolDiscoveryService {
     this.formatter = formatter ?? new MCPFormatterService();
   }
 
-  /**
-   * Convert a JavaScript object to Lua table syntax
-   * @param obj - The object to convert
-   * @returns Lua table syntax string
-   */
-  private jsonToLuaTable(obj: Record<string, unknown>): string {
-    if (typeof obj !== "object" || obj === null) {
-      return JSON.stringify(obj);
-    }
-
-    if (Array.isArray(obj)) {
-      const items = obj.map((item) =>
-        typeof item === "object"
-          ? this.jsonToLuaTable(item as Record<string, unknown>)
-          : JSON.stringify(item),
-      );
-      return `{${items.join(", ")}}`;
-    }
-
-    const pairs = Object.entries(obj).map(([key, value]) => {
-      const luaKey = /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(key) ? key : `["${key}"]`;
-      const luaValue =
-        typeof value === "object" && value !== null
-          ? this.jsonToLuaTable(value as Record<string, unknown>)
-          : JSON.stringify(value);
-      return `${luaKey} = ${luaValue}`;
-    });
-
-    return `{${pairs.join(", ")}}`;
-  }
-
   async listServers(sessionId: string): Promise<CallToolResult> {
     try {
       const effectiveSessionId = sessionId || "default";
@@ -139,6 +112,7 @@ export class ToolDiscoveryService {
     luaServerName: string,
     luaToolName: string,
     sessionId: string,
+    language: ScriptLanguage = "lua",
   ): Promise<CallToolResult> {
     try {
       const mcpServers = this.clientPool.getClientsBySession(
@@ -187,6 +161,7 @@ export class ToolDiscoveryService {
         luaServerName,
         luaToolName,
         tool,
+        language,
       );
       return { content: [{ type: "text", text: formattedOutput }] };
     } catch (error) {
@@ -255,7 +230,7 @@ export class ToolDiscoveryService {
       );
 
       // Generate a Lua script that calls the tool and returns the result
-      const luaArgs = this.jsonToLuaTable(sampleArgs);
+      const luaArgs = jsonToLuaTable(sampleArgs);
       const luaScript = `result(${luaServerName}.${luaToolName}(${luaArgs}):await())`;
 
       this.logger.debug(`Generated inspection script: ${luaScript}`);
@@ -264,6 +239,7 @@ export class ToolDiscoveryService {
       const response = await this.luaRuntime.executeScript(
         luaScript,
         mcpServers,
+        { sessionId: sessionId || "default" },
       );
 
       // Format the response for display
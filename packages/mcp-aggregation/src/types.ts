@@ -78,9 +78,15 @@ export interface ILuaRuntime {
   executeScript(
     script: string,
     mcpServers: Map<string, IMCPClientSession>,
+    options?: { sessionId?: string },
   ): Promise<unknown>;
 }
 
+/**
+ * Language of execute scripts, which decides how usage examples are written
+ */
+export type ScriptLanguage = "lua" | "javascript";
+
 /**
  * Server list item for list-servers response
  */
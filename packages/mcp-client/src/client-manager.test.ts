@@ -3,6 +3,8 @@ import { MCPClientManager } from "./client-manager.js";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { MCPClientSession } from "./client-session.js";
 import type { ILogger } from "./types.js";
 
@@ -202,6 +204,52 @@ describe("MCPClientManager", () => {
     });
   });
 
+  describe("addInMemoryClient", () => {
+    it("should connect the client and the server through a linked pair", async () => {
+      const server = { connect: vi.fn() } as unknown as McpServer;
+
+      const result = await clientManager.addInMemoryClient(
+        "curated",
+        server,
+        "session-memory",
+      );
+
+      expect(result).toEqual({ name: "curated", success: true });
+      const serverTransport = vi.mocked(server.connect).mock.calls[0]![0];
+      const clientTransport = vi.mocked(mockSdkClient.connect).mock
+        .calls[0]![0];
+      expect(serverTransport).toBeInstanceOf(InMemoryTransport);
+      expect(clientTransport).toBeInstanceOf(InMemoryTransport);
+      expect(clientTransport).not.toBe(serverTransport);
+      expect(
+        clientManager.getClientsBySession("session-memory").get("curated"),
+      ).toBe(mockClientSession);
+      // Marked in-process, so its tool results aren't namespaced again
+      expect(vi.mocked(MCPClientSession).mock.calls[0]![7]).toBe(true);
+    });
+
+    it("should record the server as failed when it can't connect", async () => {
+      const server = {
+        connect: vi.fn().mockRejectedValue(new Error("Already connected")),
+      } as unknown as McpServer;
+
+      const result = await clientManager.addInMemoryClient(
+        "curated",
+        server,
+        "session-memory",
+      );
+
+      expect(result).toEqual({
+        name: "curated",
+        success: false,
+        error: "Already connected",
+      });
+      expect(clientManager.getFailedServers("session-memory")).toEqual(
+        new Map([["curated", "Already connected"]]),
+      );
+    });
+  });
+
   describe("getClient", () => {
     it("should return an existing client", async () => {
       const name = "test-server";
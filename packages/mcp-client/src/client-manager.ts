@@ -1,6 +1,8 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type {
   ClientConnectionResult,
   ILogger,
@@ -56,22 +58,7 @@ export class MCPClientManager implements IMCPClientManager {
     }
 
     try {
-      // Build capabilities to advertise to the upstream server
-      // These should match what the downstream client supports, so upstream
-      // servers know they can send sampling/elicitation requests through us
-      const capsToAdvertise = this.buildClientCapabilities(clientCapabilities);
-
-      // Create underlying SDK client
-      const sdkClient = new Client(
-        {
-          name: "my-cool-proxy",
-          version: "1.0.0",
-        },
-        {
-          capabilities: capsToAdvertise,
-          enforceStrictCapabilities: true,
-        },
-      );
+      const sdkClient = this.createSdkClient(clientCapabilities);
 
       // NOTE: We do NOT propagate session IDs to upstream servers.
       // Each upstream MCP server connection goes through its own fresh initialization
@@ -89,27 +76,7 @@ export class MCPClientManager implements IMCPClientManager {
       });
       await sdkClient.connect(transport);
 
-      // Wrap in MCPClientSession
-      const wrappedClient = new MCPClientSession(
-        sdkClient,
-        name,
-        allowedTools,
-        this.logger,
-        this.onResourceListChanged
-          ? (serverName) => this.onResourceListChanged!(serverName, sessionId)
-          : undefined,
-        this.onPromptListChanged
-          ? (serverName) => this.onPromptListChanged!(serverName, sessionId)
-          : undefined,
-        this.onToolListChanged
-          ? (serverName) => this.onToolListChanged!(serverName, sessionId)
-          : undefined,
-      );
-
-      this.clients.set(key, wrappedClient);
-
-      // Clear from failed servers if previously failed
-      this.failedServers.delete(key);
+      this.addSession(sdkClient, name, sessionId, allowedTools);
 
       // Log configuration
       if (allowedTools !== undefined) {
@@ -149,20 +116,7 @@ export class MCPClientManager implements IMCPClientManager {
     }
 
     try {
-      // Build capabilities to advertise to the upstream server
-      const capsToAdvertise = this.buildClientCapabilities(clientCapabilities);
-
-      // Create underlying SDK client
-      const sdkClient = new Client(
-        {
-          name: "my-cool-proxy",
-          version: "1.0.0",
-        },
-        {
-          capabilities: capsToAdvertise,
-          enforceStrictCapabilities: true,
-        },
-      );
+      const sdkClient = this.createSdkClient(clientCapabilities);
 
       const transport = new StdioClientTransport({
         command,
@@ -172,27 +126,7 @@ export class MCPClientManager implements IMCPClientManager {
 
       await sdkClient.connect(transport);
 
-      // Wrap in MCPClientSession
-      const wrappedClient = new MCPClientSession(
-        sdkClient,
-        name,
-        allowedTools,
-        this.logger,
-        this.onResourceListChanged
-          ? (serverName) => this.onResourceListChanged!(serverName, sessionId)
-          : undefined,
-        this.onPromptListChanged
-          ? (serverName) => this.onPromptListChanged!(serverName, sessionId)
-          : undefined,
-        this.onToolListChanged
-          ? (serverName) => this.onToolListChanged!(serverName, sessionId)
-          : undefined,
-      );
-
-      this.clients.set(key, wrappedClient);
-
-      // Clear from failed servers if previously failed
-      this.failedServers.delete(key);
+      this.addSession(sdkClient, name, sessionId, allowedTools);
 
       // Log configuration
       if (allowedTools !== undefined) {
@@ -216,6 +150,43 @@ export class MCPClientManager implements IMCPClientManager {
     }
   }
 
+  async addInMemoryClient(
+    name: string,
+    server: McpServer,
+    sessionId: string,
+    clientCapabilities?: DownstreamCapabilities,
+  ): Promise<ClientConnectionResult> {
+    const key = `${name}-${sessionId}`;
+    if (this.clients.has(key)) {
+      this.logger.debug(
+        `Client ${name} already exists for session ${sessionId}`,
+      );
+      return { name, success: true };
+    }
+
+    try {
+      const sdkClient = this.createSdkClient(clientCapabilities);
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await sdkClient.connect(clientTransport);
+
+      this.addSession(sdkClient, name, sessionId, undefined, true);
+
+      this.logger.info(`MCP client ${name} connected to in-process server`);
+      return { name, success: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to connect MCP client ${name} to in-process server: ${errorMessage}`,
+      );
+      this.failedServers.set(key, errorMessage);
+      return { name, success: false, error: errorMessage };
+    }
+  }
+
   async getClient(name: string, sessionId: string): Promise<MCPClientSession> {
     // TODO: Support creating sessionless clients on-demand
     const client = this.clients.get(`${name}-${sessionId}`);
@@ -275,6 +246,60 @@ export class MCPClientManager implements IMCPClientManager {
     this.logger.debug(`Cleaned up session ${sessionId}`);
   }
 
+  /**
+   * Create the SDK client for an upstream server, advertising the
+   * capabilities of the downstream client. These should match what the
+   * downstream client supports, so upstream servers know they can send
+   * sampling/elicitation requests through us.
+   */
+  private createSdkClient(clientCapabilities?: DownstreamCapabilities): Client {
+    return new Client(
+      {
+        name: "my-cool-proxy",
+        version: "1.0.0",
+      },
+      {
+        capabilities: this.buildClientCapabilities(clientCapabilities),
+        enforceStrictCapabilities: true,
+      },
+    );
+  }
+
+  /**
+   * Wrap a connected SDK client in an MCPClientSession and register it for
+   * the session
+   */
+  private addSession(
+    sdkClient: Client,
+    name: string,
+    sessionId: string,
+    allowedTools: string[] | undefined,
+    inProcess = false,
+  ): void {
+    const key = `${name}-${sessionId}`;
+    const wrappedClient = new MCPClientSession(
+      sdkClient,
+      name,
+      allowedTools,
+      this.logger,
+      this.onResourceListChanged
+        ? (serverName) => this.onResourceListChanged!(serverName, sessionId)
+        : undefined,
+      this.onPromptListChanged
+        ? (serverName) => this.onPromptListChanged!(serverName, sessionId)
+        : undefined,
+      this.onToolListChanged
+        ? (serverName) => this.onToolListChanged!(serverName, sessionId)
+        : undefined,
+      inProcess,
+    );
+
+    this.clients.set(key, wrappedClient);
+
+    // Clear from failed servers if previously failed
+    this.failedServers.delete(key);
+  }
+
   /**
    * Build the capabilities object to advertise to upstream servers.
    * These match what the downstream client supports, so upstream servers
@@ -5,6 +5,7 @@ import {
   ResourceListChangedNotificationSchema,
   PromptListChangedNotificationSchema,
   type Implementation,
+  type ServerCapabilities,
   type ListResourcesResult,
   type ListPromptsResult,
   type Resource,
@@ -14,7 +15,10 @@ import {
   type Notification,
   type Result,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  RequestHandlerExtra,
+  RequestOptions,
+} from "@modelcontextprotocol/sdk/shared/protocol.js";
 import type {
   AnyObjectSchema,
   SchemaOutput,
@@ -37,6 +41,10 @@ export class MCPClientSession {
   private onResourceListChanged?: (serverName: string) => void;
   private onPromptListChanged?: (serverName: string) => void;
   private onToolListChanged?: (serverName: string) => void;
+  /**
+   * Whether the server runs inside the gateway, such as a lua server
+   */
+  readonly inProcess: boolean;
 
   constructor(
     client: Client,
@@ -46,6 +54,7 @@ export class MCPClientSession {
     onResourceListChanged?: (serverName: string) => void,
     onPromptListChanged?: (serverName: string) => void,
     onToolListChanged?: (serverName: string) => void,
+    inProcess = false,
   ) {
     this.client = client;
     this.serverName = serverName;
@@ -54,6 +63,7 @@ export class MCPClientSession {
     this.onResourceListChanged = onResourceListChanged;
     this.onPromptListChanged = onPromptListChanged;
     this.onToolListChanged = onToolListChanged;
+    this.inProcess = inProcess;
 
     // Initialize cache instances
     this.toolCache = createCache<Tool[]>(logger);
@@ -122,6 +132,10 @@ export class MCPClientSession {
     return this.client.getInstructions();
   }
 
+  getServerCapabilities(): ServerCapabilities | undefined {
+    return this.client.getServerCapabilities();
+  }
+
   private clearToolCache(): void {
     this.toolCache.clear();
   }
@@ -255,15 +269,18 @@ export class MCPClientSession {
     return prompts;
   }
 
-  async readResource(params: { uri: string }) {
-    return this.client.readResource(params);
+  async readResource(params: { uri: string }, options?: RequestOptions) {
+    return this.client.readResource(params, options);
   }
 
-  async getPrompt(params: {
-    name: string;
-    arguments?: Record<string, string>;
-  }) {
-    return this.client.getPrompt(params);
+  async getPrompt(
+    params: {
+      name: string;
+      arguments?: Record<string, string>;
+    },
+    options?: RequestOptions,
+  ) {
+    return this.client.getPrompt(params, options);
   }
 
   // Pass through other methods we need
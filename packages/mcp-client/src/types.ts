@@ -1,3 +1,4 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { MCPClientSession } from "./client-session.js";
 
 /**
@@ -54,6 +55,16 @@ export interface IMCPClientManager {
     allowedTools?: string[],
     clientCapabilities?: DownstreamCapabilities,
   ): Promise<ClientConnectionResult>;
+  /**
+   * Connect to a server running in the gateway process, such as a virtual
+   * server whose tools are implemented by the gateway itself.
+   */
+  addInMemoryClient(
+    name: string,
+    server: McpServer,
+    sessionId: string,
+    clientCapabilities?: DownstreamCapabilities,
+  ): Promise<ClientConnectionResult>;
   getClient(name: string, sessionId: string): Promise<MCPClientSession>;
   getClientsBySession(sessionId: string): Map<string, MCPClientSession>;
   getFailedServers(sessionId: string): Map<string, string>;
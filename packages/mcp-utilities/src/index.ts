@@ -1,5 +1,6 @@
 // Lua identifier utilities
 export { sanitizeLuaIdentifier } from "./lua-identifier.js";
+export { jsonToLuaTable } from "./lua-literal.js";
 
 // Resource URI utilities
 export {
@@ -43,6 +43,7 @@ describe("sanitizeLuaIdentifier", () => {
     expect(sanitizeLuaIdentifier("true")).toBe("_true");
     expect(sanitizeLuaIdentifier("false")).toBe("_false");
     expect(sanitizeLuaIdentifier("nil")).toBe("_nil");
+    expect(sanitizeLuaIdentifier("goto")).toBe("_goto");
   });
 
   it("should handle empty string", () => {
@@ -11,6 +11,7 @@ const LUA_KEYWORDS = new Set([
   "false",
   "for",
   "function",
+  "goto",
   "if",
   "in",
   "local",
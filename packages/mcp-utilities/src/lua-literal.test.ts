@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { jsonToLuaTable } from "./lua-literal.js";
+
+describe("jsonToLuaTable", () => {
+  it("should convert objects and arrays to tables", () => {
+    expect(jsonToLuaTable({ query: "bug", limit: 10, open: true })).toBe(
+      '{query = "bug", limit = 10, open = true}',
+    );
+    expect(jsonToLuaTable({ labels: ["a", "b"], nested: { x: [1, 2] } })).toBe(
+      '{labels = {"a", "b"}, nested = {x = {1, 2}}}',
+    );
+  });
+
+  it("should mark empty arrays and objects", () => {
+    expect(jsonToLuaTable([])).toBe("json.array()");
+    expect(jsonToLuaTable({})).toBe("json.object()");
+    expect(jsonToLuaTable({ ids: [], filter: {} })).toBe(
+      "{ids = json.array(), filter = json.object()}",
+    );
+  });
+
+  it("should keep nulls in arrays and drop null fields", () => {
+    expect(jsonToLuaTable(null)).toBe("nil");
+    expect(jsonToLuaTable([1, null, 3])).toBe("{1, json.null, 3}");
+    expect(jsonToLuaTable({ cursor: null, limit: 1 })).toBe("{limit = 1}");
+  });
+
+  it("should bracket keys that are not Lua identifiers", () => {
+    expect(jsonToLuaTable({ "user-id": 1 })).toBe('{["user-id"] = 1}');
+    expect(jsonToLuaTable({ end: 1 })).toBe('{["end"] = 1}');
+    expect(jsonToLuaTable({ goto: 1, and: 2 })).toBe(
+      '{["goto"] = 1, ["and"] = 2}',
+    );
+    expect(jsonToLuaTable({ 'say "hi"': 1 })).toBe('{["say \\"hi\\""] = 1}');
+  });
+
+  it("should escape strings as Lua literals", () => {
+    expect(jsonToLuaTable('line\n"quoted"\\')).toBe(
+      '"line\\n\\"quoted\\"\\\\"',
+    );
+    expect(jsonToLuaTable("bell\u0007")).toBe('"bell\\u{0007}"');
+    expect(jsonToLuaTable("\\u0041")).toBe('"\\\\u0041"');
+  });
+});
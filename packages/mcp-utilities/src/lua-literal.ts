@@ -0,0 +1,73 @@
+import { sanitizeLuaIdentifier } from "./lua-identifier.js";
+
+/**
+ * Converts a JSON value to Lua source for an equivalent value.
+ *
+ * Objects become tables with named fields, arrays become sequences, and
+ * strings, numbers and booleans become literals. Object fields set to null are
+ * left out (`nil`), while nulls inside arrays become `json.null` so that later
+ * items keep their positions. Empty arrays and objects use `json.array()` and
+ * `json.object()`, since `{}` alone is ambiguous. The `json` table is defined
+ * by the Lua runtime.
+ *
+ * @param value - The JSON value to convert
+ * @returns A Lua expression
+ *
+ * @example
+ * jsonToLuaTable({ query: "bug", labels: ["a"] }) // '{query = "bug", labels = {"a"}}'
+ * jsonToLuaTable({ "user-id": 1 }) // '{["user-id"] = 1}'
+ * jsonToLuaTable({ ids: [], tags: ["a", null] }) // '{ids = json.array(), tags = {"a", json.null}}'
+ */
+export function jsonToLuaTable(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "nil";
+  }
+
+  if (typeof value === "string") {
+    return toLuaString(value);
+  }
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : "nil";
+  }
+
+  if (typeof value === "boolean") {
+    return String(value);
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return "json.array()";
+    }
+    const items = value.map((item) =>
+      item === null ? "json.null" : jsonToLuaTable(item),
+    );
+    return `{${items.join(", ")}}`;
+  }
+
+  if (typeof value === "object") {
+    const entries = Object.entries(value).filter(([, item]) => item !== null);
+    if (entries.length === 0) {
+      return "json.object()";
+    }
+    const pairs = entries.map(([key, item]) => {
+      const luaKey =
+        sanitizeLuaIdentifier(key) === key ? key : `[${toLuaString(key)}]`;
+      return `${luaKey} = ${jsonToLuaTable(item)}`;
+    });
+    return `{${pairs.join(", ")}}`;
+  }
+
+  throw new Error(`Cannot convert a ${typeof value} to Lua`);
+}
+
+/**
+ * JSON string escapes are valid in Lua except \uXXXX, which Lua writes as
+ * \u{XXXX}
+ */
+function toLuaString(value: string): string {
+  return JSON.stringify(value).replace(
+    /\\(\\|u([0-9a-fA-F]{4}))/g,
+    (escape, _char, hex?: string) => (hex ? `\\u{${hex}}` : escape),
+  );
+}
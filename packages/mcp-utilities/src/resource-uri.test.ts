@@ -236,6 +236,42 @@ describe("resource-uri utils", () => {
       ).toBe("mcp://data-server/file:///data.json");
     });
 
+    it("should namespace URIs that already look namespaced", () => {
+      const result: CallToolResult = {
+        content: [
+          {
+            type: "resource_link",
+            uri: "mcp://other-server/file:///secret.txt",
+            name: "secret",
+          },
+          {
+            type: "resource",
+            resource: { uri: "mcp://gateway/results/1", text: "{}" },
+          },
+        ],
+      };
+
+      const namespaced = namespaceCallToolResultResources(
+        "data-server",
+        result,
+      );
+
+      expect(namespaced.content).toEqual([
+        {
+          type: "resource_link",
+          uri: "mcp://data-server/mcp://other-server/file:///secret.txt",
+          name: "secret",
+        },
+        {
+          type: "resource",
+          resource: {
+            uri: "mcp://data-server/mcp://gateway/results/1",
+            text: "{}",
+          },
+        },
+      ]);
+    });
+
     it("should namespace embedded resource content blocks", () => {
       const result: CallToolResult = {
         content: [